@@ -0,0 +1,2 @@
+ALTER TABLE "game_sessions" ADD COLUMN "speed_bonus_max" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "player_responses" ADD COLUMN "speed_bonus" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
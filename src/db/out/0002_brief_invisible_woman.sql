@@ -0,0 +1 @@
+ALTER TABLE "game_sessions" ADD COLUMN "scoring_strategy" varchar(30) DEFAULT 'classic' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "game_sessions" ADD COLUMN "streak_bonus_points" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "player_responses" ADD COLUMN "streak_bonus" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "player_responses" ADD COLUMN "is_correct" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "teams" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "teams_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"session_id" integer NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"captain_player_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "team_mode" varchar(20) DEFAULT 'off' NOT NULL;--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "winner_team_id" integer;--> statement-breakpoint
+ALTER TABLE "players" ADD COLUMN "team_id" integer;--> statement-breakpoint
+ALTER TABLE "teams" ADD CONSTRAINT "teams_session_id_game_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."game_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "players" ADD CONSTRAINT "players_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "session_rounds" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "session_rounds_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"session_id" integer NOT NULL,
+	"round_order" integer NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"bank_id" integer NOT NULL,
+	"question_count" integer NOT NULL,
+	"round_duration_seconds" integer DEFAULT 30 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "current_round_id" integer;--> statement-breakpoint
+ALTER TABLE "used_questions" ADD COLUMN "round_id" integer;--> statement-breakpoint
+ALTER TABLE "session_rounds" ADD CONSTRAINT "session_rounds_session_id_game_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."game_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_rounds" ADD CONSTRAINT "session_rounds_bank_id_question_banks_id_fk" FOREIGN KEY ("bank_id") REFERENCES "public"."question_banks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "used_questions" ADD CONSTRAINT "used_questions_round_id_session_rounds_id_fk" FOREIGN KEY ("round_id") REFERENCES "public"."session_rounds"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "game_sessions" ADD COLUMN "playlist_question_ids" integer[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "game_sessions" ADD COLUMN "deck_seed" varchar(50);--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "deck_question_ids" integer[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
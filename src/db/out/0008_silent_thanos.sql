@@ -0,0 +1,2 @@
+ALTER TABLE "game_sessions" ADD COLUMN "revealed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "question_count" integer;
\ No newline at end of file
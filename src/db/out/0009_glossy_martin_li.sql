@@ -0,0 +1,4 @@
+ALTER TABLE "game_sessions" ADD COLUMN "tied_player_ids" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "winner_player_ids" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+UPDATE "game_sessions" SET "winner_player_ids" = ARRAY["winner_player_id"] WHERE "winner_player_id" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "game_sessions" DROP COLUMN "winner_player_id";
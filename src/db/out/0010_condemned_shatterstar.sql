@@ -0,0 +1,14 @@
+CREATE TABLE "answer_key_corrections" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "answer_key_corrections_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"session_id" integer NOT NULL,
+	"question_id" integer NOT NULL,
+	"corrected_by" text NOT NULL,
+	"previous_correct_option_ids" integer[] NOT NULL,
+	"correct_option_ids" integer[] NOT NULL,
+	"responses_rescored" integer DEFAULT 0 NOT NULL,
+	"corrected_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "answer_key_corrections" ADD CONSTRAINT "answer_key_corrections_session_id_game_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."game_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "answer_key_corrections" ADD CONSTRAINT "answer_key_corrections_question_id_questions_id_fk" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "answer_key_corrections" ADD CONSTRAINT "answer_key_corrections_corrected_by_users_id_fk" FOREIGN KEY ("corrected_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "game_sessions" ADD COLUMN "paused_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "used_questions" ADD COLUMN "voided_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "game_sessions" ADD COLUMN "autopilot_seconds" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "autopilot_due_at" timestamp with time zone;
\ No newline at end of file
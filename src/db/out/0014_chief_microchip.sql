@@ -0,0 +1 @@
+ALTER TABLE "game_sessions" ADD COLUMN "host_player_id" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "player_responses" ADD COLUMN "text_answer" text;--> statement-breakpoint
+ALTER TABLE "player_responses" ADD COLUMN "override_accepted" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "accepted_answers" text[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "player_responses" ADD COLUMN "numeric_guess" double precision;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "numeric_answer" double precision;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "numeric_scoring" varchar(20) DEFAULT 'closest' NOT NULL;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "numeric_tolerance" double precision DEFAULT 0 NOT NULL;
\ No newline at end of file
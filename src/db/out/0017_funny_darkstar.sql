@@ -0,0 +1 @@
+ALTER TABLE "answer_options" ADD COLUMN "correct_position" integer;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "answer_pairs" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "answer_pairs_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"question_id" integer NOT NULL,
+	"left_text" varchar(200) NOT NULL,
+	"right_text" varchar(200) NOT NULL,
+	"display_order" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "player_responses" ADD COLUMN "pair_matches" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "answer_pairs" ADD CONSTRAINT "answer_pairs_question_id_questions_id_fk" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "player_responses" ADD COLUMN "tap_x" double precision;--> statement-breakpoint
+ALTER TABLE "player_responses" ADD COLUMN "tap_y" double precision;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "hotspot_regions" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
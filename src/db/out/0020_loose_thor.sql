@@ -0,0 +1,14 @@
+CREATE TABLE "buzzes" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "buzzes_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"session_id" integer NOT NULL,
+	"question_id" integer NOT NULL,
+	"player_id" text NOT NULL,
+	"buzzed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"answered_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "buzzer_mode" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "buzzes" ADD CONSTRAINT "buzzes_session_id_game_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."game_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "buzzes" ADD CONSTRAINT "buzzes_question_id_questions_id_fk" FOREIGN KEY ("question_id") REFERENCES "public"."questions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "buzzes" ADD CONSTRAINT "buzzes_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "buzzes_player_question_idx" ON "buzzes" USING btree ("session_id","question_id","player_id");
\ No newline at end of file
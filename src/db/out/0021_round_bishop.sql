@@ -0,0 +1,3 @@
+ALTER TABLE "player_responses" ADD COLUMN "voted_player_id" text;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "poll_source" varchar(20) DEFAULT 'static' NOT NULL;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "poll_scoring" varchar(20) DEFAULT 'none' NOT NULL;
\ No newline at end of file
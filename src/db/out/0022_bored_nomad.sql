@@ -0,0 +1 @@
+ALTER TABLE "used_questions" ADD COLUMN "answer_key" jsonb;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "game_sessions" ADD COLUMN "tied_team_ids" integer[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "game_sessions" ADD COLUMN "winner_team_ids" integer[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+UPDATE "game_sessions" SET "winner_team_ids" = ARRAY["winner_team_id"] WHERE "winner_team_id" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "game_sessions" DROP COLUMN "winner_team_id";
\ No newline at end of file
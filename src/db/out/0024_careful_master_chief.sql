@@ -0,0 +1,3 @@
+ALTER TABLE "answer_pairs" ADD COLUMN "right_id" integer DEFAULT (1 + floor(random() * 2147483646))::integer NOT NULL;--> statement-breakpoint
+ALTER TABLE "answer_pairs" ALTER COLUMN "right_id" DROP DEFAULT;--> statement-breakpoint
+UPDATE "player_responses" SET "pair_matches" = (SELECT jsonb_agg(jsonb_build_object('left_id', (m->>'left_id')::integer, 'right_id', coalesce(p."right_id", 0))) FROM jsonb_array_elements("player_responses"."pair_matches") m LEFT JOIN "answer_pairs" p ON p."id" = (m->>'right_id')::integer) WHERE jsonb_array_length("pair_matches") > 0;
@@ -0,0 +1,3 @@
+ALTER TABLE "questions" ADD COLUMN "matching_choices" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+UPDATE "questions" SET "matching_choices" = (SELECT jsonb_agg(jsonb_build_object('id', p."right_id", 'text', p."right_text") ORDER BY p."right_id") FROM "answer_pairs" p WHERE p."question_id" = "questions"."id") WHERE EXISTS (SELECT 1 FROM "answer_pairs" p WHERE p."question_id" = "questions"."id");--> statement-breakpoint
+UPDATE "used_questions" SET "answer_key" = "answer_key" || jsonb_build_object('pair_matches', (SELECT coalesce(jsonb_agg(jsonb_build_object('left_id', p."id", 'right_id', p."right_id")), '[]'::jsonb) FROM "answer_pairs" p WHERE p."question_id" = "used_questions"."question_id")) WHERE "answer_key" IS NOT NULL;
@@ -0,0 +1,7 @@
+CREATE TABLE "player_secrets" (
+	"player_id" text PRIMARY KEY NOT NULL,
+	"secret" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "player_secrets" ADD CONSTRAINT "player_secrets_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- Ordering items used to be inserted in their correct order, so their IDs gave the answer away. Renumber them in display order, following the new IDs through responses, answer key corrections and revealed answer keys.
+CREATE TEMPORARY TABLE "ordering_option_ids" ON COMMIT DROP AS SELECT o."id" AS "old_id", ((SELECT max("id") FROM "answer_options") + row_number() OVER (ORDER BY o."question_id", o."display_order", o."id"))::integer AS "new_id" FROM "answer_options" o JOIN "questions" q ON q."id" = o."question_id" WHERE q."question_type" = 'ordering';--> statement-breakpoint
+ALTER TABLE "answer_options" ALTER COLUMN "id" SET GENERATED BY DEFAULT;--> statement-breakpoint
+UPDATE "answer_options" SET "id" = m."new_id" FROM "ordering_option_ids" m WHERE "answer_options"."id" = m."old_id";--> statement-breakpoint
+ALTER TABLE "answer_options" ALTER COLUMN "id" SET GENERATED ALWAYS;--> statement-breakpoint
+SELECT setval(pg_get_serial_sequence('answer_options', 'id'), (SELECT max("id") FROM "answer_options")) WHERE EXISTS (SELECT 1 FROM "answer_options");--> statement-breakpoint
+UPDATE "player_responses" SET "selected_option_ids" = ARRAY(SELECT coalesce(m."new_id", u."option_id") FROM unnest("player_responses"."selected_option_ids") WITH ORDINALITY AS u("option_id", "ord") LEFT JOIN "ordering_option_ids" m ON m."old_id" = u."option_id" ORDER BY u."ord") WHERE "selected_option_ids" && ARRAY(SELECT "old_id" FROM "ordering_option_ids");--> statement-breakpoint
+UPDATE "answer_key_corrections" SET "previous_correct_option_ids" = ARRAY(SELECT coalesce(m."new_id", u."option_id") FROM unnest("answer_key_corrections"."previous_correct_option_ids") WITH ORDINALITY AS u("option_id", "ord") LEFT JOIN "ordering_option_ids" m ON m."old_id" = u."option_id" ORDER BY u."ord"), "correct_option_ids" = ARRAY(SELECT coalesce(m."new_id", u."option_id") FROM unnest("answer_key_corrections"."correct_option_ids") WITH ORDINALITY AS u("option_id", "ord") LEFT JOIN "ordering_option_ids" m ON m."old_id" = u."option_id" ORDER BY u."ord") WHERE "previous_correct_option_ids" && ARRAY(SELECT "old_id" FROM "ordering_option_ids") OR "correct_option_ids" && ARRAY(SELECT "old_id" FROM "ordering_option_ids");--> statement-breakpoint
+UPDATE "used_questions" SET "answer_key" = jsonb_set("answer_key", '{option_ids}', (SELECT coalesce(jsonb_agg(coalesce(m."new_id", e."option_id"::integer) ORDER BY e."ord"), '[]'::jsonb) FROM jsonb_array_elements_text("used_questions"."answer_key" -> 'option_ids') WITH ORDINALITY AS e("option_id", "ord") LEFT JOIN "ordering_option_ids" m ON m."old_id" = e."option_id"::integer)) WHERE "answer_key" IS NOT NULL AND "question_id" IN (SELECT "id" FROM "questions" WHERE "question_type" = 'ordering');
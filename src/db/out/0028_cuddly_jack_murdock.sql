@@ -0,0 +1,2 @@
+ALTER TABLE "used_questions" ADD COLUMN "replaced" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "used_questions" SET "replaced" = true WHERE "voided_at" IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "used_questions" ADD COLUMN "round_started_at" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+UPDATE "used_questions" SET "round_started_at" = "asked_at";--> statement-breakpoint
+UPDATE "used_questions" SET "round_started_at" = s."round_started_at" FROM "game_sessions" s WHERE s."id" = "used_questions"."session_id" AND s."current_question_id" = "used_questions"."question_id" AND s."round_started_at" IS NOT NULL;
\ No newline at end of file
@@ -1,6 +1,8 @@
 import {
   boolean,
+  doublePrecision,
   integer,
+  jsonb,
   pgTable,
   timestamp,
   varchar,
@@ -31,7 +33,15 @@ export const questionsTable = pgTable(`questions`, {
     .notNull()
     .references(() => questionBanksTable.id, { onDelete: `cascade` }),
   question_text: text().notNull(),
-  question_type: varchar({ length: 20 }).notNull().default(`single`), // "single" | "multi"
+  question_type: varchar({ length: 20 }).notNull().default(`single`), // "single" | "multi" | "text" | "numeric" | "ordering" | "matching" | "hotspot" | "poll"
+  accepted_answers: text().array().notNull().default([]), // Free-text questions only
+  numeric_answer: doublePrecision(), // Numeric questions only: the true value
+  numeric_scoring: varchar({ length: 20 }).notNull().default(`closest`), // "closest" | "tolerance"
+  numeric_tolerance: doublePrecision().notNull().default(0), // Band either side of the true value
+  hotspot_regions: jsonb().$type<HotspotRegion[]>().notNull().default([]), // Hotspot questions only: where on the image counts as correct
+  matching_choices: jsonb().$type<MatchingChoice[]>().notNull().default([]), // Matching questions only: the right-hand items players pick from, see src/lib/matching.ts
+  poll_source: varchar({ length: 20 }).notNull().default(`static`), // Polls only, see src/lib/polls.ts
+  poll_scoring: varchar({ length: 20 }).notNull().default(`none`), // Polls only, see src/lib/polls.ts
   image_data: text(), // Base64 encoded processed image
   image_mime_type: varchar({ length: 50 }), // e.g., "image/webp"
   explanation: text(), // Fun fact shown after reveal
@@ -48,6 +58,20 @@ export const answerOptionsTable = pgTable(`answer_options`, {
   option_text: varchar({ length: 500 }).notNull(),
   is_correct: boolean().notNull().default(false),
   display_order: integer().notNull().default(0),
+  correct_position: integer(), // Ordering questions only: the item's place in the answer
+})
+
+// Answer Pairs - the items of a matching question, each left-hand item
+// belonging with the right-hand item in the same row
+export const answerPairsTable = pgTable(`answer_pairs`, {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  question_id: integer(`question_id`)
+    .notNull()
+    .references(() => questionsTable.id, { onDelete: `cascade` }),
+  left_text: varchar({ length: 200 }).notNull(),
+  right_text: varchar({ length: 200 }).notNull(),
+  right_id: integer(`right_id`).notNull(), // The right-hand item's own random ID, see src/lib/matching.ts
+  display_order: integer().notNull().default(0),
 })
 
 // Game Sessions - individual game instances
@@ -62,19 +86,52 @@ export const gameSessionsTable = pgTable(
     admin_id: text(`admin_id`)
       .notNull()
       .references(() => users.id),
-    status: varchar({ length: 20 }).notNull().default(`lobby`), // "lobby" | "active" | "revealing" | "ended"
+    status: varchar({ length: 20 }).notNull().default(`lobby`), // "lobby" | "active" | "paused" | "revealing" | "intermission" | "tied" | "ended"
+    current_round_id: integer(`current_round_id`), // Set for sessions played in rounds
     current_question_id: integer(`current_question_id`).references(
       () => questionsTable.id
     ),
     round_started_at: timestamp({ withTimezone: true }),
     round_duration_seconds: integer().notNull().default(30),
-    winner_player_id: text(`winner_player_id`), // Set when game ends
+    paused_at: timestamp({ withTimezone: true }), // Set while paused, freezing the round's remaining time
+    revealed_at: timestamp({ withTimezone: true }), // When the current answer was revealed
+    autopilot_seconds: integer().notNull().default(0), // Discussion time before autopilot advances, 0 = off
+    autopilot_due_at: timestamp({ withTimezone: true }), // When autopilot will advance next, null when not waiting
+    question_count: integer(), // Fixed game length, null = play through the whole deck
+    playlist_question_ids: integer().array().notNull().default([]), // Curated question order, empty = random draws
+    deck_seed: varchar({ length: 50 }), // Seed the deck is shuffled with, set when the game starts
+    deck_question_ids: integer().array().notNull().default([]), // Questions still to be asked, in order
+    speed_bonus_max: integer().notNull().default(0), // 0 = speed bonus off
+    scoring_strategy: varchar({ length: 30 }).notNull().default(`classic`), // See src/lib/scoring.ts
+    streak_bonus_points: integer().notNull().default(0), // 0 = streak bonus off
+    team_mode: varchar({ length: 20 }).notNull().default(`off`), // See src/lib/teams.ts
+    buzzer_mode: boolean().notNull().default(false), // Players buzz in and answer one at a time, see src/lib/buzzer.ts
+    host_player_id: text(`host_player_id`), // The admin's own player record when the host plays too
+    tied_player_ids: text(`tied_player_ids`).array().notNull().default([]), // Players tied for the win, and in any sudden-death tiebreaker
+    winner_player_ids: text(`winner_player_ids`).array().notNull().default([]), // Set when game ends, several for co-winners
+    tied_team_ids: integer(`tied_team_ids`).array().notNull().default([]), // Teams tied for the win in a team game
+    winner_team_ids: integer(`winner_team_ids`).array().notNull().default([]), // Set when a team game ends, several for co-winning teams
     created_at: timestamp({ withTimezone: true }).notNull().defaultNow(),
     ended_at: timestamp({ withTimezone: true }),
   },
   (table) => [uniqueIndex(`game_sessions_slug_idx`).on(table.slug)]
 )
 
+// Session Rounds - ordered, named rounds for sessions drawing from several banks
+export const sessionRoundsTable = pgTable(`session_rounds`, {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  session_id: integer(`session_id`)
+    .notNull()
+    .references(() => gameSessionsTable.id, { onDelete: `cascade` }),
+  round_order: integer().notNull(), // 1-based position within the session
+  name: varchar({ length: 100 }).notNull(),
+  bank_id: integer(`bank_id`)
+    .notNull()
+    .references(() => questionBanksTable.id),
+  question_count: integer().notNull(),
+  round_duration_seconds: integer().notNull().default(30),
+})
+
 // Used Questions - tracks which questions have been asked in a session
 export const usedQuestionsTable = pgTable(`used_questions`, {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
@@ -84,8 +141,26 @@ export const usedQuestionsTable = pgTable(`used_questions`, {
   question_id: integer(`question_id`)
     .notNull()
     .references(() => questionsTable.id),
+  round_id: integer(`round_id`).references(() => sessionRoundsTable.id, {
+    onDelete: `set null`,
+  }),
   asked_at: timestamp({ withTimezone: true }).notNull().defaultNow(),
+  round_started_at: timestamp({ withTimezone: true }).notNull().defaultNow(), // When answering opened, moved on by any time spent paused, for speed bonuses
   question_order: integer().notNull(), // Order in which questions were asked
+  voided_at: timestamp({ withTimezone: true }), // Set when the admin voids the question, which then doesn't count
+  replaced: boolean().notNull().default(false), // Voided and swapped for another question, which takes its place in the round
+  answer_key: jsonb().$type<RevealedAnswerKey>(), // Set once the question is revealed, never synced to players, see src/lib/answer-keys.ts
+})
+
+// Teams - groups of players competing together in a session
+export const teamsTable = pgTable(`teams`, {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  session_id: integer(`session_id`)
+    .notNull()
+    .references(() => gameSessionsTable.id, { onDelete: `cascade` }),
+  name: varchar({ length: 50 }).notNull(),
+  captain_player_id: text(`captain_player_id`), // Answers for the team in captain mode
+  created_at: timestamp({ withTimezone: true }).notNull().defaultNow(),
 })
 
 // Players - participants in a game session
@@ -94,6 +169,9 @@ export const playersTable = pgTable(`players`, {
   session_id: integer(`session_id`)
     .notNull()
     .references(() => gameSessionsTable.id, { onDelete: `cascade` }),
+  team_id: integer(`team_id`).references(() => teamsTable.id, {
+    onDelete: `set null`,
+  }),
   display_name: varchar({ length: 50 }).notNull(),
   score: integer().notNull().default(0),
   is_connected: boolean().notNull().default(true),
@@ -101,6 +179,16 @@ export const playersTable = pgTable(`players`, {
   last_seen_at: timestamp({ withTimezone: true }).notNull().defaultNow(),
 })
 
+// Player Secrets - proof that a request comes from the player it names,
+// handed out when they join. Never synced, see src/lib/player-secrets.ts
+export const playerSecretsTable = pgTable(`player_secrets`, {
+  player_id: text(`player_id`)
+    .primaryKey()
+    .references(() => playersTable.id, { onDelete: `cascade` }),
+  secret: text().notNull(),
+  created_at: timestamp({ withTimezone: true }).notNull().defaultNow(),
+})
+
 // Player Responses - answers submitted by players
 export const playerResponsesTable = pgTable(`player_responses`, {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
@@ -114,10 +202,66 @@ export const playerResponsesTable = pgTable(`player_responses`, {
     .notNull()
     .references(() => questionsTable.id),
   selected_option_ids: integer().array().notNull().default([]),
-  points_earned: integer().notNull().default(0),
+  text_answer: text(), // Typed answer for free-text questions
+  numeric_guess: doublePrecision(), // Guess for numeric questions
+  pair_matches: jsonb().$type<PairMatch[]>().notNull().default([]), // Matching questions: which right-hand item went with each left-hand item
+  tap_x: doublePrecision(), // Hotspot questions: where the player tapped, as a fraction of the image width
+  tap_y: doublePrecision(), // ...and of its height
+  voted_player_id: text(`voted_player_id`), // Polls of the session's players: who the player voted for
+  override_accepted: boolean().notNull().default(false), // Admin accepted a near miss
+  points_earned: integer().notNull().default(0), // Includes any bonus
+  speed_bonus: integer().notNull().default(0),
+  streak_bonus: integer().notNull().default(0),
+  is_correct: boolean().notNull().default(false), // Fully correct answer (for streaks)
   submitted_at: timestamp({ withTimezone: true }).notNull().defaultNow(),
 })
 
+// Buzzes - players buzzing in on a question in buzzer mode, queued in the
+// order the server recorded them
+export const buzzesTable = pgTable(
+  `buzzes`,
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    session_id: integer(`session_id`)
+      .notNull()
+      .references(() => gameSessionsTable.id, { onDelete: `cascade` }),
+    question_id: integer(`question_id`)
+      .notNull()
+      .references(() => questionsTable.id, { onDelete: `cascade` }),
+    player_id: text(`player_id`)
+      .notNull()
+      .references(() => playersTable.id, { onDelete: `cascade` }),
+    buzzed_at: timestamp({ withTimezone: true }).notNull().defaultNow(), // Server time, the only one the queue trusts
+    answered_at: timestamp({ withTimezone: true }), // Set once the player has had their turn to answer
+  },
+  (table) => [
+    uniqueIndex(`buzzes_player_question_idx`).on(
+      table.session_id,
+      table.question_id,
+      table.player_id
+    ),
+  ]
+)
+
+// Answer Key Corrections - audit trail of answer keys fixed after a question
+// was asked, and the rescoring that followed
+export const answerKeyCorrectionsTable = pgTable(`answer_key_corrections`, {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  session_id: integer(`session_id`)
+    .notNull()
+    .references(() => gameSessionsTable.id, { onDelete: `cascade` }),
+  question_id: integer(`question_id`)
+    .notNull()
+    .references(() => questionsTable.id),
+  corrected_by: text(`corrected_by`)
+    .notNull()
+    .references(() => users.id),
+  previous_correct_option_ids: integer().array().notNull(),
+  correct_option_ids: integer().array().notNull(),
+  responses_rescored: integer().notNull().default(0), // Responses whose points changed
+  corrected_at: timestamp({ withTimezone: true }).notNull().defaultNow(),
+})
+
 // Zod Schemas for Question Banks
 export const selectQuestionBankSchema = createSelectSchema(questionBanksTable)
 // Note: createInsertSchema automatically excludes generatedAlwaysAsIdentity columns
@@ -131,7 +275,31 @@ export const createQuestionBankSchema = createInsertSchema(questionBanksTable)
 export const updateQuestionBankSchema = createUpdateSchema(questionBanksTable)
 
 // Zod Schemas for Questions
-export const selectQuestionSchema = createSelectSchema(questionsTable)
+const hotspotRegionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+})
+const matchingChoiceSchema = z.object({
+  id: z.number(),
+  text: z.string(),
+})
+const pairMatchSchema = z.object({
+  left_id: z.number(),
+  right_id: z.number(),
+})
+export const selectQuestionSchema = createSelectSchema(questionsTable, {
+  hotspot_regions: z.array(hotspotRegionSchema),
+  matching_choices: z.array(matchingChoiceSchema),
+})
+// Players sync questions without their answers, see src/lib/answer-keys.ts
+export const selectPlayerQuestionSchema = selectQuestionSchema.omit({
+  accepted_answers: true,
+  numeric_answer: true,
+  hotspot_regions: true,
+  explanation: true,
+})
 export const createQuestionSchema = createInsertSchema(questionsTable)
   .omit({
     created_at: true,
@@ -142,27 +310,79 @@ export const updateQuestionSchema = createUpdateSchema(questionsTable)
 
 // Zod Schemas for Answer Options
 export const selectAnswerOptionSchema = createSelectSchema(answerOptionsTable)
+export const selectPlayerAnswerOptionSchema = selectAnswerOptionSchema.omit({
+  is_correct: true,
+  correct_position: true,
+})
 export const createAnswerOptionSchema = createInsertSchema(answerOptionsTable)
 export const updateAnswerOptionSchema = createUpdateSchema(answerOptionsTable)
 
+// Zod Schemas for Answer Pairs
+export const selectAnswerPairSchema = createSelectSchema(answerPairsTable)
+// Players sync only the left-hand items, see src/lib/matching.ts
+export const selectPlayerAnswerPairSchema = selectAnswerPairSchema.omit({
+  right_text: true,
+  right_id: true,
+})
+
 // Zod Schemas for Game Sessions
 export const selectGameSessionSchema = createSelectSchema(gameSessionsTable)
 export const createGameSessionSchema = createInsertSchema(gameSessionsTable)
   .omit({
     created_at: true,
     ended_at: true,
-    winner_player_id: true,
+    winner_player_ids: true,
+    tied_player_ids: true,
+    tied_team_ids: true,
+    winner_team_ids: true,
+    host_player_id: true,
     current_question_id: true,
+    current_round_id: true,
     round_started_at: true,
+    paused_at: true,
+    revealed_at: true,
+    autopilot_due_at: true,
+    deck_question_ids: true,
   })
   .passthrough()
 export const updateGameSessionSchema = createUpdateSchema(gameSessionsTable)
 
+// Zod Schemas for Session Rounds
+export const selectSessionRoundSchema = createSelectSchema(sessionRoundsTable)
+export const createSessionRoundSchema = createInsertSchema(
+  sessionRoundsTable
+).passthrough()
+
 // Zod Schemas for Used Questions
-export const selectUsedQuestionSchema = createSelectSchema(usedQuestionsTable)
+const revealedAnswerKeySchema = z.object({
+  option_ids: z.array(z.number()),
+  accepted_answers: z.array(z.string()),
+  numeric_answer: z.number().nullable(),
+  hotspot_regions: z.array(hotspotRegionSchema),
+  pair_matches: z.array(pairMatchSchema),
+  explanation: z.string().nullable(),
+})
+export const selectUsedQuestionSchema = createSelectSchema(usedQuestionsTable, {
+  answer_key: revealedAnswerKeySchema.nullable(),
+})
+export const selectPlayerUsedQuestionSchema = selectUsedQuestionSchema.omit({
+  answer_key: true,
+})
 export const createUsedQuestionSchema = createInsertSchema(usedQuestionsTable)
   .omit({
     asked_at: true,
+    round_started_at: true,
+    voided_at: true,
+    replaced: true,
+    answer_key: true,
+  })
+  .passthrough()
+
+// Zod Schemas for Teams
+export const selectTeamSchema = createSelectSchema(teamsTable)
+export const createTeamSchema = createInsertSchema(teamsTable)
+  .omit({
+    created_at: true,
   })
   .passthrough()
 
@@ -179,28 +399,98 @@ export const createPlayerSchema = createInsertSchema(playersTable)
 export const updatePlayerSchema = createUpdateSchema(playersTable)
 
 // Zod Schemas for Player Responses
-export const selectPlayerResponseSchema =
-  createSelectSchema(playerResponsesTable)
+export const selectPlayerResponseSchema = createSelectSchema(
+  playerResponsesTable,
+  { pair_matches: z.array(pairMatchSchema) }
+)
 export const createPlayerResponseSchema = createInsertSchema(playerResponsesTable)
   .omit({
     submitted_at: true,
   })
   .passthrough()
 
+// Zod Schemas for Buzzes
+export const selectBuzzSchema = createSelectSchema(buzzesTable)
+
+// Zod Schemas for Answer Key Corrections
+export const selectAnswerKeyCorrectionSchema = createSelectSchema(
+  answerKeyCorrectionsTable
+)
+
 // TypeScript Types
 export type QuestionBank = z.infer<typeof selectQuestionBankSchema>
 export type Question = z.infer<typeof selectQuestionSchema>
 export type AnswerOption = z.infer<typeof selectAnswerOptionSchema>
+export type AnswerPair = z.infer<typeof selectAnswerPairSchema>
 export type GameSession = z.infer<typeof selectGameSessionSchema>
+export type SessionRound = z.infer<typeof selectSessionRoundSchema>
 export type UsedQuestion = z.infer<typeof selectUsedQuestionSchema>
+export type Team = z.infer<typeof selectTeamSchema>
 export type Player = z.infer<typeof selectPlayerSchema>
 export type PlayerResponse = z.infer<typeof selectPlayerResponseSchema>
+export type Buzz = z.infer<typeof selectBuzzSchema>
+export type AnswerKeyCorrection = z.infer<
+  typeof selectAnswerKeyCorrectionSchema
+>
 
 // Session status type
-export type SessionStatus = `lobby` | `active` | `revealing` | `ended`
+export type SessionStatus =
+  | `lobby`
+  | `active`
+  | `paused` // Mid-question, with the round's countdown frozen
+  | `revealing`
+  | `intermission` // Between named rounds
+  | `tied` // Waiting for the admin to declare co-winners or start a tiebreaker
+  | `ended`
 
 // Question type
-export type QuestionType = `single` | `multi`
+export type QuestionType =
+  | `single`
+  | `multi`
+  | `text`
+  | `numeric`
+  | `ordering` // Put the options in order
+  | `matching` // Match the two sides of the question's answer pairs
+  | `hotspot` // Tap the right spot on the question's image
+  | `poll` // No right answer, see src/lib/polls.ts
+
+// A player's match in a matching question: the right-hand item (by its own
+// `right_id`) they put with the left-hand item of pair `left_id`. Correct
+// when it is that pair's right-hand item.
+export interface PairMatch {
+  left_id: number
+  right_id: number
+}
+
+// A right-hand item of a matching question, as players see it
+export interface MatchingChoice {
+  id: number // The pair's right_id
+  text: string
+}
+
+// A correct region of a hotspot question's image. Position and size are
+// fractions of the image's width and height.
+export interface HotspotRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// A question's answer key as published to players once it's revealed.
+// `option_ids` is the question's answer key from getAnswerKey: the correct
+// options, or every option in the right order for ordering questions.
+export interface RevealedAnswerKey {
+  option_ids: number[]
+  accepted_answers: string[]
+  numeric_answer: number | null
+  hotspot_regions: HotspotRegion[]
+  pair_matches: PairMatch[] // Matching questions: each left-hand item's right-hand item
+  explanation: string | null
+}
+
+// How numeric questions award points
+export type NumericScoring = `closest` | `tolerance`
 
 // Users schema export
 export const selectUsersSchema = createSelectSchema(users)
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest"
+import { countOptionPicks, findPopularWrongOption } from "./answer-distribution"
+
+describe(`countOptionPicks`, () => {
+  it(`should count every option, including ones nobody picked`, () => {
+    const responses = [
+      { selected_option_ids: [1] },
+      { selected_option_ids: [3] },
+      { selected_option_ids: [1] },
+    ]
+
+    expect(countOptionPicks([1, 2, 3], responses)).toEqual([
+      { optionId: 1, count: 2 },
+      { optionId: 2, count: 0 },
+      { optionId: 3, count: 1 },
+    ])
+  })
+
+  it(`should count a multi-select answer towards each option it picked`, () => {
+    const responses = [
+      { selected_option_ids: [1, 2] },
+      { selected_option_ids: [2] },
+    ]
+
+    expect(countOptionPicks([1, 2], responses)).toEqual([
+      { optionId: 1, count: 1 },
+      { optionId: 2, count: 2 },
+    ])
+  })
+})
+
+describe(`findPopularWrongOption`, () => {
+  const picks = [
+    { optionId: 1, count: 5 },
+    { optionId: 2, count: 3 },
+    { optionId: 3, count: 3 },
+    { optionId: 4, count: 0 },
+  ]
+
+  it(`should pick the most popular wrong option, the first one on a tie`, () => {
+    expect(findPopularWrongOption(picks, [1])).toBe(2)
+  })
+
+  it(`should return null when nobody picked a wrong option`, () => {
+    expect(findPopularWrongOption(picks, [1, 2, 3])).toBeNull()
+  })
+})
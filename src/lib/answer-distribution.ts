@@ -0,0 +1,40 @@
+// Answer distributions for the reveal screen: how many players picked each
+// option of a single or multi question. Only counts ever leave here, never
+// who picked what, so the chart stays anonymous.
+
+export interface OptionPicks {
+  optionId: number
+  count: number
+}
+
+/**
+ * How many responses picked each option, in the order the options are
+ * given. A multi-select response counts once for every option it picked.
+ */
+export function countOptionPicks(
+  optionIds: number[],
+  responses: { selected_option_ids: number[] }[]
+): OptionPicks[] {
+  return optionIds.map((optionId) => ({
+    optionId,
+    count: responses.filter((r) => r.selected_option_ids.includes(optionId))
+      .length,
+  }))
+}
+
+/**
+ * The wrong option picked most often, worth talking over once the answer is
+ * out. Null when nobody picked a wrong option; ties go to the option listed
+ * first.
+ */
+export function findPopularWrongOption(
+  picks: OptionPicks[],
+  correctOptionIds: number[]
+): number | null {
+  let popular: OptionPicks | null = null
+  for (const pick of picks) {
+    if (correctOptionIds.includes(pick.optionId) || pick.count === 0) continue
+    if (!popular || pick.count > popular.count) popular = pick
+  }
+  return popular?.optionId ?? null
+}
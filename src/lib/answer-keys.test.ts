@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest"
+import {
+  applyAnswerKey,
+  applyQuestionKey,
+  buildRevealedAnswerKey,
+  getRevealedAnswerKeys,
+  PLAYER_ANSWER_OPTION_COLUMNS,
+  PLAYER_QUESTION_COLUMNS,
+  PLAYER_USED_QUESTION_COLUMNS,
+} from "./answer-keys"
+
+const question = {
+  question_type: `single`,
+  accepted_answers: [],
+  numeric_answer: null,
+  hotspot_regions: [],
+  explanation: `Paris has been the capital since 987.`,
+}
+
+const options = [
+  { id: 1, is_correct: false, correct_position: null },
+  { id: 2, is_correct: true, correct_position: null },
+  { id: 3, is_correct: false, correct_position: null },
+]
+
+const ordering = [
+  { id: 4, is_correct: false, correct_position: 2 },
+  { id: 5, is_correct: false, correct_position: 3 },
+  { id: 6, is_correct: false, correct_position: 1 },
+]
+
+describe(`buildRevealedAnswerKey`, () => {
+  it(`should publish the correct options and the explanation`, () => {
+    expect(buildRevealedAnswerKey(question, options)).toEqual({
+      option_ids: [2],
+      accepted_answers: [],
+      numeric_answer: null,
+      hotspot_regions: [],
+      pair_matches: [],
+      explanation: `Paris has been the capital since 987.`,
+    })
+  })
+
+  it(`should publish ordering questions' options in the right order`, () => {
+    const key = buildRevealedAnswerKey(
+      { ...question, question_type: `ordering` },
+      ordering
+    )
+
+    expect(key.option_ids).toEqual([6, 4, 5])
+  })
+
+  it(`should publish which right-hand item goes with each left-hand one`, () => {
+    const key = buildRevealedAnswerKey(
+      { ...question, question_type: `matching` },
+      [],
+      [
+        { id: 1, right_id: 90210 },
+        { id: 2, right_id: 1234 },
+      ]
+    )
+
+    expect(key.pair_matches).toEqual([
+      { left_id: 1, right_id: 90210 },
+      { left_id: 2, right_id: 1234 },
+    ])
+  })
+})
+
+describe(`applyAnswerKey`, () => {
+  const hidden = [{ id: 1 }, { id: 2 }, { id: 3 }]
+
+  it(`should mark the options in the key correct`, () => {
+    const key = buildRevealedAnswerKey(question, options)
+
+    expect(
+      applyAnswerKey(`single`, hidden, key).map((o) => o.is_correct)
+    ).toEqual([false, true, false])
+  })
+
+  it(`should put ordering questions' options back in their places`, () => {
+    const key = buildRevealedAnswerKey(
+      { ...question, question_type: `ordering` },
+      ordering
+    )
+    const revealed = applyAnswerKey(
+      `ordering`,
+      [{ id: 4 }, { id: 5 }, { id: 6 }],
+      key
+    )
+
+    expect(revealed.map((o) => o.correct_position)).toEqual([2, 3, 1])
+    expect(revealed.every((o) => !o.is_correct)).toBe(true)
+  })
+
+  it(`should mark nothing correct before the reveal`, () => {
+    expect(applyAnswerKey(`single`, hidden, null)).toEqual([
+      { id: 1, is_correct: false, correct_position: null },
+      { id: 2, is_correct: false, correct_position: null },
+      { id: 3, is_correct: false, correct_position: null },
+    ])
+  })
+})
+
+describe(`applyQuestionKey`, () => {
+  it(`should fill in the revealed answers`, () => {
+    const key = buildRevealedAnswerKey(
+      { ...question, question_type: `text`, accepted_answers: [`Paris`] },
+      []
+    )
+
+    expect(applyQuestionKey({ id: 7 }, key)).toEqual({
+      id: 7,
+      accepted_answers: [`Paris`],
+      numeric_answer: null,
+      hotspot_regions: [],
+      pair_matches: [],
+      explanation: `Paris has been the capital since 987.`,
+    })
+  })
+
+  it(`should leave the answers empty before the reveal`, () => {
+    expect(applyQuestionKey({ id: 7 }, null)).toEqual({
+      id: 7,
+      accepted_answers: [],
+      numeric_answer: null,
+      hotspot_regions: [],
+      pair_matches: [],
+      explanation: null,
+    })
+  })
+})
+
+describe(`player columns`, () => {
+  it(`should leave every part of the answer key out`, () => {
+    for (const column of [
+      `accepted_answers`,
+      `numeric_answer`,
+      `hotspot_regions`,
+      `explanation`,
+    ]) {
+      expect(PLAYER_QUESTION_COLUMNS).not.toContain(column)
+    }
+    expect(PLAYER_ANSWER_OPTION_COLUMNS).not.toContain(`is_correct`)
+    expect(PLAYER_ANSWER_OPTION_COLUMNS).not.toContain(`correct_position`)
+    expect(PLAYER_USED_QUESTION_COLUMNS).not.toContain(`answer_key`)
+  })
+})
+
+describe(`getRevealedAnswerKeys`, () => {
+  const key = buildRevealedAnswerKey(question, options)
+  const usedQuestions = [
+    { question_id: 1, answer_key: key },
+    { question_id: 2, answer_key: key },
+    { question_id: 3, answer_key: null },
+  ]
+
+  it(`should hand out the keys the session has revealed`, () => {
+    expect(
+      getRevealedAnswerKeys(
+        { status: `revealing`, current_question_id: 2 },
+        usedQuestions
+      )
+    ).toEqual([
+      { question_id: 1, answer_key: key },
+      { question_id: 2, answer_key: key },
+    ])
+  })
+
+  it(`should hold back the key of the question being asked`, () => {
+    for (const status of [`active`, `paused`] as const) {
+      expect(
+        getRevealedAnswerKeys({ status, current_question_id: 2 }, usedQuestions)
+      ).toEqual([{ question_id: 1, answer_key: key }])
+    }
+  })
+})
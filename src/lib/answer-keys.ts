@@ -0,0 +1,146 @@
+// Answer keys are kept off player devices until the question is revealed.
+// The player-facing question, option and pair shapes leave out every column
+// that gives the answer away, and when a round is revealed the server copies the
+// question's key onto its used_questions row. Players sync those rows without
+// the key, which they fetch from game.getAnswerKeys: only for the session they
+// joined, and only once it's been revealed there. These helpers build that key
+// and put it back together with what players see.
+import type { RevealedAnswerKey } from "@/db/schema"
+import { getAnswerKey } from "@/lib/scoring"
+
+// Columns of the questions and answer_options tables synced to players.
+// Anything that gives the answer away (correct options, accepted answers,
+// the true value, correct regions, the explanation) is left out. Option IDs
+// have to stay, so ordering items are numbered in display order rather than
+// the answer's, see src/lib/ordering.ts. Matching questions' pairs are split
+// up, see src/lib/matching.ts.
+export const PLAYER_QUESTION_COLUMNS = [
+  `id`,
+  `bank_id`,
+  `question_text`,
+  `question_type`,
+  `numeric_scoring`,
+  `numeric_tolerance`,
+  `poll_source`,
+  `poll_scoring`,
+  `matching_choices`,
+  `image_data`,
+  `image_mime_type`,
+  `created_at`,
+  `updated_at`,
+]
+export const PLAYER_ANSWER_OPTION_COLUMNS = [
+  `id`,
+  `question_id`,
+  `option_text`,
+  `display_order`,
+]
+// Columns of the used_questions table synced to players: everything but the
+// answer key
+export const PLAYER_USED_QUESTION_COLUMNS = [
+  `id`,
+  `session_id`,
+  `question_id`,
+  `round_id`,
+  `asked_at`,
+  `round_started_at`,
+  `question_order`,
+  `voided_at`,
+  `replaced`,
+]
+
+/**
+ * The key to publish when a question is revealed.
+ */
+export function buildRevealedAnswerKey(
+  question: {
+    question_type: string
+    accepted_answers: string[]
+    numeric_answer: number | null
+    hotspot_regions: RevealedAnswerKey[`hotspot_regions`]
+    explanation: string | null
+  },
+  options: {
+    id: number
+    is_correct: boolean
+    correct_position: number | null
+  }[],
+  pairs: { id: number; right_id: number }[] = []
+): RevealedAnswerKey {
+  return {
+    option_ids: getAnswerKey(question.question_type, options),
+    accepted_answers: question.accepted_answers,
+    numeric_answer: question.numeric_answer,
+    hotspot_regions: question.hotspot_regions,
+    pair_matches: pairs.map((pair) => ({
+      left_id: pair.id,
+      right_id: pair.right_id,
+    })),
+    explanation: question.explanation,
+  }
+}
+
+/**
+ * Options marked up with a revealed key: which are correct, and for ordering
+ * questions where each one goes. Without a key (not revealed yet) nothing is
+ * marked correct.
+ */
+export function applyAnswerKey<T extends { id: number }>(
+  questionType: string,
+  options: T[],
+  key: RevealedAnswerKey | null
+): (T & { is_correct: boolean; correct_position: number | null })[] {
+  const optionIds = key?.option_ids ?? []
+  return options.map((option) => {
+    const index = optionIds.indexOf(option.id)
+    return {
+      ...option,
+      is_correct: questionType !== `ordering` && index >= 0,
+      correct_position:
+        questionType === `ordering` && index >= 0 ? index + 1 : null,
+    }
+  })
+}
+
+/**
+ * A question with the answers from a revealed key filled in, or left empty
+ * when it hasn't been revealed yet.
+ */
+export function applyQuestionKey<T extends object>(
+  question: T,
+  key: RevealedAnswerKey | null
+): T &
+  Pick<
+    RevealedAnswerKey,
+    | `accepted_answers`
+    | `numeric_answer`
+    | `hotspot_regions`
+    | `pair_matches`
+    | `explanation`
+  > {
+  return {
+    ...question,
+    accepted_answers: key?.accepted_answers ?? [],
+    numeric_answer: key?.numeric_answer ?? null,
+    hotspot_regions: key?.hotspot_regions ?? [],
+    pair_matches: key?.pair_matches ?? [],
+    explanation: key?.explanation ?? null,
+  }
+}
+
+/**
+ * The keys a session's players may see: those published for questions it has
+ * revealed. The question being asked is held back even if a key is already
+ * there, so nothing gives it away before its reveal.
+ */
+export function getRevealedAnswerKeys(
+  session: { status: string; current_question_id: number | null },
+  usedQuestions: { question_id: number; answer_key: RevealedAnswerKey | null }[]
+): { question_id: number; answer_key: RevealedAnswerKey }[] {
+  const isAsking = session.status === `active` || session.status === `paused`
+  return usedQuestions.flatMap(({ question_id, answer_key }) =>
+    answer_key && !(isAsking && question_id === session.current_question_id)
+      ? [{ question_id, answer_key }]
+      : []
+  )
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest"
+import {
+  countRoundProgress,
+  getAutopilotDueAt,
+  getNextStep,
+  getStepAfterVoid,
+  isAutopilotDue,
+} from "./autopilot"
+
+const revealedAt = new Date(`2024-01-01T12:00:00Z`)
+
+describe(`getAutopilotDueAt`, () => {
+  it(`should wait the discussion time from the given moment`, () => {
+    expect(getAutopilotDueAt({ autopilot_seconds: 20 }, revealedAt)).toEqual(
+      new Date(`2024-01-01T12:00:20Z`)
+    )
+  })
+
+  it(`should return null with autopilot off`, () => {
+    expect(getAutopilotDueAt({ autopilot_seconds: 0 }, revealedAt)).toBeNull()
+  })
+})
+
+describe(`isAutopilotDue`, () => {
+  const timing = {
+    status: `revealing`,
+    autopilot_seconds: 20,
+    autopilot_due_at: new Date(`2024-01-01T12:00:20Z`),
+  }
+
+  it(`should not be due before the discussion time is up`, () => {
+    expect(isAutopilotDue(timing, new Date(`2024-01-01T12:00:19Z`))).toBe(false)
+  })
+
+  it(`should be due once the discussion time is up`, () => {
+    expect(isAutopilotDue(timing, new Date(`2024-01-01T12:00:20Z`))).toBe(true)
+    expect(
+      isAutopilotDue(
+        { ...timing, status: `intermission` },
+        new Date(`2024-01-01T12:01:00Z`)
+      )
+    ).toBe(true)
+  })
+
+  it(`should never be due while nothing is scheduled`, () => {
+    expect(
+      isAutopilotDue(
+        { ...timing, autopilot_due_at: null },
+        new Date(`2024-01-01T12:01:00Z`)
+      )
+    ).toBe(false)
+  })
+
+  it(`should never move on from a question still being answered`, () => {
+    expect(
+      isAutopilotDue(
+        { ...timing, status: `active` },
+        new Date(`2024-01-01T12:01:00Z`)
+      )
+    ).toBe(false)
+  })
+})
+
+describe(`getNextStep`, () => {
+  const rounds = [
+    { id: 1, round_order: 1, question_count: 3 },
+    { id: 2, round_order: 2, question_count: 3 },
+  ]
+
+  it(`should ask the next question outside rounds`, () => {
+    expect(getNextStep(`revealing`, null, 0, [])).toEqual({ type: `question` })
+  })
+
+  it(`should ask the next question while the round has some left`, () => {
+    expect(getNextStep(`revealing`, rounds[0], 2, rounds)).toEqual({
+      type: `question`,
+    })
+  })
+
+  it(`should start the next round once the current one is done`, () => {
+    expect(getNextStep(`revealing`, rounds[0], 3, rounds)).toEqual({
+      type: `intermission`,
+      round: rounds[1],
+    })
+  })
+
+  it(`should start the round's first question after its transition screen`, () => {
+    expect(getNextStep(`intermission`, rounds[1], 0, rounds)).toEqual({
+      type: `question`,
+    })
+  })
+
+  it(`should finish once the last round is done`, () => {
+    expect(getNextStep(`revealing`, rounds[1], 3, rounds)).toEqual({
+      type: `finish`,
+    })
+  })
+})
+
+describe(`countRoundProgress`, () => {
+  const voidedAt = new Date(`2024-01-01T12:00:00Z`)
+
+  it(`should count the questions asked`, () => {
+    expect(
+      countRoundProgress([
+        { voided_at: null, replaced: false },
+        { voided_at: null, replaced: false },
+      ])
+    ).toBe(2)
+  })
+
+  it(`should leave out voided questions that were replaced`, () => {
+    expect(
+      countRoundProgress([
+        { voided_at: voidedAt, replaced: true },
+        { voided_at: null, replaced: false },
+      ])
+    ).toBe(1)
+  })
+
+  it(`should count voided questions nothing replaced`, () => {
+    expect(
+      countRoundProgress([
+        { voided_at: null, replaced: false },
+        { voided_at: voidedAt, replaced: false },
+      ])
+    ).toBe(2)
+  })
+})
+
+describe(`getStepAfterVoid`, () => {
+  const rounds = [
+    { id: 1, round_order: 1, question_count: 3 },
+    { id: 2, round_order: 2, question_count: 3 },
+  ]
+
+  it(`should ask the replacement in the voided question's place`, () => {
+    expect(getStepAfterVoid(true, rounds[0], 2, rounds)).toEqual({
+      type: `question`,
+    })
+  })
+
+  it(`should start the next round after voiding the last question of a round`, () => {
+    const asked = [
+      { voided_at: null, replaced: false },
+      { voided_at: null, replaced: false },
+      { voided_at: new Date(), replaced: false },
+    ]
+    expect(
+      getStepAfterVoid(false, rounds[0], countRoundProgress(asked), rounds)
+    ).toEqual({ type: `intermission`, round: rounds[1] })
+  })
+
+  it(`should keep asking the round's questions after voiding an earlier one`, () => {
+    const asked = [{ voided_at: new Date(), replaced: false }]
+    expect(
+      getStepAfterVoid(false, rounds[0], countRoundProgress(asked), rounds)
+    ).toEqual({ type: `question` })
+  })
+
+  it(`should finish after voiding the last question of the last round`, () => {
+    expect(getStepAfterVoid(false, rounds[1], 3, rounds)).toEqual({
+      type: `finish`,
+    })
+  })
+})
@@ -0,0 +1,113 @@
+// Autopilot: after each reveal the server waits for the session's discussion
+// time, then moves on by itself. Stored on game_sessions.autopilot_seconds,
+// where 0 means the host advances every question.
+
+export const AUTOPILOT_OPTIONS = [
+  { seconds: 0, label: `Off - I'll move on myself` },
+  { seconds: 10, label: `10 seconds of discussion` },
+  { seconds: 20, label: `20 seconds of discussion` },
+  { seconds: 30, label: `30 seconds of discussion` },
+  { seconds: 60, label: `1 minute of discussion` },
+] as const
+
+interface AutopilotTiming {
+  status: string
+  autopilot_seconds: number
+  autopilot_due_at: Date | null
+}
+
+/**
+ * When autopilot should move on from a reveal or round transition starting
+ * at `from`, or null with autopilot off.
+ */
+export function getAutopilotDueAt(
+  timing: Pick<AutopilotTiming, `autopilot_seconds`>,
+  from: Date
+): Date | null {
+  return timing.autopilot_seconds > 0
+    ? new Date(from.getTime() + timing.autopilot_seconds * 1000)
+    : null
+}
+
+/**
+ * Whether autopilot's discussion time is up at `now`. Autopilot only ever
+ * moves on from a reveal or a round transition screen.
+ */
+export function isAutopilotDue(
+  timing: AutopilotTiming,
+  now: Date = new Date()
+): boolean {
+  return (
+    (timing.status === `revealing` || timing.status === `intermission`) &&
+    !!timing.autopilot_due_at &&
+    now.getTime() >= timing.autopilot_due_at.getTime()
+  )
+}
+
+interface RoundProgress {
+  round_order: number
+  question_count: number
+}
+
+export type NextStep<T extends RoundProgress> =
+  | { type: `intermission`; round: T } // Show the next round's transition screen
+  | { type: `question` } // Ask the next question off the deck
+  | { type: `finish` } // Every round has been played
+
+/**
+ * What moving on from a reveal or round transition does next. Once the
+ * current round has asked all its questions the game pauses for the next
+ * round's transition screen, or finishes after the last round. Otherwise
+ * the next question is asked (which can still turn out to be none, if the
+ * deck has run dry).
+ */
+export function getNextStep<T extends RoundProgress>(
+  status: string,
+  currentRound: T | null,
+  askedInRound: number,
+  rounds: T[]
+): NextStep<T> {
+  if (
+    status !== `revealing` ||
+    !currentRound ||
+    askedInRound < currentRound.question_count
+  ) {
+    return { type: `question` }
+  }
+
+  const nextRound = rounds
+    .filter((r) => r.round_order > currentRound.round_order)
+    .sort((a, b) => a.round_order - b.round_order)[0]
+
+  return nextRound
+    ? { type: `intermission`, round: nextRound }
+    : { type: `finish` }
+}
+
+/**
+ * How far a round has got through its questions. Voided questions only count
+ * when nothing replaced them: they still used up their place in the deck, so
+ * the round has that many fewer left to ask.
+ */
+export function countRoundProgress(
+  asked: { voided_at: Date | null; replaced: boolean }[]
+): number {
+  return asked.filter((a) => !a.voided_at || !a.replaced).length
+}
+
+/**
+ * What voiding the current question moves on to. A replacement is asked in
+ * its place, in the same round. Without one the game moves on as it would
+ * after a reveal, so voiding a round's last question leads to the next
+ * round's transition screen (or the end of the game).
+ */
+export function getStepAfterVoid<T extends RoundProgress>(
+  hasReplacement: boolean,
+  currentRound: T | null,
+  askedInRound: number,
+  rounds: T[]
+): NextStep<T> {
+  return hasReplacement
+    ? { type: `question` }
+    : getNextStep(`revealing`, currentRound, askedInRound, rounds)
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest"
+import { getAnsweringPlayerId, getBuzzQueue, getBuzzTurns } from "./buzzer"
+
+const at = (ms: number) => new Date(Date.UTC(2026, 0, 1, 20, 0, 0, ms))
+
+const buzzes = [
+  { id: 3, player_id: `carol`, buzzed_at: at(450), answered_at: null },
+  { id: 1, player_id: `alice`, buzzed_at: at(120), answered_at: null },
+  { id: 2, player_id: `bob`, buzzed_at: at(300), answered_at: null },
+]
+
+const afterAnswers = (...playerIds: string[]) =>
+  buzzes.map((b) =>
+    playerIds.includes(b.player_id) ? { ...b, answered_at: at(900) } : b
+  )
+
+describe(`getBuzzQueue`, () => {
+  it(`should order buzzes by when the server recorded them`, () => {
+    expect(getBuzzQueue(buzzes).map((b) => b.player_id)).toEqual([
+      `alice`,
+      `bob`,
+      `carol`,
+    ])
+  })
+
+  it(`should break ties by insertion order`, () => {
+    const tied = [
+      { id: 8, player_id: `dave`, buzzed_at: at(500), answered_at: null },
+      { id: 7, player_id: `erin`, buzzed_at: at(500), answered_at: null },
+    ]
+
+    expect(getBuzzQueue(tied).map((b) => b.player_id)).toEqual([
+      `erin`,
+      `dave`,
+    ])
+  })
+})
+
+describe(`getBuzzTurns`, () => {
+  it(`should give the first buzzer the first turn`, () => {
+    expect(getBuzzTurns(buzzes).map((b) => b.turn)).toEqual([
+      `answering`,
+      `waiting`,
+      `waiting`,
+    ])
+  })
+
+  it(`should pass the turn on once a buzzer has answered`, () => {
+    expect(getBuzzTurns(afterAnswers(`alice`)).map((b) => b.turn)).toEqual([
+      `answered`,
+      `answering`,
+      `waiting`,
+    ])
+  })
+})
+
+describe(`getAnsweringPlayerId`, () => {
+  it(`should pick the earliest buzzer yet to answer`, () => {
+    expect(getAnsweringPlayerId(afterAnswers(`alice`))).toBe(`bob`)
+  })
+
+  it(`should return null once everyone who buzzed has answered`, () => {
+    expect(
+      getAnsweringPlayerId(afterAnswers(`alice`, `bob`, `carol`))
+    ).toBeNull()
+    expect(getAnsweringPlayerId([])).toBeNull()
+  })
+})
@@ -0,0 +1,58 @@
+// Buzzer mode helpers shared by the game router and game screens.
+// Players race to buzz in during a question, and answer one at a time in
+// buzz order: the first buzzer gets the first go, and if they're wrong the
+// next one in the queue gets a turn. The queue is ordered by the server's
+// clock when each buzz was recorded (ties broken by the order the rows were
+// inserted), and buzzing takes no time from the client, so a slow, fast or
+// tampered-with client clock can't jump the queue.
+
+export interface QueuedBuzz {
+  id: number
+  player_id: string
+  buzzed_at: Date
+  answered_at: Date | null
+}
+
+// Where a buzzer is in the queue:
+// - answered: already had their turn
+// - answering: their turn now
+// - waiting: behind whoever is answering
+export type BuzzTurn = `answered` | `answering` | `waiting`
+
+/**
+ * Buzzes in the order they reached the server.
+ */
+export function getBuzzQueue<T extends QueuedBuzz>(buzzes: T[]): T[] {
+  return [...buzzes].sort(
+    (a, b) => a.buzzed_at.getTime() - b.buzzed_at.getTime() || a.id - b.id
+  )
+}
+
+/**
+ * The buzz queue with each buzzer's turn. The first buzzer who hasn't
+ * answered yet is answering and everyone after them is waiting.
+ */
+export function getBuzzTurns<T extends QueuedBuzz>(
+  buzzes: T[]
+): (T & { turn: BuzzTurn })[] {
+  let hasAnsweringPlayer = false
+  return getBuzzQueue(buzzes).map((buzz) => {
+    if (buzz.answered_at) {
+      return { ...buzz, turn: `answered` as const }
+    }
+    const turn = hasAnsweringPlayer ? `waiting` : `answering`
+    hasAnsweringPlayer = true
+    return { ...buzz, turn }
+  })
+}
+
+/**
+ * The player whose turn it is to answer, or null while nobody who buzzed
+ * is left to answer.
+ */
+export function getAnsweringPlayerId(buzzes: QueuedBuzz[]): string | null {
+  return (
+    getBuzzTurns(buzzes).find((b) => b.turn === `answering`)?.player_id ??
+    null
+  )
+}
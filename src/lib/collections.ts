@@ -3,14 +3,24 @@ import { electricCollectionOptions } from "@tanstack/electric-db-collection"
 import {
   selectQuestionBankSchema,
   selectQuestionSchema,
+  selectPlayerQuestionSchema,
   selectAnswerOptionSchema,
+  selectPlayerAnswerOptionSchema,
+  selectAnswerPairSchema,
+  selectPlayerAnswerPairSchema,
   selectGameSessionSchema,
+  selectSessionRoundSchema,
   selectPlayerSchema,
+  selectTeamSchema,
   selectPlayerResponseSchema,
+  selectBuzzSchema,
   selectUsedQuestionSchema,
+  selectPlayerUsedQuestionSchema,
   selectUsersSchema,
+  selectAnswerKeyCorrectionSchema,
 } from "@/db/schema"
 import { trpc } from "@/lib/trpc-client"
+import { PLAYER_SECRET_HEADER } from "@/lib/player-secrets"
 import { z } from "zod"
 
 const baseUrl =
@@ -22,10 +32,11 @@ const baseUrl =
 const playerSessionSchema = z.object({
   sessionId: z.number(),
   playerId: z.string(),
+  playerSecret: z.string().optional(), // See src/lib/player-secrets.ts
 })
 
-// Player sessions collection - maps game session IDs to player IDs
-// Persisted to localStorage so players can rejoin after refresh
+// Player sessions collection - maps game session IDs to player IDs and
+// secrets. Persisted to localStorage so players can rejoin after refresh
 export const playerSessionsCollection = createCollection(
   localStorageCollectionOptions({
     id: `player-sessions`,
@@ -116,6 +127,58 @@ export const answerOptionsCollection = createCollection(
   })
 )
 
+// Player Questions collection - questions without their answers, which
+// players get from game.getAnswerKeys once each one is revealed
+export const playerQuestionsCollection = createCollection(
+  electricCollectionOptions({
+    id: `player-questions`,
+    shapeOptions: {
+      url: new URL(`/api/player-questions`, baseUrl).toString(),
+      parser: {
+        timestamptz: (date: string) => new Date(date),
+      },
+    },
+    schema: selectPlayerQuestionSchema,
+    getKey: (item) => item.id,
+  })
+)
+
+// Player Answer Options collection - answer options without the answer key
+export const playerAnswerOptionsCollection = createCollection(
+  electricCollectionOptions({
+    id: `player-answer-options`,
+    shapeOptions: {
+      url: new URL(`/api/player-answer-options`, baseUrl).toString(),
+    },
+    schema: selectPlayerAnswerOptionSchema,
+    getKey: (item) => item.id,
+  })
+)
+
+// Answer Pairs collection - the items of matching questions
+export const answerPairsCollection = createCollection(
+  electricCollectionOptions({
+    id: `answer-pairs`,
+    shapeOptions: {
+      url: new URL(`/api/answer-pairs`, baseUrl).toString(),
+    },
+    schema: selectAnswerPairSchema,
+    getKey: (item) => item.id,
+  })
+)
+
+// Player Answer Pairs collection - the left-hand items of matching questions
+export const playerAnswerPairsCollection = createCollection(
+  electricCollectionOptions({
+    id: `player-answer-pairs`,
+    shapeOptions: {
+      url: new URL(`/api/player-answer-pairs`, baseUrl).toString(),
+    },
+    schema: selectPlayerAnswerPairSchema,
+    getKey: (item) => item.id,
+  })
+)
+
 // Used Questions collection - tracks which questions have been asked
 export const usedQuestionsCollection = createCollection(
   electricCollectionOptions({
@@ -131,6 +194,21 @@ export const usedQuestionsCollection = createCollection(
   })
 )
 
+// Player Used Questions collection - the same without the answer keys
+export const playerUsedQuestionsCollection = createCollection(
+  electricCollectionOptions({
+    id: `player-used-questions`,
+    shapeOptions: {
+      url: new URL(`/api/player-used-questions`, baseUrl).toString(),
+      parser: {
+        timestamptz: (date: string) => new Date(date),
+      },
+    },
+    schema: selectPlayerUsedQuestionSchema,
+    getKey: (item) => item.id,
+  })
+)
+
 // Game Sessions collection - synced per slug
 export const sessionsCollection = createCollection(
   electricCollectionOptions({
@@ -146,6 +224,18 @@ export const sessionsCollection = createCollection(
   })
 )
 
+// Session Rounds collection - named rounds for multi-bank sessions
+export const sessionRoundsCollection = createCollection(
+  electricCollectionOptions({
+    id: `session-rounds`,
+    shapeOptions: {
+      url: new URL(`/api/session-rounds`, baseUrl).toString(),
+    },
+    schema: selectSessionRoundSchema,
+    getKey: (item) => item.id,
+  })
+)
+
 // Players collection - synced per session
 export const playersCollection = createCollection(
   electricCollectionOptions({
@@ -161,8 +251,37 @@ export const playersCollection = createCollection(
   })
 )
 
-// Player Responses collection - for reveal phase
-// Supports optimistic answer submissions
+// Teams collection - synced per session
+export const teamsCollection = createCollection(
+  electricCollectionOptions({
+    id: `teams`,
+    shapeOptions: {
+      url: new URL(`/api/teams`, baseUrl).toString(),
+      parser: {
+        timestamptz: (date: string) => new Date(date),
+      },
+    },
+    schema: selectTeamSchema,
+    getKey: (item) => item.id,
+  })
+)
+
+// Buzzes collection - the buzz queue in buzzer mode
+export const buzzesCollection = createCollection(
+  electricCollectionOptions({
+    id: `buzzes`,
+    shapeOptions: {
+      url: new URL(`/api/buzzes`, baseUrl).toString(),
+      parser: {
+        timestamptz: (date: string) => new Date(date),
+      },
+    },
+    schema: selectBuzzSchema,
+    getKey: (item) => item.id,
+  })
+)
+
+// Player Responses collection (admin only) - everyone's responses
 export const responsesCollection = createCollection(
   electricCollectionOptions({
     id: `responses`,
@@ -174,16 +293,80 @@ export const responsesCollection = createCollection(
     },
     schema: selectPlayerResponseSchema,
     getKey: (item) => item.id,
-    onInsert: async ({ transaction }) => {
-      const { modified: response } = transaction.mutations[0]
-      // Server calculates actual points and may auto-reveal
-      const result = await trpc.game.submitAnswer.mutate({
-        playerId: response.player_id,
-        sessionId: response.session_id,
-        questionId: response.question_id,
-        selectedOptionIds: response.selected_option_ids,
-      })
-      return { txid: result.txid }
+  })
+)
+
+// Player Responses collections - a player's own responses, one collection
+// per player ID, so players never sync anyone else's answers. The server
+// only serves them to whoever has the player's secret
+// Supports optimistic answer submissions
+function createPlayerResponsesCollection(playerId: string, secret: string) {
+  return createCollection(
+    electricCollectionOptions({
+      id: `player-responses-${playerId}`,
+      shapeOptions: {
+        url: new URL(`/api/responses`, baseUrl).toString(),
+        params: { player_id: playerId },
+        headers: { [PLAYER_SECRET_HEADER]: secret },
+        parser: {
+          timestamptz: (date: string) => new Date(date),
+        },
+      },
+      schema: selectPlayerResponseSchema,
+      getKey: (item) => item.id,
+      onInsert: async ({ transaction }) => {
+        const { modified: response } = transaction.mutations[0]
+        // Server calculates actual points and may auto-reveal
+        const result = await trpc.game.submitAnswer.mutate({
+          playerId: response.player_id,
+          playerSecret: secret,
+          sessionId: response.session_id,
+          questionId: response.question_id,
+          selectedOptionIds: response.selected_option_ids,
+          textAnswer: response.text_answer ?? undefined,
+          numericGuess: response.numeric_guess ?? undefined,
+          pairMatches: response.pair_matches,
+          tapX: response.tap_x ?? undefined,
+          tapY: response.tap_y ?? undefined,
+          votedPlayerId: response.voted_player_id ?? undefined,
+        })
+        return { txid: result.txid }
+      },
+    })
+  )
+}
+
+// Cached by player and secret, so a collection set up before the player's
+// secret arrived is never reused once it has
+const playerResponsesCollections = new Map<
+  string,
+  ReturnType<typeof createPlayerResponsesCollection>
+>()
+
+export function getPlayerResponsesCollection(
+  playerId: string,
+  secret: string
+) {
+  const key = `${playerId}:${secret}`
+  let collection = playerResponsesCollections.get(key)
+  if (!collection) {
+    collection = createPlayerResponsesCollection(playerId, secret)
+    playerResponsesCollections.set(key, collection)
+  }
+  return collection
+}
+
+// Answer Key Corrections collection - audit trail shown to the admin
+export const answerKeyCorrectionsCollection = createCollection(
+  electricCollectionOptions({
+    id: `answer-key-corrections`,
+    shapeOptions: {
+      url: new URL(`/api/answer-key-corrections`, baseUrl).toString(),
+      parser: {
+        timestamptz: (date: string) => new Date(date),
+      },
     },
+    schema: selectAnswerKeyCorrectionSchema,
+    getKey: (item) => item.id,
   })
 )
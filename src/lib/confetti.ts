@@ -0,0 +1,22 @@
+import confetti from "canvas-confetti"
+
+// Confetti colors matching the Buzzy theme
+const colors = [`#9B5DE5`, `#00F5D4`, `#FFE135`, `#FF9F1C`]
+
+/**
+ * Fire one confetti burst per winner, spread across the screen, so co-winners
+ * each get their own celebration.
+ */
+export function celebrateWinners(winnerCount: number) {
+  const bursts = Math.max(1, winnerCount)
+  for (let i = 0; i < bursts; i++) {
+    setTimeout(() => {
+      confetti({
+        particleCount: 120,
+        spread: 80,
+        origin: { x: (i + 1) / (bursts + 1), y: 0.6 },
+        colors,
+      })
+    }, i * 300)
+  }
+}
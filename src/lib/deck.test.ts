@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildDeck,
+  createSeededRandom,
+  pickReplacementQuestion,
+  shuffle,
+} from "./deck"
+
+const ids = Array.from({ length: 20 }, (_, i) => i + 1)
+
+describe(`createSeededRandom`, () => {
+  it(`should produce the same sequence for the same seed`, () => {
+    const a = createSeededRandom(`family-night`)
+    const b = createSeededRandom(`family-night`)
+    expect([a(), a(), a()]).toEqual([b(), b(), b()])
+  })
+
+  it(`should produce values in [0, 1)`, () => {
+    const random = createSeededRandom(`range`)
+    for (let i = 0; i < 100; i++) {
+      const value = random()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+})
+
+describe(`shuffle`, () => {
+  it(`should return a permutation without modifying the input`, () => {
+    const input = [...ids]
+    const result = shuffle(input, createSeededRandom(`abc`))
+    expect(input).toEqual(ids)
+    expect([...result].sort((a, b) => a - b)).toEqual(ids)
+  })
+})
+
+describe(`buildDeck`, () => {
+  it(`should replay the same order for the same seed`, () => {
+    expect(buildDeck(`rematch`, [{ questionIds: ids }])).toEqual(
+      buildDeck(`rematch`, [{ questionIds: ids }])
+    )
+  })
+
+  it(`should not depend on the order questions were loaded in`, () => {
+    expect(buildDeck(`rematch`, [{ questionIds: [...ids].reverse() }])).toEqual(
+      buildDeck(`rematch`, [{ questionIds: ids }])
+    )
+  })
+
+  it(`should shuffle differently for different seeds`, () => {
+    expect(buildDeck(`one`, [{ questionIds: ids }])).not.toEqual(
+      buildDeck(`two`, [{ questionIds: ids }])
+    )
+  })
+
+  it(`should take each section's count without repeating questions`, () => {
+    const deck = buildDeck(`rounds`, [
+      { questionIds: ids, count: 5 },
+      { questionIds: ids, count: 5 },
+    ])
+    expect(deck).toHaveLength(10)
+    expect(new Set(deck).size).toBe(10)
+  })
+
+  it(`should stop short when a pool runs out`, () => {
+    expect(buildDeck(`small`, [{ questionIds: [1, 2], count: 5 }])).toHaveLength(2)
+  })
+})
+
+describe(`pickReplacementQuestion`, () => {
+  it(`should pick one question neither asked nor waiting in the deck`, () => {
+    const [replacement, ...rest] = pickReplacementQuestion(
+      `seed`,
+      [1, 2, 3, 4],
+      [1],
+      [2, 3]
+    )
+    expect(replacement).toBe(4)
+    expect(rest).toEqual([])
+  })
+
+  it(`should pick the same stand-in for the same seed`, () => {
+    expect(pickReplacementQuestion(`rematch`, ids, [1], [])).toEqual(
+      pickReplacementQuestion(`rematch`, ids, [1], [])
+    )
+  })
+
+  it(`should come up empty once the bank is used up`, () => {
+    expect(pickReplacementQuestion(`seed`, [1, 2], [1], [2])).toEqual([])
+  })
+})
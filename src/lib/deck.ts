@@ -0,0 +1,89 @@
+// Deterministic question decks. Sessions store the seed their deck was
+// shuffled with, so a rematch with the same seed asks the same questions in
+// the same order.
+
+/**
+ * A fresh random seed for a new deck.
+ */
+export function generateDeckSeed(): string {
+  return Math.random().toString(36).slice(2, 10)
+}
+
+/**
+ * Seeded pseudo-random number generator (mulberry32) returning floats in
+ * [0, 1). The same seed always yields the same sequence.
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = 0
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Fisher-Yates shuffle driven by `random`. Returns a new array.
+ */
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+export interface DeckSection {
+  questionIds: number[]
+  count?: number // Defaults to the whole pool
+}
+
+/**
+ * Build a deck of question IDs in the order they will be asked. Each section
+ * (the whole bank, or one per round) draws `count` questions from its pool,
+ * never repeating a question an earlier section already drew. Pools are
+ * sorted first so the order depends only on the seed, not on query order.
+ */
+export function buildDeck(seed: string, sections: DeckSection[]): number[] {
+  const random = createSeededRandom(seed)
+  const deck: number[] = []
+
+  for (const section of sections) {
+    const pool = [...new Set(section.questionIds)]
+      .filter((id) => !deck.includes(id))
+      .sort((a, b) => a - b)
+
+    deck.push(...shuffle(pool, random).slice(0, section.count ?? pool.length))
+  }
+
+  return deck
+}
+
+/**
+ * A stand-in for a voided question: one bank question the session hasn't
+ * asked and isn't already waiting in its deck, drawn from the deck's seed so
+ * a rematch voiding the same question gets the same stand-in. Empty once the
+ * bank has nothing left to offer.
+ */
+export function pickReplacementQuestion(
+  seed: string,
+  bankQuestionIds: number[],
+  askedQuestionIds: number[],
+  deck: number[]
+): number[] {
+  const asked = new Set(askedQuestionIds)
+  return buildDeck(`${seed}-void-${asked.size}`, [
+    {
+      questionIds: bankQuestionIds.filter(
+        (id) => !asked.has(id) && !deck.includes(id)
+      ),
+      count: 1,
+    },
+  ])
+}
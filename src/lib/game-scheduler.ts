@@ -0,0 +1,41 @@
+// In-process timers for time-based game transitions (e.g. round expiry).
+//
+// There is at most one pending timer per session; scheduling a new one
+// replaces the old. Timers are best-effort: if the server restarts or runs
+// on a platform without long-lived processes, the `game.tick` procedure
+// (called by player screens when their countdown runs out) applies any
+// overdue transitions instead.
+
+const timers = new Map<number, ReturnType<typeof setTimeout>>()
+
+/**
+ * Run `task` for a session at the given time, replacing any pending timer.
+ */
+export function scheduleSessionTimer(
+  sessionId: number,
+  at: Date,
+  task: () => Promise<unknown>
+) {
+  clearSessionTimer(sessionId)
+
+  const delay = Math.max(0, at.getTime() - Date.now())
+  const timer = setTimeout(() => {
+    timers.delete(sessionId)
+    task().catch((error) => {
+      console.error(`Scheduled game transition failed:`, error)
+    })
+  }, delay)
+
+  timers.set(sessionId, timer)
+}
+
+/**
+ * Cancel the pending timer for a session, if any.
+ */
+export function clearSessionTimer(sessionId: number) {
+  const timer = timers.get(sessionId)
+  if (timer) {
+    clearTimeout(timer)
+    timers.delete(sessionId)
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest"
+import {
+  getDraggedRegion,
+  getPointOnElement,
+  isInRegion,
+  isTapInRegions,
+} from "./hotspots"
+
+const grandma = { x: 0.2, y: 0.3, width: 0.1, height: 0.2 }
+
+describe(`isInRegion`, () => {
+  it(`should include taps inside the region and on its edges`, () => {
+    expect(isInRegion({ x: 0.25, y: 0.4 }, grandma)).toBe(true)
+    expect(isInRegion({ x: 0.2, y: 0.5 }, grandma)).toBe(true)
+  })
+
+  it(`should exclude taps outside the region`, () => {
+    expect(isInRegion({ x: 0.35, y: 0.4 }, grandma)).toBe(false)
+    expect(isInRegion({ x: 0.25, y: 0.1 }, grandma)).toBe(false)
+  })
+})
+
+describe(`isTapInRegions`, () => {
+  it(`should accept a tap in any of the regions`, () => {
+    const grandpa = { x: 0.6, y: 0.3, width: 0.1, height: 0.2 }
+
+    expect(isTapInRegions({ x: 0.65, y: 0.4 }, [grandma, grandpa])).toBe(true)
+    expect(isTapInRegions({ x: 0.45, y: 0.4 }, [grandma, grandpa])).toBe(false)
+  })
+
+  it(`should reject every tap without regions`, () => {
+    expect(isTapInRegions({ x: 0.5, y: 0.5 }, [])).toBe(false)
+  })
+})
+
+describe(`getPointOnElement`, () => {
+  const rect = { left: 100, top: 50, width: 400, height: 200 }
+
+  it(`should give the point as fractions of the element's size`, () => {
+    expect(getPointOnElement(200, 150, rect)).toEqual({ x: 0.25, y: 0.5 })
+  })
+
+  it(`should clamp points outside the element to its edges`, () => {
+    expect(getPointOnElement(50, 300, rect)).toEqual({ x: 0, y: 1 })
+  })
+})
+
+describe(`getDraggedRegion`, () => {
+  it(`should span the drag in any direction`, () => {
+    const region = getDraggedRegion({ x: 0.5, y: 0.75 }, { x: 0.25, y: 0.25 })
+
+    expect(region).toEqual({ x: 0.25, y: 0.25, width: 0.25, height: 0.5 })
+  })
+
+  it(`should ignore drags too small to be a region`, () => {
+    expect(getDraggedRegion({ x: 0.5, y: 0.5 }, { x: 0.51, y: 0.6 })).toBeNull()
+  })
+})
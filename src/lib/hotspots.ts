@@ -0,0 +1,77 @@
+// Grading and drawing helpers for image hotspot ("tap where it is")
+// questions. Taps and regions are stored as fractions of the image's width
+// and height, so they line up however large the image is shown.
+
+export interface HotspotPoint {
+  x: number
+  y: number
+}
+
+export interface HotspotRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Regions smaller than this (in either direction) are treated as stray clicks
+export const MIN_REGION_SIZE = 0.02
+
+/**
+ * Whether a tap lands inside a region, edges included.
+ */
+export function isInRegion(tap: HotspotPoint, region: HotspotRect): boolean {
+  return (
+    tap.x >= region.x &&
+    tap.x <= region.x + region.width &&
+    tap.y >= region.y &&
+    tap.y <= region.y + region.height
+  )
+}
+
+/**
+ * Whether a tap lands inside any of a question's correct regions.
+ */
+export function isTapInRegions(
+  tap: HotspotPoint,
+  regions: HotspotRect[]
+): boolean {
+  return regions.some((region) => isInRegion(tap, region))
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+/**
+ * Where a pointer event falls on an element, as fractions of its size and
+ * clamped to its edges.
+ */
+export function getPointOnElement(
+  clientX: number,
+  clientY: number,
+  rect: { left: number; top: number; width: number; height: number }
+): HotspotPoint {
+  return {
+    x: clamp((clientX - rect.left) / rect.width),
+    y: clamp((clientY - rect.top) / rect.height),
+  }
+}
+
+/**
+ * The region spanned by dragging from `start` to `end`, in any direction.
+ * Returns null when the drag was too small to be meant as a region.
+ */
+export function getDraggedRegion(
+  start: HotspotPoint,
+  end: HotspotPoint
+): HotspotRect | null {
+  const region = {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  }
+  if (region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE) {
+    return null
+  }
+  return region
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest"
+import { createSeededRandom } from "./deck"
+import {
+  generateRightIds,
+  getMatchingChoices,
+  PLAYER_ANSWER_PAIR_COLUMNS,
+} from "./matching"
+
+describe(`generateRightIds`, () => {
+  it(`should draw distinct positive IDs`, () => {
+    const ids = generateRightIds(6, createSeededRandom(`pairs`))
+    expect(ids).toHaveLength(6)
+    expect(new Set(ids).size).toBe(6)
+    expect(ids.every((id) => Number.isInteger(id) && id > 0)).toBe(true)
+  })
+
+  it(`should draw again rather than repeat an ID`, () => {
+    const draws = [0.5, 0.5, 0.25]
+    expect(generateRightIds(2, () => draws.shift()!)).toHaveLength(2)
+  })
+})
+
+describe(`getMatchingChoices`, () => {
+  it(`should list the right-hand items under their own IDs`, () => {
+    expect(
+      getMatchingChoices([
+        { right_id: 700, right_text: `Leeds` },
+        { right_id: 42, right_text: `Cork` },
+        { right_id: 9000, right_text: `Perth` },
+      ])
+    ).toEqual([
+      { id: 42, text: `Cork` },
+      { id: 700, text: `Leeds` },
+      { id: 9000, text: `Perth` },
+    ])
+  })
+})
+
+describe(`player pair columns`, () => {
+  it(`should leave the right-hand items out`, () => {
+    expect(PLAYER_ANSWER_PAIR_COLUMNS).not.toContain(`right_text`)
+    expect(PLAYER_ANSWER_PAIR_COLUMNS).not.toContain(`right_id`)
+  })
+})
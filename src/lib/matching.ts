@@ -0,0 +1,41 @@
+// Matching questions. Each answer pair's right-hand item carries an ID of its
+// own (answer_pairs.right_id), drawn at random, so nothing about it points
+// back to the left-hand item it belongs with. Players sync the left-hand
+// items and the question's `matching_choices` (the right-hand items under
+// their own IDs), and only learn which goes where once the question is
+// revealed.
+import type { MatchingChoice } from "@/db/schema"
+
+// Columns of the answer_pairs table synced to players: the left-hand items
+export const PLAYER_ANSWER_PAIR_COLUMNS = [
+  `id`,
+  `question_id`,
+  `left_text`,
+  `display_order`,
+]
+
+/**
+ * `count` distinct random IDs for a question's right-hand items.
+ */
+export function generateRightIds(
+  count: number,
+  random: () => number = Math.random
+): number[] {
+  const ids = new Set<number>()
+  while (ids.size < count) {
+    ids.add(1 + Math.floor(random() * 2147483646))
+  }
+  return [...ids]
+}
+
+/**
+ * The right-hand items players choose from, ordered by their random IDs so
+ * the order says nothing about which left-hand item each belongs with.
+ */
+export function getMatchingChoices(
+  pairs: { right_id: number; right_text: string }[]
+): MatchingChoice[] {
+  return [...pairs]
+    .sort((a, b) => a.right_id - b.right_id)
+    .map((pair) => ({ id: pair.right_id, text: pair.right_text }))
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest"
+import {
+  bucketGuesses,
+  findClosestGuessIds,
+  isWithinTolerance,
+} from "./numeric-answers"
+
+describe(`isWithinTolerance`, () => {
+  it(`should include guesses on the edge of the band`, () => {
+    expect(isWithinTolerance(1950, 1952, 2)).toBe(true)
+    expect(isWithinTolerance(1955, 1952, 2)).toBe(false)
+  })
+
+  it(`should need an exact guess with no tolerance`, () => {
+    expect(isWithinTolerance(412, 412, 0)).toBe(true)
+    expect(isWithinTolerance(411, 412, 0)).toBe(false)
+  })
+})
+
+describe(`findClosestGuessIds`, () => {
+  it(`should pick the closest guess`, () => {
+    expect(
+      findClosestGuessIds(
+        [
+          { id: 1, guess: 300 },
+          { id: 2, guess: 450 },
+          { id: 3, guess: 1000 },
+        ],
+        412
+      )
+    ).toEqual([2])
+  })
+
+  it(`should let guesses the same distance away share the win`, () => {
+    expect(
+      findClosestGuessIds(
+        [
+          { id: 1, guess: 400 },
+          { id: 2, guess: 424 },
+          { id: 3, guess: 400 },
+        ],
+        412
+      )
+    ).toEqual([1, 2, 3])
+  })
+
+  it(`should return nothing without guesses`, () => {
+    expect(findClosestGuessIds([], 412)).toEqual([])
+  })
+})
+
+describe(`bucketGuesses`, () => {
+  it(`should spread guesses across the range including the answer`, () => {
+    const buckets = bucketGuesses([0, 10, 20, 100], 50, 5)
+
+    expect(buckets.map((b) => b.count)).toEqual([2, 1, 0, 0, 1])
+    expect(buckets.map((b) => b.containsAnswer)).toEqual([
+      false,
+      false,
+      true,
+      false,
+      false,
+    ])
+    expect(buckets[0].from).toBe(0)
+    expect(buckets[4].to).toBe(100)
+  })
+
+  it(`should cope with guesses at the far ends of the number line`, () => {
+    const buckets = bucketGuesses([1.7e308, -1.7e308], 0)
+
+    expect(buckets.map((b) => b.count)).toEqual([1, 0, 0, 0, 1])
+    expect(buckets[2].containsAnswer).toBe(true)
+  })
+
+  it(`should use a single bucket when everyone guessed the answer`, () => {
+    expect(bucketGuesses([7, 7], 7)).toEqual([
+      { from: 7, to: 7, count: 2, containsAnswer: true },
+    ])
+  })
+
+  it(`should return no buckets without guesses`, () => {
+    expect(bucketGuesses([], 7)).toEqual([])
+  })
+})
@@ -0,0 +1,86 @@
+// Grading and reveal helpers for numeric ("closest wins") questions.
+
+// Guesses must lie within this far either side of zero. Anything bigger is
+// no real guess, and would overflow the reveal chart's arithmetic.
+export const MAX_NUMERIC_GUESS = 1e15
+
+export interface NumericGuess {
+  id: number
+  guess: number
+}
+
+/**
+ * Whether a guess lands within `tolerance` either side of the true value.
+ */
+export function isWithinTolerance(
+  guess: number,
+  answer: number,
+  tolerance: number
+): boolean {
+  return Math.abs(guess - answer) <= tolerance
+}
+
+/**
+ * IDs of the guesses closest to the true value. Everyone sharing the
+ * smallest distance wins, so over- and under-guesses can tie.
+ */
+export function findClosestGuessIds(
+  guesses: NumericGuess[],
+  answer: number
+): number[] {
+  if (guesses.length === 0) return []
+
+  const closest = Math.min(...guesses.map((g) => Math.abs(g.guess - answer)))
+  return guesses
+    .filter((g) => Math.abs(g.guess - answer) === closest)
+    .map((g) => g.id)
+}
+
+export interface GuessBucket {
+  from: number
+  to: number
+  count: number
+  containsAnswer: boolean
+}
+
+/**
+ * Spread the group's guesses into equal-width buckets spanning every guess
+ * and the true value, for the reveal chart. The last bucket includes its
+ * upper bound.
+ */
+export function bucketGuesses(
+  guesses: number[],
+  answer: number,
+  bucketCount = 5
+): GuessBucket[] {
+  if (guesses.length === 0) return []
+
+  const min = Math.min(answer, ...guesses)
+  const max = Math.max(answer, ...guesses)
+  if (min === max) {
+    return [{ from: min, to: max, count: guesses.length, containsAnswer: true }]
+  }
+
+  // Divided before subtracting so guesses at opposite extremes don't
+  // overflow the range to Infinity
+  const width = max / bucketCount - min / bucketCount
+  const indexOf = (value: number) => {
+    const index = Math.floor((value - min) / width)
+    if (Number.isNaN(index)) return value > min ? bucketCount - 1 : 0
+    return Math.min(bucketCount - 1, Math.max(0, index))
+  }
+
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    from: min + i * width,
+    to: i === bucketCount - 1 ? max : min + (i + 1) * width,
+    count: 0,
+    containsAnswer: false,
+  }))
+
+  for (const guess of guesses) {
+    buckets[indexOf(guess)].count++
+  }
+  buckets[indexOf(answer)].containsAnswer = true
+
+  return buckets
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest"
+import { createSeededRandom } from "./deck"
+import { toOrderingOptionRows } from "./ordering"
+
+const items = [`Bronze Age`, `Iron Age`, `Middle Ages`, `Renaissance`].map(
+  (option_text) => ({ option_text })
+)
+
+describe(`toOrderingOptionRows`, () => {
+  it(`should keep each item's correct position`, () => {
+    const rows = toOrderingOptionRows(7, items, createSeededRandom(`ages`))
+    for (const row of rows) {
+      expect(row.question_id).toBe(7)
+      expect(row.is_correct).toBe(false)
+      expect(row.option_text).toBe(items[row.correct_position].option_text)
+    }
+  })
+
+  it(`should insert the items in display order`, () => {
+    const rows = toOrderingOptionRows(7, items, createSeededRandom(`ages`))
+    expect(rows.map((row) => row.display_order)).toEqual([0, 1, 2, 3])
+  })
+
+  it(`should not hand out IDs in the answer's order`, () => {
+    // IDs are assigned in insertion order, so the row order is the ID order
+    const rows = toOrderingOptionRows(7, items, () => 0)
+    expect(rows.map((row) => row.correct_position)).toEqual([3, 0, 1, 2])
+  })
+})
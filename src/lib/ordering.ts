@@ -0,0 +1,30 @@
+// Ordering questions. Items are authored in their correct order, which is kept
+// in correct_position, and are shown shuffled. Players sync each item's ID, so
+// the rows are inserted in the shuffled order too: IDs go up in the order the
+// items are shown, never in the order the answer puts them.
+import { shuffle } from "@/lib/deck"
+
+/**
+ * Rows to insert for an ordering question's items, given in their correct
+ * order. Each gets a random display_order, and the rows come back sorted by it
+ * so the IDs the database hands out follow the display order.
+ */
+export function toOrderingOptionRows(
+  questionId: number,
+  options: { option_text: string }[],
+  random: () => number = Math.random
+) {
+  const displayOrder = shuffle(
+    options.map((_, idx) => idx),
+    random
+  )
+  return options
+    .map((opt, idx) => ({
+      question_id: questionId,
+      option_text: opt.option_text,
+      is_correct: false,
+      correct_position: idx,
+      display_order: displayOrder[idx],
+    }))
+    .sort((a, b) => a.display_order - b.display_order)
+}
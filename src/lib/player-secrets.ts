@@ -0,0 +1,37 @@
+// Player IDs are public: every screen of a session syncs its players, and
+// buzzes and the host's player record name them too. So anything only a
+// player may see (their own responses, the answer keys of their session)
+// asks for proof as well: the secret players.join hands out along with the
+// ID, which the player's device keeps and sends in a request header. Secrets
+// live in their own table that no shape syncs.
+import { and, eq } from "drizzle-orm"
+import { playerSecretsTable } from "@/db/schema"
+
+export const PLAYER_SECRET_HEADER = `x-player-secret`
+
+// eslint-disable-next-line quotes
+type Database = typeof import("@/db/connection").db
+
+/**
+ * The player ID, if `secret` is the one that player was given when they
+ * joined, otherwise null.
+ */
+export async function verifyPlayerSecret(
+  db: Pick<Database, `select`>,
+  playerId: string | null | undefined,
+  secret: string | null | undefined
+): Promise<string | null> {
+  if (!playerId || !secret) return null
+
+  const [match] = await db
+    .select({ player_id: playerSecretsTable.player_id })
+    .from(playerSecretsTable)
+    .where(
+      and(
+        eq(playerSecretsTable.player_id, playerId),
+        eq(playerSecretsTable.secret, secret)
+      )
+    )
+
+  return match?.player_id ?? null
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest"
+import {
+  countVotes,
+  findMajorityChoices,
+  getPollChoice,
+  isUnscoredPoll,
+} from "./polls"
+
+describe(`getPollChoice`, () => {
+  it(`should use the voted-for player in a player poll`, () => {
+    expect(
+      getPollChoice({ selected_option_ids: [], voted_player_id: `grandpa` })
+    ).toBe(`grandpa`)
+  })
+
+  it(`should use the picked option otherwise`, () => {
+    expect(
+      getPollChoice({ selected_option_ids: [12], voted_player_id: null })
+    ).toBe(`12`)
+    expect(
+      getPollChoice({ selected_option_ids: [], voted_player_id: null })
+    ).toBeNull()
+  })
+})
+
+describe(`countVotes`, () => {
+  it(`should count every choice, including ones nobody picked`, () => {
+    expect(
+      countVotes([`elf`, `home-alone`, `die-hard`], [`elf`, `elf`, `die-hard`])
+    ).toEqual([
+      { choice: `elf`, count: 2 },
+      { choice: `home-alone`, count: 0 },
+      { choice: `die-hard`, count: 1 },
+    ])
+  })
+})
+
+describe(`findMajorityChoices`, () => {
+  it(`should pick the most popular choice`, () => {
+    expect(findMajorityChoices([`elf`, `die-hard`, `elf`])).toEqual([`elf`])
+  })
+
+  it(`should let tied choices share the majority`, () => {
+    expect(findMajorityChoices([`elf`, `die-hard`])).toEqual([
+      `elf`,
+      `die-hard`,
+    ])
+  })
+
+  it(`should return nothing without votes`, () => {
+    expect(findMajorityChoices([])).toEqual([])
+  })
+})
+
+describe(`isUnscoredPoll`, () => {
+  it(`should only be true for polls played just for fun`, () => {
+    expect(
+      isUnscoredPoll({ question_type: `poll`, poll_scoring: `none` })
+    ).toBe(true)
+    expect(
+      isUnscoredPoll({ question_type: `poll`, poll_scoring: `majority` })
+    ).toBe(false)
+    expect(
+      isUnscoredPoll({ question_type: `single`, poll_scoring: `none` })
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,65 @@
+// Helpers for poll ("who's most likely to...?") questions, which have no
+// right answer. A poll's choices are either its own written-out options or
+// the session's players, and a vote is kept as a string key either way: the
+// option ID, or the player ID.
+
+// Where a poll's choices come from
+export type PollSource = `static` | `players`
+
+// How a poll is scored:
+// - none: just for fun, nobody scores
+// - majority: players who voted with the most popular choice score
+export type PollScoring = `none` | `majority`
+
+/**
+ * The choice a poll response voted for, or null without a vote.
+ */
+export function getPollChoice(response: {
+  selected_option_ids: number[]
+  voted_player_id: string | null
+}): string | null {
+  if (response.voted_player_id) return response.voted_player_id
+  return response.selected_option_ids.length > 0
+    ? String(response.selected_option_ids[0])
+    : null
+}
+
+/**
+ * How many votes each choice got, in the order choices are listed. Choices
+ * nobody picked get zero.
+ */
+export function countVotes(
+  choices: string[],
+  votes: string[]
+): { choice: string; count: number }[] {
+  return choices.map((choice) => ({
+    choice,
+    count: votes.filter((vote) => vote === choice).length,
+  }))
+}
+
+/**
+ * The most popular choice(s). Choices tied for the most votes all count as
+ * the majority, so nobody loses out on a split vote.
+ */
+export function findMajorityChoices(votes: string[]): string[] {
+  const counts = new Map<string, number>()
+  for (const vote of votes) {
+    counts.set(vote, (counts.get(vote) ?? 0) + 1)
+  }
+  if (counts.size === 0) return []
+
+  const most = Math.max(...counts.values())
+  return [...counts].filter(([, count]) => count === most).map(([c]) => c)
+}
+
+/**
+ * Whether a question never scores: a poll played just for fun. Those don't
+ * count towards (or break) anyone's streak either.
+ */
+export function isUnscoredPoll(question: {
+  question_type: string
+  poll_scoring: string
+}): boolean {
+  return question.question_type === `poll` && question.poll_scoring === `none`
+}
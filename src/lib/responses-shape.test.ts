@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest"
+import { prepareResponsesShapeUrl } from "./responses-shape"
+
+const request = (query: string) =>
+  `http://localhost:5173/api/responses?offset=-1&${query}`
+
+describe(`prepareResponsesShapeUrl`, () => {
+  describe(`for an anonymous client`, () => {
+    it(`should refuse to sync responses without a player`, () => {
+      expect(
+        prepareResponsesShapeUrl(request(`session_id=7`), false, null)
+      ).toBeNull()
+    })
+
+    it(`should refuse a player ID that comes without its secret`, () => {
+      expect(
+        prepareResponsesShapeUrl(
+          request(`session_id=7&player_id=alice`),
+          false,
+          null
+        )
+      ).toBeNull()
+    })
+
+    it(`should refuse to sync another player's responses`, () => {
+      expect(
+        prepareResponsesShapeUrl(
+          request(`session_id=7&player_id=alice`),
+          false,
+          `bob`
+        )
+      ).toBeNull()
+    })
+
+    it(`should only sync the verified player's own responses`, () => {
+      const url = prepareResponsesShapeUrl(
+        request(`session_id=7&player_id=alice`),
+        false,
+        `alice`
+      )!
+
+      expect(url.searchParams.get(`table`)).toBe(`player_responses`)
+      expect(url.searchParams.get(`where`)).toBe(
+        `session_id = $1 AND player_id = $2`
+      )
+      expect(url.searchParams.get(`params[1]`)).toBe(`7`)
+      expect(url.searchParams.get(`params[2]`)).toBe(`alice`)
+    })
+
+    it(`should not let filter values widen the shape`, () => {
+      const url = prepareResponsesShapeUrl(
+        request(
+          `session_id=${encodeURIComponent(`7 OR true`)}&player_id=alice`
+        ),
+        false,
+        `alice`
+      )!
+
+      expect(url.searchParams.get(`where`)).toBe(
+        `session_id = $1 AND player_id = $2`
+      )
+      expect(url.searchParams.get(`params[1]`)).toBe(`7 OR true`)
+    })
+
+    it(`should ignore a filter or parameters of the client's own`, () => {
+      const url = prepareResponsesShapeUrl(
+        request(
+          `player_id=alice&where=true&${encodeURIComponent(`params[1]`)}=bob`
+        ),
+        false,
+        `alice`
+      )!
+
+      expect(url.searchParams.get(`where`)).toBe(`player_id = $1`)
+      expect(url.searchParams.get(`params[1]`)).toBe(`alice`)
+    })
+  })
+
+  describe(`for the admin`, () => {
+    it(`should sync every response`, () => {
+      const url = prepareResponsesShapeUrl(request(``), true, null)!
+
+      expect(url.searchParams.get(`table`)).toBe(`player_responses`)
+      expect(url.searchParams.has(`where`)).toBe(false)
+    })
+
+    it(`should filter by session, question and player when asked`, () => {
+      const url = prepareResponsesShapeUrl(
+        request(`session_id=7&question_id=12&player_id=alice`),
+        true,
+        null
+      )!
+
+      expect(url.searchParams.get(`where`)).toBe(
+        `session_id = $1 AND question_id = $2 AND player_id = $3`
+      )
+    })
+  })
+})
@@ -0,0 +1,51 @@
+// Who syncs which player responses. The admin's signed-in screens sync every
+// response, but players only ever sync their own, once they've proven who
+// they are (see src/lib/player-secrets.ts): nobody gets to see anyone else's
+// answers, so how everyone did reaches players as counts from
+// game.getRoundStats instead.
+import { prepareElectricUrl } from "@/lib/electric-proxy"
+
+/**
+ * The Electric shape URL for a /api/responses request, or null when the
+ * client may not sync responses at all. Anyone not signed in as an admin
+ * only gets the rows of the player they proved they are (`verifiedPlayerId`),
+ * and nothing without that proof or when asking for someone else's. Filter
+ * values are passed as shape parameters, so they can't widen the filter.
+ */
+export function prepareResponsesShapeUrl(
+  requestUrl: string,
+  isAdmin: boolean,
+  verifiedPlayerId: string | null
+): URL | null {
+  const url = new URL(requestUrl)
+  const requestedPlayerId = url.searchParams.get(`player_id`)
+  if (
+    !isAdmin &&
+    (!verifiedPlayerId || requestedPlayerId !== verifiedPlayerId)
+  ) {
+    return null
+  }
+  const playerId = isAdmin ? requestedPlayerId : verifiedPlayerId
+
+  const originUrl = prepareElectricUrl(requestUrl)
+  originUrl.searchParams.set(`table`, `player_responses`)
+
+  const filters = [
+    [`session_id`, url.searchParams.get(`session_id`)],
+    [`question_id`, url.searchParams.get(`question_id`)],
+    [`player_id`, playerId],
+  ] as const
+
+  const conditions: string[] = []
+  for (const [column, value] of filters) {
+    if (!value) continue
+    conditions.push(`${column} = $${conditions.length + 1}`)
+    originUrl.searchParams.set(`params[${conditions.length}]`, value)
+  }
+
+  if (conditions.length > 0) {
+    originUrl.searchParams.set(`where`, conditions.join(` AND `))
+  }
+
+  return originUrl
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest"
+import {
+  getRemainingRoundMs,
+  getResumedRoundStart,
+  getRoundDeadline,
+  isRoundExpired,
+} from "./round-timer"
+
+describe(`getRoundDeadline`, () => {
+  it(`should return null when no round has started`, () => {
+    expect(
+      getRoundDeadline({ round_started_at: null, round_duration_seconds: 30 })
+    ).toBeNull()
+  })
+
+  it(`should add the round duration to the start time`, () => {
+    const deadline = getRoundDeadline({
+      round_started_at: new Date(`2025-01-01T12:00:00Z`),
+      round_duration_seconds: 30,
+    })
+
+    expect(deadline?.toISOString()).toBe(`2025-01-01T12:00:30.000Z`)
+  })
+})
+
+describe(`isRoundExpired`, () => {
+  const timing = {
+    round_started_at: new Date(`2025-01-01T12:00:00Z`),
+    round_duration_seconds: 30,
+  }
+
+  it(`should not expire before the deadline`, () => {
+    expect(isRoundExpired(timing, new Date(`2025-01-01T12:00:29Z`))).toBe(false)
+  })
+
+  it(`should expire after the deadline`, () => {
+    expect(isRoundExpired(timing, new Date(`2025-01-01T12:00:31Z`))).toBe(true)
+  })
+
+  it(`should keep the round open during the grace window`, () => {
+    const now = new Date(`2025-01-01T12:00:31Z`)
+
+    expect(isRoundExpired(timing, now, 2000)).toBe(false)
+    expect(isRoundExpired(timing, new Date(`2025-01-01T12:00:33Z`), 2000)).toBe(
+      true
+    )
+  })
+
+  it(`should never expire a round that has not started`, () => {
+    expect(
+      isRoundExpired({ round_started_at: null, round_duration_seconds: 30 })
+    ).toBe(false)
+  })
+})
+
+describe(`getRemainingRoundMs`, () => {
+  const timing = {
+    round_started_at: new Date(`2025-01-01T12:00:00Z`),
+    round_duration_seconds: 30,
+  }
+
+  it(`should count down to the deadline`, () => {
+    expect(getRemainingRoundMs(timing, new Date(`2025-01-01T12:00:10Z`))).toBe(
+      20000
+    )
+  })
+
+  it(`should freeze while paused`, () => {
+    const paused = { ...timing, paused_at: new Date(`2025-01-01T12:00:10Z`) }
+
+    expect(getRemainingRoundMs(paused, new Date(`2025-01-01T12:05:00Z`))).toBe(
+      20000
+    )
+  })
+
+  it(`should not go below zero`, () => {
+    expect(getRemainingRoundMs(timing, new Date(`2025-01-01T12:01:00Z`))).toBe(
+      0
+    )
+  })
+})
+
+describe(`getResumedRoundStart`, () => {
+  it(`should shift the start by the time spent paused`, () => {
+    const resumedStart = getResumedRoundStart(
+      {
+        round_started_at: new Date(`2025-01-01T12:00:00Z`),
+        round_duration_seconds: 30,
+        paused_at: new Date(`2025-01-01T12:00:10Z`),
+      },
+      new Date(`2025-01-01T12:05:10Z`)
+    )
+
+    expect(resumedStart?.toISOString()).toBe(`2025-01-01T12:05:00.000Z`)
+  })
+
+  it(`should keep the start when the round was not paused`, () => {
+    const start = new Date(`2025-01-01T12:00:00Z`)
+
+    expect(
+      getResumedRoundStart({ round_started_at: start, round_duration_seconds: 30 })
+    ).toBe(start)
+  })
+})
@@ -0,0 +1,66 @@
+// Round timing helpers shared by the game router and player screens.
+// A round closes at `round_started_at + round_duration_seconds`, plus an
+// optional grace window that absorbs network latency for late submissions.
+// Pausing freezes the countdown at `paused_at`; resuming shifts
+// `round_started_at` forward by the time spent paused.
+
+interface RoundTiming {
+  round_started_at: Date | null
+  round_duration_seconds: number
+  paused_at?: Date | null
+}
+
+/**
+ * Returns the moment the round's countdown reaches zero, or null if no
+ * round has been started.
+ */
+export function getRoundDeadline(timing: RoundTiming): Date | null {
+  if (!timing.round_started_at) return null
+  return new Date(
+    timing.round_started_at.getTime() + timing.round_duration_seconds * 1000
+  )
+}
+
+/**
+ * Whether the round is over at `now`, once the grace window has elapsed.
+ */
+export function isRoundExpired(
+  timing: RoundTiming,
+  now: Date = new Date(),
+  graceMs = 0
+): boolean {
+  const deadline = getRoundDeadline(timing)
+  if (!deadline) return false
+  return now.getTime() > deadline.getTime() + graceMs
+}
+
+/**
+ * Milliseconds left on the round's countdown at `now` (never negative).
+ * While paused the countdown stays where it was when the game was paused.
+ */
+export function getRemainingRoundMs(
+  timing: RoundTiming,
+  now: Date = new Date()
+): number {
+  const deadline = getRoundDeadline(timing)
+  if (!deadline) return 0
+  const at = timing.paused_at ?? now
+  return Math.max(0, deadline.getTime() - at.getTime())
+}
+
+/**
+ * The round start to store when resuming at `now`: shifted forward by the
+ * time spent paused, so the round continues with the seconds it had left.
+ */
+export function getResumedRoundStart(
+  timing: RoundTiming,
+  now: Date = new Date()
+): Date | null {
+  if (!timing.round_started_at || !timing.paused_at) {
+    return timing.round_started_at
+  }
+  return new Date(
+    timing.round_started_at.getTime() +
+      (now.getTime() - timing.paused_at.getTime())
+  )
+}
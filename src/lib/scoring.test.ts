@@ -0,0 +1,290 @@
+import { describe, it, expect } from "vitest"
+import {
+  calculateSpeedBonus,
+  calculateStreakBonuses,
+  countStreak,
+  findTopScorers,
+  getScoringStrategy,
+  getAnswerKey,
+  getGradedScoringInput,
+  getMatchingScoringInput,
+  hasAnswerOptions,
+  isFullyCorrect,
+} from "./scoring"
+
+describe(`calculateSpeedBonus`, () => {
+  const roundStartedAt = new Date(`2025-01-01T12:00:00Z`)
+  const base = {
+    basePoints: 1,
+    maxBonus: 5,
+    roundStartedAt,
+    roundDurationSeconds: 30,
+  }
+
+  it(`should award the full bonus for an instant answer`, () => {
+    expect(calculateSpeedBonus({ ...base, submittedAt: roundStartedAt })).toBe(5)
+  })
+
+  it(`should scale the bonus by time remaining`, () => {
+    const submittedAt = new Date(`2025-01-01T12:00:15Z`)
+    expect(calculateSpeedBonus({ ...base, submittedAt })).toBe(3)
+  })
+
+  it(`should award nothing once the timer has run out`, () => {
+    const submittedAt = new Date(`2025-01-01T12:00:31Z`)
+    expect(calculateSpeedBonus({ ...base, submittedAt })).toBe(0)
+  })
+
+  it(`should not reward wrong answers`, () => {
+    expect(
+      calculateSpeedBonus({ ...base, basePoints: 0, submittedAt: roundStartedAt })
+    ).toBe(0)
+  })
+
+  it(`should award nothing when the speed bonus is off`, () => {
+    expect(
+      calculateSpeedBonus({ ...base, maxBonus: 0, submittedAt: roundStartedAt })
+    ).toBe(0)
+  })
+})
+
+describe(`scoring strategies`, () => {
+  const multi = {
+    questionType: `multi`,
+    correctOptionIds: [1, 2],
+    incorrectOptionIds: [3, 4],
+    isFinalQuestion: false,
+  }
+
+  it(`classic should add correct picks and subtract wrong picks`, () => {
+    const { score } = getScoringStrategy(`classic`)
+
+    expect(score({ ...multi, selectedOptionIds: [1, 2] })).toBe(2)
+    expect(score({ ...multi, selectedOptionIds: [1, 3, 4] })).toBe(-1)
+  })
+
+  it(`classic should score single answers as 0 or 1`, () => {
+    const { score } = getScoringStrategy(`classic`)
+    const single = { ...multi, questionType: `single`, correctOptionIds: [1] }
+
+    expect(score({ ...single, selectedOptionIds: [1] })).toBe(1)
+    expect(score({ ...single, selectedOptionIds: [3] })).toBe(0)
+  })
+
+  it(`all_or_nothing should only score exact multi-select matches`, () => {
+    const { score } = getScoringStrategy(`all_or_nothing`)
+
+    expect(score({ ...multi, selectedOptionIds: [2, 1] })).toBe(2)
+    expect(score({ ...multi, selectedOptionIds: [1] })).toBe(0)
+    expect(score({ ...multi, selectedOptionIds: [1, 2, 3] })).toBe(0)
+  })
+
+  it(`partial_credit should never go below zero`, () => {
+    const { score } = getScoringStrategy(`partial_credit`)
+
+    expect(score({ ...multi, selectedOptionIds: [1, 3, 4] })).toBe(0)
+    expect(score({ ...multi, selectedOptionIds: [1, 2, 3] })).toBe(1)
+  })
+
+  it(`double_final should double points on the final question only`, () => {
+    const { score } = getScoringStrategy(`double_final`)
+
+    expect(score({ ...multi, selectedOptionIds: [1, 2] })).toBe(2)
+    expect(
+      score({ ...multi, selectedOptionIds: [1, 2], isFinalQuestion: true })
+    ).toBe(4)
+  })
+
+  it(`should score ordering answers per item in the right place`, () => {
+    const ordering = {
+      questionType: `ordering`,
+      correctOptionIds: [1, 2, 3, 4],
+      incorrectOptionIds: [],
+      isFinalQuestion: false,
+    }
+
+    expect(
+      getScoringStrategy(`classic`).score({
+        ...ordering,
+        selectedOptionIds: [1, 3, 2, 4],
+      })
+    ).toBe(2)
+    expect(
+      getScoringStrategy(`all_or_nothing`).score({
+        ...ordering,
+        selectedOptionIds: [1, 3, 2, 4],
+      })
+    ).toBe(0)
+    expect(
+      getScoringStrategy(`all_or_nothing`).score({
+        ...ordering,
+        selectedOptionIds: [1, 2, 3, 4],
+      })
+    ).toBe(4)
+  })
+
+  it(`should score matching answers per correct pair`, () => {
+    const pairs = [
+      { id: 1, right_id: 501 },
+      { id: 2, right_id: 502 },
+      { id: 3, right_id: 503 },
+    ]
+    const matches = [
+      { left_id: 1, right_id: 501 },
+      { left_id: 2, right_id: 503 },
+      { left_id: 3, right_id: 502 },
+    ]
+
+    expect(
+      getScoringStrategy(`classic`).score(
+        getMatchingScoringInput(pairs, matches, false)
+      )
+    ).toBe(1)
+    expect(
+      getScoringStrategy(`all_or_nothing`).score(
+        getMatchingScoringInput(pairs, matches, false)
+      )
+    ).toBe(0)
+    expect(
+      getScoringStrategy(`double_final`).score(
+        getMatchingScoringInput(
+          pairs,
+          [
+            { left_id: 1, right_id: 501 },
+            { left_id: 2, right_id: 502 },
+            { left_id: 3, right_id: 503 },
+          ],
+          true
+        )
+      )
+    ).toBe(6)
+  })
+
+  it(`should not score matches made by reusing the left-hand IDs`, () => {
+    const input = getMatchingScoringInput(
+      [
+        { id: 1, right_id: 501 },
+        { id: 2, right_id: 502 },
+      ],
+      [
+        { left_id: 1, right_id: 1 },
+        { left_id: 2, right_id: 2 },
+      ],
+      false
+    )
+
+    expect(getScoringStrategy(`classic`).score(input)).toBe(0)
+  })
+
+  it(`should not score unmatched pairs`, () => {
+    const input = getMatchingScoringInput(
+      [
+        { id: 1, right_id: 501 },
+        { id: 2, right_id: 502 },
+      ],
+      [],
+      false
+    )
+
+    expect(input.selectedOptionIds).toEqual([0, 0])
+    expect(getScoringStrategy(`classic`).score(input)).toBe(0)
+  })
+
+  it(`should score graded answers like single answers`, () => {
+    const { score } = getScoringStrategy(`double_final`)
+
+    expect(score(getGradedScoringInput(true, false))).toBe(1)
+    expect(score(getGradedScoringInput(false, false))).toBe(0)
+    expect(score(getGradedScoringInput(true, true))).toBe(2)
+  })
+
+  it(`should only treat single and multi questions as having options`, () => {
+    expect(hasAnswerOptions(`single`)).toBe(true)
+    expect(hasAnswerOptions(`multi`)).toBe(true)
+    expect(hasAnswerOptions(`text`)).toBe(false)
+    expect(hasAnswerOptions(`numeric`)).toBe(false)
+  })
+
+  it(`should fall back to classic for unknown strategies`, () => {
+    expect(getScoringStrategy(`mystery`)).toBe(getScoringStrategy(`classic`))
+  })
+})
+
+describe(`countStreak`, () => {
+  it(`should count trailing correct answers`, () => {
+    expect(countStreak([1, 2, 3, 4], new Set([2, 3, 4]))).toBe(3)
+  })
+
+  it(`should reset on a miss`, () => {
+    expect(countStreak([1, 2, 3, 4], new Set([1, 2, 4]))).toBe(1)
+  })
+
+  it(`should reset when the last question went unanswered`, () => {
+    expect(countStreak([1, 2, 3], new Set([1, 2]))).toBe(0)
+  })
+
+  it(`should be zero when nothing has been asked`, () => {
+    expect(countStreak([], new Set())).toBe(0)
+  })
+})
+
+describe(`calculateStreakBonuses`, () => {
+  it(`should award the bonus from the threshold onwards`, () => {
+    const bonuses = calculateStreakBonuses([1, 2, 3, 4], new Set([1, 2, 3, 4]), 5)
+    expect([...bonuses.values()]).toEqual([0, 0, 5, 5])
+  })
+
+  it(`should restart the streak after a miss`, () => {
+    const bonuses = calculateStreakBonuses(
+      [1, 2, 3, 4, 5, 6],
+      new Set([1, 2, 4, 5, 6]),
+      5
+    )
+    expect([...bonuses.values()]).toEqual([0, 0, 0, 0, 0, 5])
+  })
+})
+
+describe(`findTopScorers`, () => {
+  it(`should return the single leader`, () => {
+    const players = [
+      { id: `a`, score: 3 },
+      { id: `b`, score: 5 },
+    ]
+    expect(findTopScorers(players)).toEqual([{ id: `b`, score: 5 }])
+  })
+
+  it(`should return everyone tied for the lead`, () => {
+    const players = [
+      { id: `a`, score: 5 },
+      { id: `b`, score: 2 },
+      { id: `c`, score: 5 },
+    ]
+    expect(findTopScorers(players).map((p) => p.id)).toEqual([`a`, `c`])
+  })
+
+  it(`should be empty without players`, () => {
+    expect(findTopScorers([])).toEqual([])
+  })
+})
+
+describe(`answer keys`, () => {
+  const options = [
+    { id: 10, is_correct: false, correct_position: 2 },
+    { id: 11, is_correct: true, correct_position: 0 },
+    { id: 12, is_correct: false, correct_position: 1 },
+  ]
+
+  it(`should list the correct options`, () => {
+    expect(getAnswerKey(`multi`, options)).toEqual([11])
+  })
+
+  it(`should list ordering items in their correct order`, () => {
+    expect(getAnswerKey(`ordering`, options)).toEqual([11, 12, 10])
+  })
+
+  it(`should only count an ordering answer correct with every item in place`, () => {
+    expect(isFullyCorrect(`ordering`, [11, 12, 10], [11, 12, 10])).toBe(true)
+    expect(isFullyCorrect(`ordering`, [11, 12, 10], [12, 11, 10])).toBe(false)
+    expect(isFullyCorrect(`multi`, [11, 12], [12, 11])).toBe(true)
+  })
+})
@@ -0,0 +1,301 @@
+// Scoring helpers shared by the game router and player screens.
+
+// Named scoring strategies an admin can pick per session. The chosen ID is
+// stored on game_sessions.scoring_strategy so past games stay explainable.
+export const SCORING_STRATEGY_IDS = [
+  `classic`,
+  `all_or_nothing`,
+  `partial_credit`,
+  `double_final`,
+] as const
+
+export type ScoringStrategyId = (typeof SCORING_STRATEGY_IDS)[number]
+
+export interface ScoringInput {
+  questionType: string
+  correctOptionIds: number[]
+  incorrectOptionIds: number[]
+  selectedOptionIds: number[]
+  isFinalQuestion: boolean
+}
+
+export interface ScoringStrategy {
+  label: string
+  description: string
+  score: (input: ScoringInput) => number
+}
+
+// Ordering and matching answers are compared position by position: the item
+// in each place, or the item matched to each pair's left-hand side
+function isScoredByPosition(questionType: string): boolean {
+  return questionType === `ordering` || questionType === `matching`
+}
+
+// Single: 1 if correct, 0 if wrong. Multi: +1 per correct, -1 per wrong pick.
+// Ordering: +1 per item in its correct position. Matching: +1 per correct pair.
+function classicScore({
+  questionType,
+  correctOptionIds,
+  incorrectOptionIds,
+  selectedOptionIds,
+}: ScoringInput): number {
+  if (isScoredByPosition(questionType)) {
+    return correctOptionIds.filter((id, i) => selectedOptionIds[i] === id)
+      .length
+  }
+
+  if (questionType === `single`) {
+    return selectedOptionIds.length === 1 &&
+      correctOptionIds.includes(selectedOptionIds[0])
+      ? 1
+      : 0
+  }
+
+  let points = 0
+  for (const selectedId of selectedOptionIds) {
+    if (correctOptionIds.includes(selectedId)) {
+      points += 1
+    } else if (incorrectOptionIds.includes(selectedId)) {
+      points -= 1
+    }
+  }
+  return points
+}
+
+// Whether the selection matches the correct options exactly
+export function isExactMatch(
+  correctOptionIds: number[],
+  selectedOptionIds: number[]
+): boolean {
+  return (
+    selectedOptionIds.length === correctOptionIds.length &&
+    selectedOptionIds.every((id) => correctOptionIds.includes(id))
+  )
+}
+
+/**
+ * Whether an answer is fully correct. Ordering answers must have every item
+ * in place, matching answers every pair matched, and others must pick
+ * exactly the correct options.
+ */
+export function isFullyCorrect(
+  questionType: string,
+  correctOptionIds: number[],
+  selectedOptionIds: number[]
+): boolean {
+  if (isScoredByPosition(questionType)) {
+    return (
+      selectedOptionIds.length === correctOptionIds.length &&
+      correctOptionIds.every((id, i) => selectedOptionIds[i] === id)
+    )
+  }
+  return isExactMatch(correctOptionIds, selectedOptionIds)
+}
+
+/**
+ * The answer key held in a question's options: the correct options, or for
+ * ordering questions every item in its correct order.
+ */
+export function getAnswerKey(
+  questionType: string,
+  options: { id: number; is_correct: boolean; correct_position: number | null }[]
+): number[] {
+  if (questionType === `ordering`) {
+    return [...options]
+      .sort((a, b) => (a.correct_position ?? 0) - (b.correct_position ?? 0))
+      .map((o) => o.id)
+  }
+  return options.filter((o) => o.is_correct).map((o) => o.id)
+}
+
+/**
+ * Single and multi questions are answered by picking options marked correct
+ * or not, so their answer key can be corrected mid-game.
+ */
+export function hasAnswerOptions(questionType: string): boolean {
+  return questionType === `single` || questionType === `multi`
+}
+
+/**
+ * Whether answers are scored against the question's options (single, multi,
+ * ordering). Matching answers are scored against the question's pairs
+ * instead, and graded answers from their grade.
+ */
+export function isScoredFromOptions(questionType: string): boolean {
+  return hasAnswerOptions(questionType) || questionType === `ordering`
+}
+
+/**
+ * Whether answers are graded right or wrong against the question's own
+ * answer (free text, numeric, hotspot) and then scored from that grade.
+ * Poll votes are graded too: only ever right for siding with the majority
+ * in a poll scored that way.
+ */
+export function isGradedAnswer(questionType: string): boolean {
+  return (
+    questionType === `text` ||
+    questionType === `numeric` ||
+    questionType === `hotspot` ||
+    questionType === `poll`
+  )
+}
+
+/**
+ * Scoring input for an answer graded without options (free text, numeric,
+ * hotspot).
+ * Once graded it scores like a single-answer question that was either right
+ * or wrong, so every strategy handles it without special cases.
+ */
+export function getGradedScoringInput(
+  isCorrect: boolean,
+  isFinalQuestion: boolean
+): ScoringInput {
+  return {
+    questionType: `single`,
+    correctOptionIds: [0],
+    incorrectOptionIds: [],
+    selectedOptionIds: isCorrect ? [0] : [],
+    isFinalQuestion,
+  }
+}
+
+/**
+ * Scoring input for a matching answer. Each pair counts as one position: the
+ * "correct" IDs are the right-hand items' own IDs, and the "selected" ones
+ * the right-hand item the player matched to each left-hand item (0 when
+ * left unmatched).
+ */
+export function getMatchingScoringInput(
+  pairs: { id: number; right_id: number }[],
+  matches: { left_id: number; right_id: number }[],
+  isFinalQuestion: boolean
+): ScoringInput {
+  return {
+    questionType: `matching`,
+    correctOptionIds: pairs.map((pair) => pair.right_id),
+    incorrectOptionIds: [],
+    selectedOptionIds: pairs.map(
+      (pair) => matches.find((m) => m.left_id === pair.id)?.right_id ?? 0
+    ),
+    isFinalQuestion,
+  }
+}
+
+export const scoringStrategies: Record<ScoringStrategyId, ScoringStrategy> = {
+  classic: {
+    label: `Classic`,
+    description: `Single answer: +1 if correct. Multi-select: +1 for each correct pick, -1 for each wrong pick. Ordering: +1 for each item in the right place. Matching: +1 for each correct pair.`,
+    score: classicScore,
+  },
+  all_or_nothing: {
+    label: `All or Nothing`,
+    description: `Multi-select only scores when every correct option (and nothing else) is picked, ordering and matching only when everything is in place.`,
+    score: (input) =>
+      input.questionType === `single`
+        ? classicScore(input)
+        : isFullyCorrect(
+              input.questionType,
+              input.correctOptionIds,
+              input.selectedOptionIds
+            )
+          ? input.correctOptionIds.length
+          : 0,
+  },
+  partial_credit: {
+    label: `Partial Credit`,
+    description: `Like classic, but a question can never score below zero.`,
+    score: (input) => Math.max(0, classicScore(input)),
+  },
+  double_final: {
+    label: `Double-Points Finale`,
+    description: `Classic scoring, with points doubled on the final question.`,
+    score: (input) => classicScore(input) * (input.isFinalQuestion ? 2 : 1),
+  },
+}
+
+/**
+ * Look up a strategy by ID, falling back to classic for unknown IDs.
+ */
+export function getScoringStrategy(id: string): ScoringStrategy {
+  return scoringStrategies[id as ScoringStrategyId] ?? scoringStrategies.classic
+}
+
+/**
+ * Speed bonus for an answer that earned points, scaled by how much of the
+ * round was left when it was submitted. An instant answer earns the full
+ * `maxBonus`, one submitted as the timer runs out earns nothing.
+ */
+export function calculateSpeedBonus({
+  basePoints,
+  maxBonus,
+  roundStartedAt,
+  roundDurationSeconds,
+  submittedAt,
+}: {
+  basePoints: number
+  maxBonus: number
+  roundStartedAt: Date | null
+  roundDurationSeconds: number
+  submittedAt: Date
+}): number {
+  if (basePoints <= 0 || maxBonus <= 0 || !roundStartedAt) return 0
+
+  const elapsedMs = submittedAt.getTime() - roundStartedAt.getTime()
+  const remainingFraction = 1 - elapsedMs / (roundDurationSeconds * 1000)
+  const clamped = Math.min(1, Math.max(0, remainingFraction))
+
+  return Math.round(maxBonus * clamped)
+}
+
+// Consecutive correct answers needed before the streak bonus kicks in
+export const STREAK_BONUS_THRESHOLD = 3
+
+/**
+ * Count consecutive correct answers at the end of `questionIds` (in the
+ * order they were asked). A question without a correct response - a miss
+ * or no answer at all - breaks the streak.
+ */
+export function countStreak(
+  questionIds: number[],
+  correctQuestionIds: Set<number>
+): number {
+  let streak = 0
+  for (let i = questionIds.length - 1; i >= 0; i--) {
+    if (!correctQuestionIds.has(questionIds[i])) break
+    streak++
+  }
+  return streak
+}
+
+/**
+ * Streak bonus earned on each question a player got right, replaying the
+ * questions in the order they were asked. Used to rescore a session after an
+ * answer key correction changes which answers count as correct.
+ */
+export function calculateStreakBonuses(
+  questionIds: number[],
+  correctQuestionIds: Set<number>,
+  bonusPoints: number
+): Map<number, number> {
+  const bonuses = new Map<number, number>()
+  questionIds.forEach((questionId, i) => {
+    const streak = correctQuestionIds.has(questionId)
+      ? countStreak(questionIds.slice(0, i + 1), correctQuestionIds)
+      : 0
+    bonuses.set(
+      questionId,
+      streak >= STREAK_BONUS_THRESHOLD ? bonusPoints : 0
+    )
+  })
+  return bonuses
+}
+
+/**
+ * Everyone sharing the highest score. More than one means a tie for the win.
+ */
+export function findTopScorers<T extends { score: number }>(players: T[]): T[] {
+  if (players.length === 0) return []
+
+  const topScore = Math.max(...players.map((p) => p.score))
+  return players.filter((p) => p.score === topScore)
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest"
+import { calculateTeamScores, getAnsweringTeamPlayerIds } from "./teams"
+
+describe(`calculateTeamScores`, () => {
+  const teams = [
+    { id: 1, captain_player_id: `a` },
+    { id: 2, captain_player_id: `c` },
+  ]
+  const players = [
+    { id: `a`, team_id: 1, score: 2 },
+    { id: `b`, team_id: 1, score: 4 },
+    { id: `c`, team_id: 2, score: 5 },
+    { id: `d`, team_id: null, score: 10 },
+  ]
+
+  it(`should sum member scores`, () => {
+    expect(calculateTeamScores(teams, players, `all_sum`)).toEqual([
+      { teamId: 1, score: 6, memberCount: 2 },
+      { teamId: 2, score: 5, memberCount: 1 },
+    ])
+  })
+
+  it(`should average member scores`, () => {
+    expect(calculateTeamScores(teams, players, `all_average`)).toEqual([
+      { teamId: 2, score: 5, memberCount: 1 },
+      { teamId: 1, score: 3, memberCount: 2 },
+    ])
+  })
+
+  it(`should use the captain's score in captain mode`, () => {
+    expect(calculateTeamScores(teams, players, `captain`)).toEqual([
+      { teamId: 2, score: 5, memberCount: 1 },
+      { teamId: 1, score: 2, memberCount: 2 },
+    ])
+  })
+
+  it(`should score empty teams as zero`, () => {
+    expect(
+      calculateTeamScores([{ id: 3, captain_player_id: null }], [], `all_average`)
+    ).toEqual([{ teamId: 3, score: 0, memberCount: 0 }])
+  })
+})
+
+describe(`getAnsweringTeamPlayerIds`, () => {
+  const teams = [
+    { id: 1, captain_player_id: `a` },
+    { id: 2, captain_player_id: null },
+  ]
+  const players = [
+    { id: `a`, team_id: 1 },
+    { id: `b`, team_id: 1 },
+    { id: `c`, team_id: 2 },
+    { id: `d`, team_id: 3 },
+    { id: `e`, team_id: null },
+  ]
+
+  it(`should pick every member of the teams`, () => {
+    expect(getAnsweringTeamPlayerIds(teams, players, `all_sum`)).toEqual([
+      `a`,
+      `b`,
+      `c`,
+    ])
+  })
+
+  it(`should pick only the captains in captain mode`, () => {
+    expect(getAnsweringTeamPlayerIds(teams, players, `captain`)).toEqual([
+      `a`,
+    ])
+  })
+})
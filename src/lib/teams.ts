@@ -0,0 +1,69 @@
+// Team helpers shared by the game router and game screens.
+
+// How a team game is played and scored:
+// - off: individual game, no teams
+// - all_sum: every member answers, team score is the sum of member scores
+// - all_average: every member answers, team score is the average member score
+// - captain: only the captain answers, team score is the captain's score
+export const TEAM_MODES = [`off`, `all_sum`, `all_average`, `captain`] as const
+
+export type TeamMode = (typeof TEAM_MODES)[number]
+
+export const teamModeLabels: Record<TeamMode, string> = {
+  off: `No teams`,
+  all_sum: `Everyone answers, scores added up`,
+  all_average: `Everyone answers, scores averaged`,
+  captain: `Only the captain answers`,
+}
+
+export interface TeamScore {
+  teamId: number
+  score: number
+  memberCount: number
+}
+
+/**
+ * Aggregate member scores into team scores, highest first. Teams without
+ * members score zero.
+ */
+export function calculateTeamScores(
+  teams: { id: number; captain_player_id: string | null }[],
+  players: { id: string; team_id: number | null; score: number }[],
+  mode: string
+): TeamScore[] {
+  return teams
+    .map((team) => {
+      const members = players.filter((p) => p.team_id === team.id)
+      const total = members.reduce((sum, p) => sum + p.score, 0)
+
+      let score = total
+      if (mode === `all_average`) {
+        score = members.length > 0 ? Math.round(total / members.length) : 0
+      } else if (mode === `captain`) {
+        score = members.find((p) => p.id === team.captain_player_id)?.score ?? 0
+      }
+
+      return { teamId: team.id, score, memberCount: members.length }
+    })
+    .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * The players who answer for the given teams: the captains in captain mode,
+ * otherwise every member.
+ */
+export function getAnsweringTeamPlayerIds(
+  teams: { id: number; captain_player_id: string | null }[],
+  players: { id: string; team_id: number | null }[],
+  mode: string
+): string[] {
+  if (mode === `captain`) {
+    return teams
+      .map((t) => t.captain_player_id)
+      .filter((id): id is string => id !== null)
+  }
+  const teamIds = teams.map((t) => t.id)
+  return players
+    .filter((p) => p.team_id !== null && teamIds.includes(p.team_id))
+    .map((p) => p.id)
+}
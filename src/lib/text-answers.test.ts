@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest"
+import {
+  editDistance,
+  getTypoAllowance,
+  isAcceptedAnswer,
+  normalizeAnswer,
+} from "./text-answers"
+
+describe(`normalizeAnswer`, () => {
+  it(`should ignore case, punctuation and surrounding whitespace`, () => {
+    expect(normalizeAnswer(`  Paris!  `)).toBe(`paris`)
+    expect(normalizeAnswer(`Washington, D.C.`)).toBe(`washington d c`)
+  })
+
+  it(`should drop articles`, () => {
+    expect(normalizeAnswer(`The Beatles`)).toBe(`beatles`)
+    expect(normalizeAnswer(`an apple a day`)).toBe(`apple day`)
+  })
+
+  it(`should strip accents and apostrophes`, () => {
+    expect(normalizeAnswer(`Pokémon`)).toBe(`pokemon`)
+    expect(normalizeAnswer(`Don't Stop`)).toBe(`dont stop`)
+  })
+})
+
+describe(`editDistance`, () => {
+  it(`should count insertions, deletions and substitutions`, () => {
+    expect(editDistance(`kitten`, `sitting`)).toBe(3)
+    expect(editDistance(`paris`, `paris`)).toBe(0)
+    expect(editDistance(``, `abc`)).toBe(3)
+  })
+
+  it(`should count swapped neighbours as one edit`, () => {
+    expect(editDistance(`beatels`, `beatles`)).toBe(1)
+  })
+})
+
+describe(`getTypoAllowance`, () => {
+  it(`should scale with answer length`, () => {
+    expect(getTypoAllowance(`cat`)).toBe(0)
+    expect(getTypoAllowance(`paris`)).toBe(1)
+    expect(getTypoAllowance(`mississippi`)).toBe(2)
+  })
+
+  it(`should not allow typos in numbers`, () => {
+    expect(getTypoAllowance(`world war 2`)).toBe(0)
+  })
+})
+
+describe(`isAcceptedAnswer`, () => {
+  const accepted = [`The Beatles`, `Fab Four`]
+
+  it(`should accept any of the accepted answers after normalization`, () => {
+    expect(isAcceptedAnswer(`beatles`, accepted)).toBe(true)
+    expect(isAcceptedAnswer(`the fab four!`, accepted)).toBe(true)
+  })
+
+  it(`should accept small typos`, () => {
+    expect(isAcceptedAnswer(`Beatels`, accepted)).toBe(true)
+    expect(isAcceptedAnswer(`Mississipi`, [`Mississippi`])).toBe(true)
+  })
+
+  it(`should reject answers that are too far off`, () => {
+    expect(isAcceptedAnswer(`Rolling Stones`, accepted)).toBe(false)
+    expect(isAcceptedAnswer(`1985`, [`1984`])).toBe(false)
+    expect(isAcceptedAnswer(`dog`, [`cat`])).toBe(false)
+  })
+
+  it(`should reject blank answers`, () => {
+    expect(isAcceptedAnswer(`  the  `, accepted)).toBe(false)
+  })
+})
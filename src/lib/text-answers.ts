@@ -0,0 +1,79 @@
+// Grading for free-text questions. Typed answers are compared with the
+// question's accepted answers after normalization, allowing a small number of
+// typos that scales with the length of the answer.
+
+const ARTICLES = new Set([`a`, `an`, `the`])
+
+/**
+ * Normalize an answer for comparison: lowercase, strip accents and
+ * punctuation, drop the articles "a", "an" and "the", and collapse
+ * whitespace. "The Beatles!" and "beatles" both become "beatles".
+ */
+export function normalizeAnswer(answer: string): string {
+  return answer
+    .normalize(`NFD`)
+    .replace(/\p{M}/gu, ``)
+    .toLowerCase()
+    .replace(/['’]/g, ``)
+    .replace(/[^\p{L}\p{N}]+/gu, ` `)
+    .split(` `)
+    .filter((word) => word && !ARTICLES.has(word))
+    .join(` `)
+}
+
+/**
+ * Edit distance between two strings: the fewest single-character
+ * insertions, deletions, substitutions or swaps of neighbouring characters
+ * that turn one into the other ("beatels" is one edit from "beatles").
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  )
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+
+  return rows[a.length][b.length]
+}
+
+/**
+ * How many typos an accepted answer tolerates. Short answers must match
+ * exactly, and so must anything with digits ("1984" is not "1985").
+ */
+export function getTypoAllowance(normalizedAnswer: string): number {
+  if (/\d/.test(normalizedAnswer)) return 0
+  if (normalizedAnswer.length <= 3) return 0
+  if (normalizedAnswer.length <= 7) return 1
+  return 2
+}
+
+/**
+ * Whether a typed answer matches any of the accepted answers.
+ */
+export function isAcceptedAnswer(
+  answer: string,
+  acceptedAnswers: string[]
+): boolean {
+  const normalized = normalizeAnswer(answer)
+  if (!normalized) return false
+
+  return acceptedAnswers.some((accepted) => {
+    const target = normalizeAnswer(accepted)
+    if (!target) return false
+    return editDistance(normalized, target) <= getTypoAllowance(target)
+  })
+}
@@ -6,22 +6,116 @@ import {
 } from "@/lib/trpc"
 import { z } from "zod"
 import { TRPCError } from "@trpc/server"
-import { eq, and, notInArray, desc } from "drizzle-orm"
+import {
+  eq,
+  and,
+  desc,
+  inArray,
+  isNull,
+  notInArray,
+  type SQL,
+} from "drizzle-orm"
 import {
   gameSessionsTable,
   questionsTable,
   answerOptionsTable,
+  answerPairsTable,
   usedQuestionsTable,
   playersTable,
   playerResponsesTable,
+  teamsTable,
+  sessionRoundsTable,
+  answerKeyCorrectionsTable,
+  buzzesTable,
+  type GameSession,
+  type SessionRound,
   type SessionStatus,
+  type Team,
 } from "@/db/schema"
+import {
+  getResumedRoundStart,
+  getRoundDeadline,
+  isRoundExpired,
+} from "@/lib/round-timer"
+import { scheduleSessionTimer, clearSessionTimer } from "@/lib/game-scheduler"
+import {
+  countRoundProgress,
+  getAutopilotDueAt,
+  getNextStep,
+  getStepAfterVoid,
+  isAutopilotDue,
+  type NextStep,
+} from "@/lib/autopilot"
+import {
+  calculateTeamScores,
+  getAnsweringTeamPlayerIds,
+} from "@/lib/teams"
+import {
+  buildDeck,
+  generateDeckSeed,
+  pickReplacementQuestion,
+} from "@/lib/deck"
+import { movePlayerToTeam } from "@/lib/trpc/teams"
+import { assertActingAsPlayer } from "@/lib/trpc/players"
+import { isAcceptedAnswer } from "@/lib/text-answers"
+import {
+  bucketGuesses,
+  findClosestGuessIds,
+  isWithinTolerance,
+  MAX_NUMERIC_GUESS,
+} from "@/lib/numeric-answers"
+import { isTapInRegions } from "@/lib/hotspots"
+import { getAnsweringPlayerId } from "@/lib/buzzer"
+import { countOptionPicks } from "@/lib/answer-distribution"
+import {
+  applyAnswerKey,
+  applyQuestionKey,
+  buildRevealedAnswerKey,
+  getRevealedAnswerKeys,
+} from "@/lib/answer-keys"
+import { verifyPlayerSecret } from "@/lib/player-secrets"
+import {
+  countVotes,
+  findMajorityChoices,
+  getPollChoice,
+  isUnscoredPoll,
+} from "@/lib/polls"
+import {
+  calculateSpeedBonus,
+  calculateStreakBonuses,
+  countStreak,
+  findTopScorers,
+  getAnswerKey,
+  getScoringStrategy,
+  getGradedScoringInput,
+  getMatchingScoringInput,
+  hasAnswerOptions,
+  isExactMatch,
+  isFullyCorrect,
+  isGradedAnswer,
+  isScoredFromOptions,
+  type ScoringInput,
+  STREAK_BONUS_THRESHOLD,
+} from "@/lib/scoring"
+
+// eslint-disable-next-line quotes
+type Database = typeof import("@/db/connection").db
+
+// How long after the countdown hits zero we still accept answers, to absorb
+// network latency. The round auto-reveals once this window has passed.
+const ROUND_GRACE_MS = Number(process.env.ROUND_GRACE_SECONDS || 2) * 1000
+
+// How long the final answer stays on screen before the game ends on its own
+const FINAL_REVEAL_MS = Number(process.env.FINAL_REVEAL_SECONDS || 10) * 1000
 
 // Valid state transitions
 const validTransitions: Record<SessionStatus, SessionStatus[]> = {
   lobby: [`active`],
-  active: [`revealing`],
-  revealing: [`active`, `ended`],
+  active: [`revealing`, `paused`],
+  paused: [`active`, `tied`, `ended`], // Resume, or end the game while paused
+  revealing: [`active`, `intermission`, `tied`, `ended`],
+  intermission: [`active`, `ended`],
+  tied: [`active`, `ended`], // Via startTiebreaker / declareCoWinners
   ended: [],
 }
 
@@ -29,69 +123,1505 @@ function canTransition(from: SessionStatus, to: SessionStatus): boolean {
   return validTransitions[from]?.includes(to) ?? false
 }
 
-// Draw a random unused question from the bank
-async function drawRandomQuestion(
+// Rounds of a session in play order (empty for single-bank sessions)
+async function getSessionRounds(db: Database, sessionId: number) {
+  return db
+    .select()
+    .from(sessionRoundsTable)
+    .where(eq(sessionRoundsTable.session_id, sessionId))
+    .orderBy(sessionRoundsTable.round_order)
+}
+
+// Shuffle the session's deck from its seed: the playlist as-is, one slice
+// per round, or the whole bank. Fixed-length games keep only the first
+// `question_count` questions.
+async function buildSessionDeck(
+  db: Database,
+  session: GameSession,
+  rounds: SessionRound[],
+  seed: string
+) {
+  const limit = session.question_count ?? undefined
+
+  if (session.playlist_question_ids.length > 0) {
+    return session.playlist_question_ids.slice(0, limit)
+  }
+
+  const bankQuestionIds = async (bankId: number) => {
+    const questions = await db
+      .select({ id: questionsTable.id })
+      .from(questionsTable)
+      .where(eq(questionsTable.bank_id, bankId))
+    return questions.map((q) => q.id)
+  }
+
+  const sections =
+    rounds.length > 0
+      ? await Promise.all(
+          rounds.map(async (round) => ({
+            questionIds: await bankQuestionIds(round.bank_id),
+            count: round.question_count,
+          }))
+        )
+      : [{ questionIds: await bankQuestionIds(session.bank_id) }]
+
+  return buildDeck(seed, sections).slice(0, limit)
+}
+
+// Pop the next question off the session's deck, record it as used and make
+// it the active question. Returns null once the deck is empty.
+async function startNextQuestion(
+  // eslint-disable-next-line quotes
+  tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
+  session: GameSession,
+  round: SessionRound | null
+) {
+  // Questions deleted since the deck was shuffled are skipped
+  const deck = [...session.deck_question_ids]
+  let question = null
+  while (deck.length > 0 && !question) {
+    const [next] = await tx
+      .select()
+      .from(questionsTable)
+      .where(eq(questionsTable.id, deck.shift()!))
+    question = next ?? null
+  }
+
+  if (!question) {
+    return null
+  }
+
+  // Record as used
+  const usedCount = await tx
+    .select()
+    .from(usedQuestionsTable)
+    .where(eq(usedQuestionsTable.session_id, session.id))
+
+  const roundStartedAt = new Date()
+  await tx.insert(usedQuestionsTable).values({
+    session_id: session.id,
+    question_id: question.id,
+    round_id: round?.id ?? null,
+    round_started_at: roundStartedAt,
+    question_order: usedCount.length + 1,
+  })
+
+  // Update session, using the round's own timer when playing in rounds
+  const [updated] = await tx
+    .update(gameSessionsTable)
+    .set({
+      status: `active`,
+      current_question_id: question.id,
+      current_round_id: round?.id ?? null,
+      deck_question_ids: deck,
+      round_duration_seconds:
+        round?.round_duration_seconds ?? session.round_duration_seconds,
+      round_started_at: roundStartedAt,
+      paused_at: null,
+      autopilot_due_at: null,
+    })
+    .where(eq(gameSessionsTable.id, session.id))
+    .returning()
+
+  return updated
+}
+
+// Calculate winners: everyone sharing the highest score (among the tied
+// players during a tiebreaker), plus the team(s) sharing the highest team
+// score (among the tied teams) in team games
+async function calculateWinner(
+  // eslint-disable-next-line quotes
+  tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
+  session: GameSession
+) {
+  const players = await tx
+    .select()
+    .from(playersTable)
+    .where(eq(playersTable.session_id, session.id))
+    .orderBy(desc(playersTable.score))
+
+  let winningTeams: Team[] = []
+  if (session.team_mode !== `off`) {
+    const teams = await tx
+      .select()
+      .from(teamsTable)
+      .where(eq(teamsTable.session_id, session.id))
+
+    const contenderTeams =
+      session.tied_team_ids.length > 0
+        ? teams.filter((t) => session.tied_team_ids.includes(t.id))
+        : teams
+    const topTeamIds = findTopScorers(
+      calculateTeamScores(contenderTeams, players, session.team_mode)
+    ).map((t) => t.teamId)
+    winningTeams = teams.filter((t) => topTeamIds.includes(t.id))
+  }
+
+  const contenders =
+    session.tied_player_ids.length > 0
+      ? players.filter((p) => session.tied_player_ids.includes(p.id))
+      : players
+
+  return { winners: findTopScorers(contenders), winningTeams, players }
+}
+
+// End the game and record the winners. When players (or in team games,
+// teams) are tied for the win the session waits in `tied` for the admin to
+// declare co-winners or start a tiebreaker instead. A team tiebreaker is
+// played by whoever answers for the tied teams. An optional guard makes the
+// update a no-op (returning null) if the session has moved on meanwhile.
+async function finishGame(
+  // eslint-disable-next-line quotes
+  tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
+  session: GameSession,
+  guard?: SQL
+) {
+  const { winners, winningTeams, players } = await calculateWinner(
+    tx,
+    session
+  )
+  const winnerIds = winners.map((w) => w.id)
+  const isTeamGame = session.team_mode !== `off`
+  const isTie = isTeamGame ? winningTeams.length > 1 : winners.length > 1
+
+  const [updated] = await tx
+    .update(gameSessionsTable)
+    .set(
+      !isTie
+        ? {
+            status: `ended`,
+            winner_player_ids: winnerIds,
+            winner_team_ids: winningTeams.map((t) => t.id),
+            ended_at: new Date(),
+          }
+        : isTeamGame
+          ? {
+              status: `tied`,
+              tied_team_ids: winningTeams.map((t) => t.id),
+              tied_player_ids: getAnsweringTeamPlayerIds(
+                winningTeams,
+                players,
+                session.team_mode
+              ),
+            }
+          : { status: `tied`, tied_player_ids: winnerIds }
+    )
+    .where(and(eq(gameSessionsTable.id, session.id), guard))
+    .returning()
+  if (!updated) return null
+
+  // A game ended mid-question never revealed it, so publish any keys still
+  // missing for the game history
+  const unrevealed = await tx
+    .select()
+    .from(usedQuestionsTable)
+    .where(
+      and(
+        eq(usedQuestionsTable.session_id, session.id),
+        isNull(usedQuestionsTable.answer_key)
+      )
+    )
+  for (const used of unrevealed) {
+    await publishAnswerKey(tx, session.id, used.question_id)
+  }
+
+  return { session: updated, winners, winningTeams }
+}
+
+// Whether the game concludes once the current answer has been revealed:
+// after the last question, and after every sudden-death question
+function endsAfterReveal(session: GameSession) {
+  return isFinalQuestion(session) || session.tied_player_ids.length > 0
+}
+
+// Whether the session's current question is the last one it will ask
+function isFinalQuestion(session: GameSession) {
+  return session.deck_question_ids.length === 0
+}
+
+// Whether the current question scores as the final one (doubled under the
+// double_final strategy): the last of the deck, but never a sudden-death
+// question. Used both when answers come in and when they're rescored
+function scoresAsFinalQuestion(session: GameSession) {
+  return isFinalQuestion(session) && session.tied_player_ids.length === 0
+}
+
+// How many questions a session in the lobby will ask: the playlist length,
+// the sum of its round sizes, or the whole bank, capped by the fixed game
+// length if one is set
+async function getPlannedQuestionCount(db: Database, session: GameSession) {
+  let total = session.playlist_question_ids.length
+
+  if (total === 0) {
+    const rounds = await getSessionRounds(db, session.id)
+    if (rounds.length > 0) {
+      total = rounds.reduce((sum, r) => sum + r.question_count, 0)
+    } else {
+      const bankQuestions = await db
+        .select({ id: questionsTable.id })
+        .from(questionsTable)
+        .where(eq(questionsTable.bank_id, session.bank_id))
+      total = bankQuestions.length
+    }
+  }
+
+  return session.question_count !== null
+    ? Math.min(total, session.question_count)
+    : total
+}
+
+// Award a closest-wins numeric question to the guess(es) nearest the true
+// value once the round is revealed - until then nobody knows who is closest -
+// and rescore the session so bonuses and totals follow.
+async function gradeClosestGuesses(
+  // eslint-disable-next-line quotes
+  tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
+  session: GameSession
+) {
+  if (!session.current_question_id) return
+
+  const [question] = await tx
+    .select()
+    .from(questionsTable)
+    .where(eq(questionsTable.id, session.current_question_id))
+
+  if (
+    question?.question_type !== `numeric` ||
+    question.numeric_scoring !== `closest` ||
+    question.numeric_answer === null
+  ) {
+    return
+  }
+
+  const responses = await tx
+    .select()
+    .from(playerResponsesTable)
+    .where(
+      and(
+        eq(playerResponsesTable.session_id, session.id),
+        eq(playerResponsesTable.question_id, question.id)
+      )
+    )
+
+  const closestIds = findClosestGuessIds(
+    responses
+      .filter((r) => r.numeric_guess !== null)
+      .map((r) => ({ id: r.id, guess: r.numeric_guess! })),
+    question.numeric_answer
+  )
+  if (closestIds.length === 0) return
+
+  await tx
+    .update(playerResponsesTable)
+    .set({ is_correct: true })
+    .where(inArray(playerResponsesTable.id, closestIds))
+
+  await rescoreSession(tx, session, question.id)
+}
+
+// Award a majority-scored poll to everyone who voted with the most popular
+// choice once the round is revealed - until then the votes are still coming
+// in - and rescore the session to match.
+async function gradeMajorityVotes(
   // eslint-disable-next-line quotes
   tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
+  session: GameSession
+) {
+  if (!session.current_question_id) return
+
+  const [question] = await tx
+    .select()
+    .from(questionsTable)
+    .where(eq(questionsTable.id, session.current_question_id))
+
+  if (
+    question?.question_type !== `poll` ||
+    question.poll_scoring !== `majority`
+  ) {
+    return
+  }
+
+  const responses = await tx
+    .select()
+    .from(playerResponsesTable)
+    .where(
+      and(
+        eq(playerResponsesTable.session_id, session.id),
+        eq(playerResponsesTable.question_id, question.id)
+      )
+    )
+
+  const majority = findMajorityChoices(
+    responses
+      .map(getPollChoice)
+      .filter((choice): choice is string => choice !== null)
+  )
+  const majorityIds = responses
+    .filter((r) => majority.includes(getPollChoice(r) ?? ``))
+    .map((r) => r.id)
+  if (majorityIds.length === 0) return
+
+  await tx
+    .update(playerResponsesTable)
+    .set({ is_correct: true })
+    .where(inArray(playerResponsesTable.id, majorityIds))
+
+  await rescoreSession(tx, session, question.id)
+}
+
+// Copy a question's answer key onto the session's used_questions row, which
+// players sync. Players' question and option shapes leave the key out, so
+// this is how they learn the answer once it's revealed.
+async function publishAnswerKey(
+  // eslint-disable-next-line quotes
+  tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
+  sessionId: number,
+  questionId: number
+) {
+  const [question] = await tx
+    .select()
+    .from(questionsTable)
+    .where(eq(questionsTable.id, questionId))
+  if (!question) return
+
+  const options = await tx
+    .select()
+    .from(answerOptionsTable)
+    .where(eq(answerOptionsTable.question_id, questionId))
+  const pairs = await getPairs(tx, question.question_type, questionId)
+
+  await tx
+    .update(usedQuestionsTable)
+    .set({ answer_key: buildRevealedAnswerKey(question, options, pairs) })
+    .where(
+      and(
+        eq(usedQuestionsTable.session_id, sessionId),
+        eq(usedQuestionsTable.question_id, questionId)
+      )
+    )
+}
+
+// Publish the answer key and grade the answers that can only be settled
+// once the round is revealed
+async function completeReveal(
+  // eslint-disable-next-line quotes
+  tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
+  session: GameSession
+) {
+  if (session.current_question_id) {
+    await publishAnswerKey(tx, session.id, session.current_question_id)
+  }
+  await gradeClosestGuesses(tx, session)
+  await gradeMajorityVotes(tx, session)
+}
+
+// A matching question's pairs (none for other question types)
+async function getPairs(
+  db: Pick<Database, `select`>,
+  questionType: string,
+  questionId: number
+) {
+  if (questionType !== `matching`) return []
+
+  return db
+    .select()
+    .from(answerPairsTable)
+    .where(eq(answerPairsTable.question_id, questionId))
+}
+
+// The session, if the given question is open for answers (and buzzes). The
+// server owns the clock: once the round (plus grace window) has closed,
+// nothing more is accepted and the round is revealed if still open.
+async function getOpenQuestionSession(
+  db: Database,
+  sessionId: number,
+  questionId: number
+) {
+  const [session] = await db
+    .select()
+    .from(gameSessionsTable)
+    .where(eq(gameSessionsTable.id, sessionId))
+
+  if (!session) {
+    throw new TRPCError({
+      code: `NOT_FOUND`,
+      message: `Game session not found`,
+    })
+  }
+
+  if (session.status === `paused`) {
+    throw new TRPCError({
+      code: `BAD_REQUEST`,
+      message: `The game is paused. Hold on to your answer until it resumes`,
+    })
+  }
+
+  if (session.status !== `active`) {
+    throw new TRPCError({
+      code: `BAD_REQUEST`,
+      message: `Cannot submit answer when game is not active`,
+    })
+  }
+
+  if (session.current_question_id !== questionId) {
+    throw new TRPCError({
+      code: `BAD_REQUEST`,
+      message: `This is not the current question`,
+    })
+  }
+
+  if (isRoundExpired(session, new Date(), ROUND_GRACE_MS)) {
+    await expireRoundIfDue(db, sessionId)
+    throw new TRPCError({
+      code: `BAD_REQUEST`,
+      message: `Time's up! Answers are no longer accepted for this question`,
+    })
+  }
+
+  return session
+}
+
+// The player, if they may answer the current question: in captain mode only
+// the team captains answer, and sudden-death questions are only for the
+// players tied for the win. Also returns the captains' IDs.
+async function getEligiblePlayer(
+  db: Database,
+  session: GameSession,
+  playerId: string
+) {
+  const [player] = await db
+    .select()
+    .from(playersTable)
+    .where(
+      and(
+        eq(playersTable.id, playerId),
+        eq(playersTable.session_id, session.id)
+      )
+    )
+
+  if (!player) {
+    throw new TRPCError({
+      code: `NOT_FOUND`,
+      message: `Player not found in this session`,
+    })
+  }
+
+  const teams =
+    session.team_mode === `off`
+      ? []
+      : await db
+          .select()
+          .from(teamsTable)
+          .where(eq(teamsTable.session_id, session.id))
+  const captainIds = teams
+    .map((t) => t.captain_player_id)
+    .filter((id): id is string => id !== null)
+
+  if (session.team_mode === `captain` && !captainIds.includes(player.id)) {
+    throw new TRPCError({
+      code: `FORBIDDEN`,
+      message: `Only your team captain can answer in this game`,
+    })
+  }
+
+  const isTiebreaker = session.tied_player_ids.length > 0
+  if (isTiebreaker && !session.tied_player_ids.includes(player.id)) {
+    throw new TRPCError({
+      code: `FORBIDDEN`,
+      message: `Only the tied players answer tiebreaker questions`,
+    })
+  }
+
+  return { player, captainIds }
+}
+
+// In buzzer mode, the player whose turn it is to answer the question
+async function getAnsweringBuzzer(
+  db: Database,
+  sessionId: number,
+  questionId: number
+) {
+  const buzzes = await db
+    .select()
+    .from(buzzesTable)
+    .where(
+      and(
+        eq(buzzesTable.session_id, sessionId),
+        eq(buzzesTable.question_id, questionId)
+      )
+    )
+
+  return getAnsweringPlayerId(buzzes)
+}
+
+// Count a player's consecutive correct answers leading up to (but not
+// including) the given question, in the order questions were asked.
+// Voided questions and polls played just for fun don't count either way.
+async function getPlayerStreak(
+  db: Database,
   sessionId: number,
-  bankId: number
+  playerId: string,
+  questionId: number
 ) {
-  // Get IDs of already used questions
-  const usedQuestions = await tx
-    .select({ question_id: usedQuestionsTable.question_id })
+  const asked = await db
+    .select({
+      question_id: usedQuestionsTable.question_id,
+      question_type: questionsTable.question_type,
+      poll_scoring: questionsTable.poll_scoring,
+    })
     .from(usedQuestionsTable)
-    .where(eq(usedQuestionsTable.session_id, sessionId))
+    .innerJoin(
+      questionsTable,
+      eq(questionsTable.id, usedQuestionsTable.question_id)
+    )
+    .where(
+      and(
+        eq(usedQuestionsTable.session_id, sessionId),
+        isNull(usedQuestionsTable.voided_at)
+      )
+    )
+    .orderBy(usedQuestionsTable.question_order)
+
+  const correctResponses = await db
+    .select({ question_id: playerResponsesTable.question_id })
+    .from(playerResponsesTable)
+    .where(
+      and(
+        eq(playerResponsesTable.session_id, sessionId),
+        eq(playerResponsesTable.player_id, playerId),
+        eq(playerResponsesTable.is_correct, true)
+      )
+    )
 
-  const usedIds = usedQuestions.map((u: { question_id: number }) => u.question_id)
+  return countStreak(
+    asked
+      .filter((a) => !isUnscoredPoll(a) && a.question_id !== questionId)
+      .map((a) => a.question_id),
+    new Set(correctResponses.map((r) => r.question_id))
+  )
+}
 
-  // Get available questions
-  let query = tx
+// Recompute the session's scores after a question's answer key was corrected,
+// the admin accepted a free-text answer, or numeric guesses or poll votes were
+// graded at the reveal. Responses to that question are rescored with the new
+// key (graded responses keep their stored grade), then streak bonuses are
+// replayed for every player, since a changed answer can start or break a
+// streak. Player totals move by the difference. Returns how many responses'
+// points changed.
+async function rescoreSession(
+  // eslint-disable-next-line quotes
+  tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
+  session: GameSession,
+  questionId: number
+) {
+  const [question] = await tx
     .select()
     .from(questionsTable)
-    .where(eq(questionsTable.bank_id, bankId))
+    .where(eq(questionsTable.id, questionId))
 
-  if (usedIds.length > 0) {
-    query = tx
-      .select()
-      .from(questionsTable)
-      .where(
-        and(
-          eq(questionsTable.bank_id, bankId),
-          notInArray(questionsTable.id, usedIds)
-        )
+  const options = await tx
+    .select()
+    .from(answerOptionsTable)
+    .where(eq(answerOptionsTable.question_id, questionId))
+
+  const correctOptionIds = getAnswerKey(question.question_type, options)
+  const incorrectOptionIds = options
+    .filter((o) => !o.is_correct)
+    .map((o) => o.id)
+  const pairs = await getPairs(tx, question.question_type, questionId)
+
+  const asked = await tx
+    .select()
+    .from(usedQuestionsTable)
+    .where(
+      and(
+        eq(usedQuestionsTable.session_id, session.id),
+        isNull(usedQuestionsTable.voided_at)
       )
+    )
+    .orderBy(usedQuestionsTable.question_order)
+  const askedIds = asked.map((a) => a.question_id)
+  const askedQuestion = asked.find((a) => a.question_id === questionId)!
+
+  // Polls played just for fun don't count towards streaks
+  const askedQuestions = await tx
+    .select()
+    .from(questionsTable)
+    .where(inArray(questionsTable.id, askedIds))
+  const streakQuestionIds = askedIds.filter(
+    (id) => !askedQuestions.some((q) => q.id === id && isUnscoredPoll(q))
+  )
+
+  // The question's own timer, for speed bonuses newly earned by the fix
+  const [round] = askedQuestion.round_id
+    ? await tx
+        .select()
+        .from(sessionRoundsTable)
+        .where(eq(sessionRoundsTable.id, askedQuestion.round_id))
+    : []
+  const roundDurationSeconds =
+    round?.round_duration_seconds ?? session.round_duration_seconds
+
+  // Scored as final the way submitAnswer scored it
+  const wasFinalQuestion =
+    askedIds[askedIds.length - 1] === questionId &&
+    scoresAsFinalQuestion(session)
+
+  const strategy = getScoringStrategy(session.scoring_strategy)
+  const responses = await tx
+    .select()
+    .from(playerResponsesTable)
+    .where(eq(playerResponsesTable.session_id, session.id))
+
+  const rescored = responses.map((response) => {
+    const basePoints =
+      response.points_earned - response.speed_bonus - response.streak_bonus
+
+    if (response.question_id !== questionId) {
+      return {
+        response,
+        basePoints,
+        speedBonus: response.speed_bonus,
+        isCorrect: response.is_correct,
+      }
+    }
+
+    // Graded answers (free text, numeric, hotspot, poll) keep their grade,
+    // which an admin (or the closest-guess or majority reveal) may have changed
+    const scoringInput: ScoringInput = isGradedAnswer(question.question_type)
+      ? getGradedScoringInput(response.is_correct, wasFinalQuestion)
+      : question.question_type === `matching`
+        ? getMatchingScoringInput(
+            pairs,
+            response.pair_matches,
+            wasFinalQuestion
+          )
+        : {
+            questionType: question.question_type,
+            correctOptionIds,
+            incorrectOptionIds,
+            selectedOptionIds: response.selected_option_ids,
+            isFinalQuestion: wasFinalQuestion,
+          }
+    const isCorrect = isGradedAnswer(question.question_type)
+      ? response.is_correct
+      : isFullyCorrect(
+          scoringInput.questionType,
+          scoringInput.correctOptionIds,
+          scoringInput.selectedOptionIds
+        )
+    const newBasePoints = strategy.score(scoringInput)
+
+    // Keep a speed bonus that was already earned, only work out new ones
+    const speedBonus =
+      basePoints > 0 && newBasePoints > 0
+        ? response.speed_bonus
+        : calculateSpeedBonus({
+            basePoints: newBasePoints,
+            maxBonus: session.speed_bonus_max,
+            roundStartedAt: askedQuestion.round_started_at,
+            roundDurationSeconds,
+            submittedAt: response.submitted_at,
+          })
+
+    return {
+      response,
+      basePoints: newBasePoints,
+      speedBonus,
+      isCorrect,
+    }
+  })
+
+  const scoreChanges = new Map<string, number>()
+  let responsesRescored = 0
+
+  for (const playerId of new Set(responses.map((r) => r.player_id))) {
+    const playerResponses = rescored.filter(
+      (r) => r.response.player_id === playerId
+    )
+    const streakBonuses = calculateStreakBonuses(
+      streakQuestionIds,
+      new Set(
+        playerResponses
+          .filter((r) => r.isCorrect)
+          .map((r) => r.response.question_id)
+      ),
+      session.streak_bonus_points
+    )
+
+    for (const { response, basePoints, speedBonus, isCorrect } of playerResponses) {
+      const streakBonus = streakBonuses.get(response.question_id) ?? 0
+      const points = basePoints + speedBonus + streakBonus
+
+      if (
+        points === response.points_earned &&
+        speedBonus === response.speed_bonus &&
+        streakBonus === response.streak_bonus &&
+        isCorrect === response.is_correct
+      ) {
+        continue
+      }
+
+      await tx
+        .update(playerResponsesTable)
+        .set({
+          points_earned: points,
+          speed_bonus: speedBonus,
+          streak_bonus: streakBonus,
+          is_correct: isCorrect,
+        })
+        .where(eq(playerResponsesTable.id, response.id))
+
+      if (points !== response.points_earned) {
+        responsesRescored++
+        scoreChanges.set(
+          playerId,
+          (scoreChanges.get(playerId) ?? 0) + points - response.points_earned
+        )
+      }
+    }
+  }
+
+  const players = await tx
+    .select()
+    .from(playersTable)
+    .where(eq(playersTable.session_id, session.id))
+
+  for (const player of players) {
+    const change = scoreChanges.get(player.id)
+    if (!change) continue
+
+    await tx
+      .update(playersTable)
+      .set({ score: player.score + change })
+      .where(eq(playersTable.id, player.id))
+  }
+
+  return responsesRescored
+}
+
+// How far a round has got through its questions, see countRoundProgress
+async function getRoundProgress(
+  db: Pick<Database, `select`>,
+  round: SessionRound | null
+) {
+  if (!round) return 0
+
+  const asked = await db
+    .select({
+      voided_at: usedQuestionsTable.voided_at,
+      replaced: usedQuestionsTable.replaced,
+    })
+    .from(usedQuestionsTable)
+    .where(eq(usedQuestionsTable.round_id, round.id))
+
+  return countRoundProgress(asked)
+}
+
+// Carry out a step from getNextStep: show the next round's transition screen
+// or ask the next question. Null when the game has nothing left to ask.
+async function takeStep(
+  // eslint-disable-next-line quotes
+  tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
+  session: GameSession,
+  step: NextStep<SessionRound>,
+  currentRound: SessionRound | null
+) {
+  if (step.type === `intermission`) {
+    const [updated] = await tx
+      .update(gameSessionsTable)
+      .set({
+        status: `intermission`,
+        current_round_id: step.round.id,
+        current_question_id: null,
+        round_started_at: null,
+        autopilot_due_at: getAutopilotDueAt(session, new Date()),
+      })
+      .where(eq(gameSessionsTable.id, session.id))
+      .returning()
+
+    return updated
   }
 
-  const availableQuestions = await query
+  return step.type === `question`
+    ? startNextQuestion(tx, session, currentRound)
+    : null
+}
+
+// Move the game on from a reveal or round transition: to the next round's
+// transition screen once a round has asked all its questions, otherwise to
+// the next question. Used by the admin's "Next" button and by autopilot,
+// which passes a guard so the advance is skipped (returning null) if the
+// host moved the game on meanwhile. With nothing left to ask the host is
+// told to end the game, while autopilot ends it by itself.
+async function advanceGame(db: Database, session: GameSession, guard?: SQL) {
+  const rounds = await getSessionRounds(db, session.id)
+  const currentRound =
+    rounds.find((r) => r.id === session.current_round_id) ?? null
+
+  const step = getNextStep(
+    session.status,
+    currentRound,
+    await getRoundProgress(db, currentRound),
+    rounds
+  )
+
+  if (step.type === `finish` && !guard) {
+    throw new TRPCError({
+      code: `BAD_REQUEST`,
+      message: `All rounds are complete. Consider ending the game.`,
+    })
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const txid = await generateTxId(tx)
+
+    if (guard) {
+      const [claimed] = await tx
+        .update(gameSessionsTable)
+        .set({ autopilot_due_at: null })
+        .where(and(eq(gameSessionsTable.id, session.id), guard))
+        .returning()
+
+      if (!claimed) return null
+    }
+
+    const updated = await takeStep(tx, session, step, currentRound)
+    if (updated) return { session: updated, txid }
+
+    if (!guard) {
+      throw new TRPCError({
+        code: `BAD_REQUEST`,
+        message: `No more questions available. Consider ending the game.`,
+      })
+    }
+
+    // Autopilot has run out of questions: end the game (or wait for the
+    // host to settle a tie) rather than retrying forever
+    const finished = await finishGame(tx, session)
+    return finished ? { session: finished.session, txid } : null
+  })
+
+  if (result) {
+    scheduleRoundExpiry(db, result.session)
+    scheduleAutopilot(db, result.session)
+  }
+
+  return result
+}
+
+// Session fields for revealing the current answer. Autopilot waits for the
+// discussion time before moving on, except after the final reveal, which
+// ends the game by itself.
+function revealAnswer(session: GameSession) {
+  const revealedAt = new Date()
+  return {
+    status: `revealing`,
+    revealed_at: revealedAt,
+    autopilot_due_at: endsAfterReveal(session)
+      ? null
+      : getAutopilotDueAt(session, revealedAt),
+  }
+}
+
+// Advance the game once autopilot's discussion time is up. Guarded on
+// autopilot_due_at so a stale timer can't advance a game the host (or an
+// earlier tick) already moved on.
+async function advanceIfAutopilotDue(db: Database, sessionId: number) {
+  const [session] = await db
+    .select()
+    .from(gameSessionsTable)
+    .where(eq(gameSessionsTable.id, sessionId))
+
+  if (!session || !isAutopilotDue(session)) {
+    return null
+  }
+
+  return advanceGame(
+    db,
+    session,
+    eq(gameSessionsTable.autopilot_due_at, session.autopilot_due_at!)
+  )
+}
+
+// Reveal the current round if its timer (plus grace window) has run out.
+// Guarded on round_started_at so a stale timer can't reveal a newer round.
+async function expireRoundIfDue(db: Database, sessionId: number) {
+  const [session] = await db
+    .select()
+    .from(gameSessionsTable)
+    .where(eq(gameSessionsTable.id, sessionId))
+
+  if (
+    !session ||
+    session.status !== `active` ||
+    !session.round_started_at ||
+    !isRoundExpired(session, new Date(), ROUND_GRACE_MS)
+  ) {
+    return null
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const txid = await generateTxId(tx)
+
+    const [updated] = await tx
+      .update(gameSessionsTable)
+      .set(revealAnswer(session))
+      .where(
+        and(
+          eq(gameSessionsTable.id, sessionId),
+          eq(gameSessionsTable.status, `active`),
+          eq(gameSessionsTable.round_started_at, session.round_started_at!)
+        )
+      )
+      .returning()
+
+    if (updated) await completeReveal(tx, session)
+
+    return updated ? { session: updated, txid } : null
+  })
+
+  if (result) {
+    scheduleFinalResults(db, result.session)
+    scheduleAutopilot(db, result.session)
+  }
+
+  return result
+}
+
+// Conclude the game once the final answer has been on screen long enough.
+// Guarded on revealed_at so a stale timer can't end a game that moved on.
+async function endGameIfDue(db: Database, sessionId: number) {
+  const [session] = await db
+    .select()
+    .from(gameSessionsTable)
+    .where(eq(gameSessionsTable.id, sessionId))
+
+  if (
+    !session ||
+    session.status !== `revealing` ||
+    !session.revealed_at ||
+    !endsAfterReveal(session) ||
+    Date.now() < session.revealed_at.getTime() + FINAL_REVEAL_MS
+  ) {
+    return null
+  }
+
+  return db.transaction(async (tx) => {
+    const txid = await generateTxId(tx)
+
+    const ended = await finishGame(
+      tx,
+      session,
+      and(
+        eq(gameSessionsTable.status, `revealing`),
+        eq(gameSessionsTable.revealed_at, session.revealed_at!)
+      )
+    )
+
+    return ended ? { ...ended, txid } : null
+  })
+}
+
+// Once the final (or a sudden-death) answer is revealed, schedule the
+// automatic conclusion of the game
+function scheduleFinalResults(db: Database, session: GameSession) {
+  if (!session.revealed_at || !endsAfterReveal(session)) return
+
+  scheduleSessionTimer(
+    session.id,
+    new Date(session.revealed_at.getTime() + FINAL_REVEAL_MS),
+    () => endGameIfDue(db, session.id)
+  )
+}
+
+// Schedule autopilot's next advance, if it is waiting to move on
+function scheduleAutopilot(db: Database, session: GameSession) {
+  if (!session.autopilot_due_at) return
+
+  scheduleSessionTimer(session.id, session.autopilot_due_at, () =>
+    advanceIfAutopilotDue(db, session.id)
+  )
+}
+
+// Schedule the server-side auto-reveal for a freshly started round
+function scheduleRoundExpiry(db: Database, session: GameSession) {
+  if (session.status !== `active`) return
+  const deadline = getRoundDeadline(session)
+  if (!deadline) return
+
+  scheduleSessionTimer(
+    session.id,
+    new Date(deadline.getTime() + ROUND_GRACE_MS),
+    () => expireRoundIfDue(db, session.id)
+  )
+}
+
+export const gameRouter = router({
+  // Start the game (transition from lobby to active)
+  startGame: adminProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
+
+      if (!canTransition(session.status as SessionStatus, `active`)) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Cannot start game from current state: ${session.status}`,
+        })
+      }
+
+      // Check if there are players
+      const players = await ctx.db
+        .select()
+        .from(playersTable)
+        .where(eq(playersTable.session_id, input.sessionId))
+
+      if (players.length === 0) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Cannot start game without players`,
+        })
+      }
+
+      const teams =
+        session.team_mode === `off`
+          ? []
+          : await ctx.db
+              .select()
+              .from(teamsTable)
+              .where(eq(teamsTable.session_id, input.sessionId))
+
+      if (session.team_mode !== `off` && teams.length < 2) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Create at least two teams before starting a team game`,
+        })
+      }
+
+      // Shuffle the whole deck up front, from the seed chosen at creation
+      // (for a rematch) or a fresh one
+      const rounds = await getSessionRounds(ctx.db, input.sessionId)
+      const deckSeed = session.deck_seed ?? generateDeckSeed()
+      const deck = await buildSessionDeck(ctx.db, session, rounds, deckSeed)
+
+      const result = await ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        // Put anyone who hasn't picked a team onto the smallest team
+        for (const player of players.filter((p) => p.team_id === null)) {
+          const memberCounts = teams.map((team) => ({
+            team,
+            count: players.filter((p) => p.team_id === team.id).length,
+          }))
+          const smallest = memberCounts.sort((a, b) => a.count - b.count)[0]
+          if (!smallest) break
+
+          await movePlayerToTeam(tx, player, smallest.team.id)
+          player.team_id = smallest.team.id
+        }
+
+        const [shuffled] = await tx
+          .update(gameSessionsTable)
+          .set({ deck_seed: deckSeed, deck_question_ids: deck })
+          .where(eq(gameSessionsTable.id, input.sessionId))
+          .returning()
+
+        // Ask first question (from the first round, if played in rounds)
+        const updated = await startNextQuestion(tx, shuffled, rounds[0] ?? null)
+
+        if (!updated) {
+          throw new TRPCError({
+            code: `BAD_REQUEST`,
+            message: `No questions available in the bank`,
+          })
+        }
+
+        return { session: updated, txid }
+      })
+
+      scheduleRoundExpiry(ctx.db, result.session)
+
+      return result
+    }),
+
+  // Advance to next question (from revealing or a round transition to active)
+  nextQuestion: adminProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
+
+      if (!canTransition(session.status as SessionStatus, `active`)) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Cannot go to next question from current state: ${session.status}`,
+        })
+      }
+
+      if (session.status === `paused`) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `The game is paused. Resume it first.`,
+        })
+      }
+
+      if (session.status === `tied` || session.tied_player_ids.length > 0) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `The game is tied. Declare co-winners or play a tiebreaker.`,
+        })
+      }
+
+      return advanceGame(ctx.db, session)
+    }),
+
+  // Force show answer (transition to revealing)
+  forceReveal: adminProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
+
+      if (!canTransition(session.status as SessionStatus, `revealing`)) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Cannot reveal answer from current state: ${session.status}`,
+        })
+      }
+
+      const result = await ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        const [updated] = await tx
+          .update(gameSessionsTable)
+          .set(revealAnswer(session))
+          .where(eq(gameSessionsTable.id, input.sessionId))
+          .returning()
+
+        await completeReveal(tx, session)
+
+        return { session: updated, txid }
+      })
+
+      clearSessionTimer(input.sessionId)
+      scheduleFinalResults(ctx.db, result.session)
+      scheduleAutopilot(ctx.db, result.session)
+
+      return result
+    }),
+
+  // Void the current question: discard its responses (reversing the points
+  // they earned), mark it voided and move on to a fresh question
+  voidQuestion: adminProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
+
+      const questionId = session.current_question_id
+      if (
+        ![`active`, `paused`, `revealing`].includes(session.status) ||
+        questionId === null
+      ) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Cannot void a question from current state: ${session.status}`,
+        })
+      }
+
+      const rounds = await getSessionRounds(ctx.db, input.sessionId)
+      const currentRound =
+        rounds.find((r) => r.id === session.current_round_id) ?? null
+
+      // Replace the voided question with an unused one from the same bank,
+      // so voiding doesn't shorten the game. Playlists stick to their own
+      // questions and simply move on.
+      let replacementIds: number[] = []
+      if (session.playlist_question_ids.length === 0) {
+        const [bankQuestions, usedQuestions] = await Promise.all([
+          ctx.db
+            .select({ id: questionsTable.id })
+            .from(questionsTable)
+            .where(
+              eq(questionsTable.bank_id, currentRound?.bank_id ?? session.bank_id)
+            ),
+          ctx.db
+            .select({ question_id: usedQuestionsTable.question_id })
+            .from(usedQuestionsTable)
+            .where(eq(usedQuestionsTable.session_id, input.sessionId)),
+        ])
+
+        replacementIds = pickReplacementQuestion(
+          session.deck_seed ?? generateDeckSeed(),
+          bankQuestions.map((q) => q.id),
+          usedQuestions.map((u) => u.question_id),
+          session.deck_question_ids
+        )
+      }
+
+      const result = await ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        const discarded = await tx
+          .delete(playerResponsesTable)
+          .where(
+            and(
+              eq(playerResponsesTable.session_id, input.sessionId),
+              eq(playerResponsesTable.question_id, questionId)
+            )
+          )
+          .returning()
+
+        // Take back whatever the discarded answers earned
+        const players = await tx
+          .select()
+          .from(playersTable)
+          .where(eq(playersTable.session_id, input.sessionId))
+
+        for (const response of discarded) {
+          const player = players.find((p) => p.id === response.player_id)
+          if (!player || response.points_earned === 0) continue
+
+          await tx
+            .update(playersTable)
+            .set({ score: player.score - response.points_earned })
+            .where(eq(playersTable.id, player.id))
+        }
+
+        await tx
+          .update(usedQuestionsTable)
+          .set({ voided_at: new Date(), replaced: replacementIds.length > 0 })
+          .where(
+            and(
+              eq(usedQuestionsTable.session_id, input.sessionId),
+              eq(usedQuestionsTable.question_id, questionId)
+            )
+          )
+
+        // Ask the replacement, or move on as after a reveal, respecting
+        // round boundaries
+        const step = getStepAfterVoid(
+          replacementIds.length > 0,
+          currentRound,
+          await getRoundProgress(tx, currentRound),
+          rounds
+        )
+        const next = await takeStep(
+          tx,
+          {
+            ...session,
+            deck_question_ids: [...replacementIds, ...session.deck_question_ids],
+          },
+          step,
+          currentRound
+        )
+
+        // Nothing left to ask: the voided question was the last one
+        const updated = next ?? (await finishGame(tx, session))?.session
+
+        return {
+          session: updated!,
+          discardedResponses: discarded.length,
+          txid,
+        }
+      })
+
+      clearSessionTimer(input.sessionId)
+      scheduleRoundExpiry(ctx.db, result.session)
+      scheduleAutopilot(ctx.db, result.session)
+
+      return result
+    }),
+
+  // Pause mid-question, freezing the round's countdown
+  pauseGame: adminProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
+
+      if (!canTransition(session.status as SessionStatus, `paused`)) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Cannot pause from current state: ${session.status}`,
+        })
+      }
+
+      const result = await ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        // Guarded on status so a round that expired meanwhile stays revealed
+        const [updated] = await tx
+          .update(gameSessionsTable)
+          .set({ status: `paused`, paused_at: new Date() })
+          .where(
+            and(
+              eq(gameSessionsTable.id, input.sessionId),
+              eq(gameSessionsTable.status, `active`)
+            )
+          )
+          .returning()
+
+        if (!updated) {
+          throw new TRPCError({
+            code: `CONFLICT`,
+            message: `The round ended before the game could be paused`,
+          })
+        }
+
+        return { session: updated, txid }
+      })
+
+      clearSessionTimer(input.sessionId)
+
+      return result
+    }),
+
+  // Resume a paused game: the round continues with the seconds it had left
+  resumeGame: adminProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
+
+      if (session.status !== `paused`) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Cannot resume from current state: ${session.status}`,
+        })
+      }
+
+      const result = await ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        const [updated] = await tx
+          .update(gameSessionsTable)
+          .set({
+            status: `active`,
+            round_started_at: getResumedRoundStart(session),
+            paused_at: null,
+          })
+          .where(eq(gameSessionsTable.id, input.sessionId))
+          .returning()
 
-  if (availableQuestions.length === 0) {
-    return null
-  }
+        // Keep the question's own record of its start in step, so rescoring
+        // works out speed bonuses the same way
+        if (updated.round_started_at && updated.current_question_id) {
+          await tx
+            .update(usedQuestionsTable)
+            .set({ round_started_at: updated.round_started_at })
+            .where(
+              and(
+                eq(usedQuestionsTable.session_id, input.sessionId),
+                eq(usedQuestionsTable.question_id, updated.current_question_id)
+              )
+            )
+        }
 
-  // Pick a random question
-  const randomIndex = Math.floor(Math.random() * availableQuestions.length)
-  return availableQuestions[randomIndex]
-}
+        return { session: updated, txid }
+      })
 
-// Calculate winner based on highest score
-async function calculateWinner(
-  // eslint-disable-next-line quotes
-  tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
-  sessionId: number
-) {
-  const players = await tx
-    .select()
-    .from(playersTable)
-    .where(eq(playersTable.session_id, sessionId))
-    .orderBy(desc(playersTable.score))
+      scheduleRoundExpiry(ctx.db, result.session)
 
-  return players[0] || null
-}
+      return result
+    }),
 
-export const gameRouter = router({
-  // Start the game (transition from lobby to active)
-  startGame: adminProcedure
-    .input(z.object({ sessionId: z.number() }))
+  // Turn autopilot on (with a discussion time) or off mid-game. Turning it
+  // off lets the host take over; turning it on while a reveal or round
+  // transition is showing starts the discussion time from now.
+  setAutopilot: adminProcedure
+    .input(
+      z.object({
+        sessionId: z.number(),
+        autopilotSeconds: z.number().int().min(0).max(300),
+      })
+    )
     .mutation(async ({ ctx, input }) => {
       const [session] = await ctx.db
         .select()
@@ -110,62 +1640,30 @@ export const gameRouter = router({
         })
       }
 
-      if (!canTransition(session.status as SessionStatus, `active`)) {
+      if (session.status === `ended`) {
         throw new TRPCError({
           code: `BAD_REQUEST`,
-          message: `Cannot start game from current state: ${session.status}`,
+          message: `The game has already ended`,
         })
       }
 
-      // Check if there are players
-      const players = await ctx.db
-        .select()
-        .from(playersTable)
-        .where(eq(playersTable.session_id, input.sessionId))
-
-      if (players.length === 0) {
-        throw new TRPCError({
-          code: `BAD_REQUEST`,
-          message: `Cannot start game without players`,
-        })
-      }
+      const isWaiting =
+        (session.status === `revealing` && !endsAfterReveal(session)) ||
+        session.status === `intermission`
 
       const result = await ctx.db.transaction(async (tx) => {
         const txid = await generateTxId(tx)
 
-        // Draw first question
-        const question = await drawRandomQuestion(
-          tx,
-          input.sessionId,
-          session.bank_id
-        )
-
-        if (!question) {
-          throw new TRPCError({
-            code: `BAD_REQUEST`,
-            message: `No questions available in the bank`,
-          })
-        }
-
-        // Record as used
-        const usedCount = await tx
-          .select()
-          .from(usedQuestionsTable)
-          .where(eq(usedQuestionsTable.session_id, input.sessionId))
-
-        await tx.insert(usedQuestionsTable).values({
-          session_id: input.sessionId,
-          question_id: question.id,
-          question_order: usedCount.length + 1,
-        })
-
-        // Update session
         const [updated] = await tx
           .update(gameSessionsTable)
           .set({
-            status: `active`,
-            current_question_id: question.id,
-            round_started_at: new Date(),
+            autopilot_seconds: input.autopilotSeconds,
+            autopilot_due_at: isWaiting
+              ? getAutopilotDueAt(
+                  { ...session, autopilot_seconds: input.autopilotSeconds },
+                  new Date()
+                )
+              : null,
           })
           .where(eq(gameSessionsTable.id, input.sessionId))
           .returning()
@@ -173,11 +1671,16 @@ export const gameRouter = router({
         return { session: updated, txid }
       })
 
+      if (isWaiting) {
+        clearSessionTimer(input.sessionId)
+        scheduleAutopilot(ctx.db, result.session)
+      }
+
       return result
     }),
 
-  // Advance to next question (from revealing to active)
-  nextQuestion: adminProcedure
+  // End the game
+  endGame: adminProcedure
     .input(z.object({ sessionId: z.number() }))
     .mutation(async ({ ctx, input }) => {
       const [session] = await ctx.db
@@ -197,61 +1700,101 @@ export const gameRouter = router({
         })
       }
 
-      if (!canTransition(session.status as SessionStatus, `active`)) {
+      // Can end from any state except ended (ties are settled with
+      // declareCoWinners or startTiebreaker)
+      if (
+        session.status !== `revealing` &&
+        session.status !== `active` &&
+        session.status !== `paused` &&
+        session.status !== `intermission` &&
+        session.status !== `lobby`
+      ) {
         throw new TRPCError({
           code: `BAD_REQUEST`,
-          message: `Cannot go to next question from current state: ${session.status}`,
+          message: `Cannot end game from current state: ${session.status}`,
         })
       }
 
       const result = await ctx.db.transaction(async (tx) => {
         const txid = await generateTxId(tx)
 
-        // Draw next question
-        const question = await drawRandomQuestion(
-          tx,
-          input.sessionId,
-          session.bank_id
-        )
+        // A game that never started has no winner
+        if (session.status === `lobby`) {
+          const [updated] = await tx
+            .update(gameSessionsTable)
+            .set({ status: `ended`, ended_at: new Date() })
+            .where(eq(gameSessionsTable.id, input.sessionId))
+            .returning()
 
-        if (!question) {
-          throw new TRPCError({
-            code: `BAD_REQUEST`,
-            message: `No more questions available. Consider ending the game.`,
-          })
+          return { session: updated, winners: [], winningTeams: [], txid }
         }
 
-        // Record as used
-        const usedCount = await tx
-          .select()
-          .from(usedQuestionsTable)
-          .where(eq(usedQuestionsTable.session_id, input.sessionId))
+        // Calculate winners and end, or wait for the admin on a tie
+        const ended = await finishGame(tx, session)
+
+        return { ...ended!, txid }
+      })
+
+      clearSessionTimer(input.sessionId)
+
+      return result
+    }),
+
+  // Settle a tie by declaring every tied player (or team) a winner
+  declareCoWinners: adminProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
 
-        await tx.insert(usedQuestionsTable).values({
-          session_id: input.sessionId,
-          question_id: question.id,
-          question_order: usedCount.length + 1,
+      if (session.status !== `tied`) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Cannot declare co-winners from current state: ${session.status}`,
         })
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        // Tied teams all win, along with their top scorers
+        const isTeamTie = session.tied_team_ids.length > 0
+        const winnerIds = isTeamTie
+          ? (await calculateWinner(tx, session)).winners.map((w) => w.id)
+          : session.tied_player_ids
 
-        // Update session
         const [updated] = await tx
           .update(gameSessionsTable)
           .set({
-            status: `active`,
-            current_question_id: question.id,
-            round_started_at: new Date(),
+            status: `ended`,
+            winner_player_ids: winnerIds,
+            winner_team_ids: session.tied_team_ids,
+            ended_at: new Date(),
           })
           .where(eq(gameSessionsTable.id, input.sessionId))
           .returning()
 
         return { session: updated, txid }
       })
-
-      return result
     }),
 
-  // Force show answer (transition to revealing)
-  forceReveal: adminProcedure
+  // Settle a tie with sudden death: extra questions for the tied players
+  // only, until one of them pulls ahead
+  startTiebreaker: adminProcedure
     .input(z.object({ sessionId: z.number() }))
     .mutation(async ({ ctx, input }) => {
       const [session] = await ctx.db
@@ -271,136 +1814,427 @@ export const gameRouter = router({
         })
       }
 
-      if (!canTransition(session.status as SessionStatus, `revealing`)) {
+      if (session.status !== `tied`) {
         throw new TRPCError({
           code: `BAD_REQUEST`,
-          message: `Cannot reveal answer from current state: ${session.status}`,
+          message: `Cannot start a tiebreaker from current state: ${session.status}`,
         })
       }
 
+      // Fixed-length games may have used up their deck, so top it up with
+      // the session's unused questions, shuffled from the same seed
+      const rounds = await getSessionRounds(ctx.db, input.sessionId)
+      const bankIds =
+        rounds.length > 0 ? rounds.map((r) => r.bank_id) : [session.bank_id]
+
+      const [bankQuestions, usedQuestions] = await Promise.all([
+        ctx.db
+          .select({ id: questionsTable.id })
+          .from(questionsTable)
+          .where(inArray(questionsTable.bank_id, bankIds)),
+        ctx.db
+          .select({ question_id: usedQuestionsTable.question_id })
+          .from(usedQuestionsTable)
+          .where(eq(usedQuestionsTable.session_id, input.sessionId)),
+      ])
+
+      const usedIds = new Set(usedQuestions.map((u) => u.question_id))
+      const extraQuestionIds = buildDeck(
+        `${session.deck_seed ?? generateDeckSeed()}-tiebreaker`,
+        [
+          {
+            questionIds: bankQuestions
+              .map((q) => q.id)
+              .filter(
+                (id) =>
+                  !usedIds.has(id) && !session.deck_question_ids.includes(id)
+              ),
+          },
+        ]
+      )
+
       const result = await ctx.db.transaction(async (tx) => {
         const txid = await generateTxId(tx)
 
-        const [updated] = await tx
+        const [toppedUp] = await tx
           .update(gameSessionsTable)
-          .set({ status: `revealing` })
+          .set({
+            deck_question_ids: [
+              ...session.deck_question_ids,
+              ...extraQuestionIds,
+            ],
+          })
           .where(eq(gameSessionsTable.id, input.sessionId))
           .returning()
 
+        const updated = await startNextQuestion(tx, toppedUp, null)
+
+        if (!updated) {
+          throw new TRPCError({
+            code: `BAD_REQUEST`,
+            message: `No questions left for a tiebreaker. Declare co-winners instead.`,
+          })
+        }
+
         return { session: updated, txid }
       })
 
+      scheduleRoundExpiry(ctx.db, result.session)
+
       return result
     }),
 
-  // End the game
-  endGame: adminProcedure
-    .input(z.object({ sessionId: z.number() }))
+  // Fix the answer key of a question that was already asked, rescore the
+  // session and record the correction in the audit trail
+  correctAnswerKey: adminProcedure
+    .input(
+      z.object({
+        sessionId: z.number(),
+        questionId: z.number(),
+        correctOptionIds: z.array(z.number()).min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
+
+      if (
+        ![`active`, `paused`, `revealing`, `intermission`].includes(
+          session.status
+        )
+      ) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Answer keys can only be corrected while the game is in progress`,
+        })
+      }
+
+      const [asked] = await ctx.db
+        .select()
+        .from(usedQuestionsTable)
+        .where(
+          and(
+            eq(usedQuestionsTable.session_id, input.sessionId),
+            eq(usedQuestionsTable.question_id, input.questionId)
+          )
+        )
+
+      if (!asked) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `This question hasn't been asked in this game`,
+        })
+      }
+
+      if (asked.voided_at) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `This question was voided and doesn't count`,
+        })
+      }
+
+      const [question] = await ctx.db
+        .select()
+        .from(questionsTable)
+        .where(eq(questionsTable.id, input.questionId))
+
+      if (!question) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Question not found`,
+        })
+      }
+
+      if (!hasAnswerOptions(question.question_type)) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Only multiple-choice answer keys can be corrected`,
+        })
+      }
+
+      const options = await ctx.db
+        .select()
+        .from(answerOptionsTable)
+        .where(eq(answerOptionsTable.question_id, input.questionId))
+
+      const optionIds = options.map((o) => o.id)
+      if (input.correctOptionIds.some((id) => !optionIds.includes(id))) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Correct options must belong to the question`,
+        })
+      }
+
+      if (
+        question.question_type === `single` &&
+        input.correctOptionIds.length !== 1
+      ) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Single-answer questions need exactly one correct option`,
+        })
+      }
+
+      const previousCorrectOptionIds = options
+        .filter((o) => o.is_correct)
+        .map((o) => o.id)
+
+      if (isExactMatch(previousCorrectOptionIds, input.correctOptionIds)) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `That is already the answer key`,
+        })
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        // The fix applies to the question itself, so later games use it too
+        await tx
+          .update(answerOptionsTable)
+          .set({ is_correct: true })
+          .where(
+            and(
+              eq(answerOptionsTable.question_id, input.questionId),
+              inArray(answerOptionsTable.id, input.correctOptionIds)
+            )
+          )
+        await tx
+          .update(answerOptionsTable)
+          .set({ is_correct: false })
+          .where(
+            and(
+              eq(answerOptionsTable.question_id, input.questionId),
+              notInArray(answerOptionsTable.id, input.correctOptionIds)
+            )
+          )
+
+        // Players who've seen the key since it was revealed see the fix too
+        if (asked.answer_key) {
+          await publishAnswerKey(tx, input.sessionId, input.questionId)
+        }
+
+        const responsesRescored = await rescoreSession(
+          tx,
+          session,
+          input.questionId
+        )
+
+        const [correction] = await tx
+          .insert(answerKeyCorrectionsTable)
+          .values({
+            session_id: input.sessionId,
+            question_id: input.questionId,
+            corrected_by: ctx.session.user.id,
+            previous_correct_option_ids: previousCorrectOptionIds,
+            correct_option_ids: input.correctOptionIds,
+            responses_rescored: responsesRescored,
+          })
+          .returning()
+
+        return { correction, txid }
+      })
+    }),
+
+  // Accept a free-text answer the fuzzy matching rejected, e.g. a
+  // misspelling or alternative name, and rescore it (admin, during reveal)
+  acceptTextAnswer: adminProcedure
+    .input(z.object({ responseId: z.number() }))
     .mutation(async ({ ctx, input }) => {
-      const [session] = await ctx.db
-        .select()
-        .from(gameSessionsTable)
+      const [result] = await ctx.db
+        .select({ response: playerResponsesTable, session: gameSessionsTable })
+        .from(playerResponsesTable)
+        .innerJoin(
+          gameSessionsTable,
+          eq(playerResponsesTable.session_id, gameSessionsTable.id)
+        )
         .where(
           and(
-            eq(gameSessionsTable.id, input.sessionId),
+            eq(playerResponsesTable.id, input.responseId),
             eq(gameSessionsTable.admin_id, ctx.session.user.id)
           )
         )
 
-      if (!session) {
+      if (!result) {
         throw new TRPCError({
           code: `NOT_FOUND`,
-          message: `Game session not found`,
+          message: `Response not found`,
         })
       }
 
-      // Can end from revealing or active state
+      const { response, session } = result
+
       if (
-        session.status !== `revealing` &&
-        session.status !== `active` &&
-        session.status !== `lobby`
+        session.status !== `revealing` ||
+        session.current_question_id !== response.question_id
       ) {
         throw new TRPCError({
           code: `BAD_REQUEST`,
-          message: `Cannot end game from current state: ${session.status}`,
+          message: `Answers can only be accepted while their question is being revealed`,
         })
       }
 
-      const result = await ctx.db.transaction(async (tx) => {
+      if (response.text_answer === null) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Only free-text answers can be accepted`,
+        })
+      }
+
+      if (response.is_correct) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `This answer was already accepted`,
+        })
+      }
+
+      return ctx.db.transaction(async (tx) => {
         const txid = await generateTxId(tx)
 
-        // Calculate winner
-        const winner = await calculateWinner(tx, input.sessionId)
+        await tx
+          .update(playerResponsesTable)
+          .set({ is_correct: true, override_accepted: true })
+          .where(eq(playerResponsesTable.id, input.responseId))
 
-        const [updated] = await tx
-          .update(gameSessionsTable)
-          .set({
-            status: `ended`,
-            winner_player_id: winner?.id ?? null,
-            ended_at: new Date(),
-          })
-          .where(eq(gameSessionsTable.id, input.sessionId))
-          .returning()
+        await rescoreSession(tx, session, response.question_id)
 
-        return { session: updated, winner, txid }
-      })
+        const [accepted] = await tx
+          .select()
+          .from(playerResponsesTable)
+          .where(eq(playerResponsesTable.id, input.responseId))
 
-      return result
+        return { response: accepted, txid }
+      })
     }),
 
-  // Submit an answer (for players)
-  submitAnswer: publicProcedure
+  // Buzz in on the current question (buzzer mode). The queue goes by the
+  // time the buzz reaches the database, so clients send no time of their own
+  buzz: publicProcedure
     .input(
       z.object({
         playerId: z.string(),
+        playerSecret: z.string().optional(), // Not needed for the host player
         sessionId: z.number(),
         questionId: z.number(),
-        selectedOptionIds: z.array(z.number()),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // Verify session is in active state
-      const [session] = await ctx.db
-        .select()
-        .from(gameSessionsTable)
-        .where(eq(gameSessionsTable.id, input.sessionId))
-
-      if (!session) {
-        throw new TRPCError({
-          code: `NOT_FOUND`,
-          message: `Game session not found`,
-        })
-      }
+      const session = await getOpenQuestionSession(
+        ctx.db,
+        input.sessionId,
+        input.questionId
+      )
+      await assertActingAsPlayer(
+        ctx,
+        session,
+        input.playerId,
+        input.playerSecret
+      )
 
-      if (session.status !== `active`) {
+      if (!session.buzzer_mode) {
         throw new TRPCError({
           code: `BAD_REQUEST`,
-          message: `Cannot submit answer when game is not active`,
+          message: `This game isn't played with buzzers`,
         })
       }
 
-      if (session.current_question_id !== input.questionId) {
-        throw new TRPCError({
-          code: `BAD_REQUEST`,
-          message: `This is not the current question`,
-        })
-      }
+      const { player } = await getEligiblePlayer(
+        ctx.db,
+        session,
+        input.playerId
+      )
 
-      // Verify player exists and belongs to session
-      const [player] = await ctx.db
-        .select()
-        .from(playersTable)
-        .where(
-          and(
-            eq(playersTable.id, input.playerId),
-            eq(playersTable.session_id, input.sessionId)
-          )
-        )
+      const result = await ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        const [buzz] = await tx
+          .insert(buzzesTable)
+          .values({
+            session_id: session.id,
+            question_id: input.questionId,
+            player_id: player.id,
+          })
+          .onConflictDoNothing()
+          .returning()
+
+        if (!buzz) {
+          throw new TRPCError({
+            code: `CONFLICT`,
+            message: `You already buzzed in on this question`,
+          })
+        }
+
+        return { item: buzz, txid }
+      })
+
+      return result
+    }),
+
+  // Submit an answer (for players)
+  submitAnswer: publicProcedure
+    .input(
+      z.object({
+        playerId: z.string(),
+        playerSecret: z.string().optional(), // Not needed for the host player
+        sessionId: z.number(),
+        questionId: z.number(),
+        selectedOptionIds: z.array(z.number()).default([]),
+        textAnswer: z.string().max(200).optional(), // Free-text questions
+        numericGuess: z
+          .number()
+          .min(-MAX_NUMERIC_GUESS)
+          .max(MAX_NUMERIC_GUESS)
+          .optional(), // Numeric questions
+        pairMatches: z
+          .array(z.object({ left_id: z.number(), right_id: z.number() }))
+          .default([]), // Matching questions
+        tapX: z.number().min(0).max(1).optional(), // Hotspot questions, as a
+        tapY: z.number().min(0).max(1).optional(), // fraction of the image
+        votedPlayerId: z.string().optional(), // Polls of the session's players
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const session = await getOpenQuestionSession(
+        ctx.db,
+        input.sessionId,
+        input.questionId
+      )
+      await assertActingAsPlayer(
+        ctx,
+        session,
+        input.playerId,
+        input.playerSecret
+      )
+      const { player, captainIds } = await getEligiblePlayer(
+        ctx.db,
+        session,
+        input.playerId
+      )
+      const isTiebreaker = session.tied_player_ids.length > 0
 
-      if (!player) {
+      // In buzzer mode players answer one at a time, in buzz order
+      if (
+        session.buzzer_mode &&
+        (await getAnsweringBuzzer(ctx.db, session.id, input.questionId)) !==
+          player.id
+      ) {
         throw new TRPCError({
-          code: `NOT_FOUND`,
-          message: `Player not found in this session`,
+          code: `FORBIDDEN`,
+          message: `Buzz in and wait for your turn to answer`,
         })
       }
 
@@ -441,33 +2275,187 @@ export const gameRouter = router({
         .where(eq(answerOptionsTable.question_id, input.questionId))
 
       // Calculate points
-      const correctOptionIds = options
-        .filter((o) => o.is_correct)
-        .map((o) => o.id)
+      const correctOptionIds = getAnswerKey(question.question_type, options)
       const incorrectOptionIds = options
         .filter((o) => !o.is_correct)
         .map((o) => o.id)
+      const pairs = await getPairs(
+        ctx.db,
+        question.question_type,
+        input.questionId
+      )
+
+      // Free-text answers are graded against the accepted answers first
+      const isTextQuestion = question.question_type === `text`
+      const textAnswer = input.textAnswer?.trim() ?? ``
+      if (isTextQuestion && !textAnswer) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Type an answer before submitting`,
+        })
+      }
+
+      // Numeric guesses within the tolerance band score straight away. In
+      // closest-wins mode they are graded at the reveal
+      const isNumericQuestion = question.question_type === `numeric`
+      if (isNumericQuestion && input.numericGuess === undefined) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Enter a number before submitting`,
+        })
+      }
+
+      // Ordering answers must place every item exactly once
+      if (
+        question.question_type === `ordering` &&
+        !isExactMatch(
+          options.map((o) => o.id),
+          input.selectedOptionIds
+        )
+      ) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Put every item in order before submitting`,
+        })
+      }
+
+      // Matching answers must put each left-hand item with a different
+      // right-hand item, every one of them from this question
+      const isMatchingQuestion = question.question_type === `matching`
+      if (
+        isMatchingQuestion &&
+        !(
+          isExactMatch(
+            pairs.map((p) => p.id),
+            input.pairMatches.map((m) => m.left_id)
+          ) &&
+          isExactMatch(
+            pairs.map((p) => p.right_id),
+            input.pairMatches.map((m) => m.right_id)
+          )
+        )
+      ) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Match every item before submitting`,
+        })
+      }
+
+      // Hotspot taps score when they land in one of the image's regions
+      const isHotspotQuestion = question.question_type === `hotspot`
+      if (
+        isHotspotQuestion &&
+        (input.tapX === undefined || input.tapY === undefined)
+      ) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Tap the picture before submitting`,
+        })
+      }
 
-      let points = 0
-      if (question.question_type === `single`) {
-        // Single answer: 1 point if correct, 0 if wrong
-        if (
+      // Poll votes go to one of the poll's options, or to one of the
+      // session's players. They're never right until a majority-scored poll
+      // is revealed
+      const isPoll = question.question_type === `poll`
+      const isPlayerPoll = isPoll && question.poll_source === `players`
+      if (
+        isPoll &&
+        !isPlayerPoll &&
+        !(
           input.selectedOptionIds.length === 1 &&
-          correctOptionIds.includes(input.selectedOptionIds[0])
-        ) {
-          points = 1
-        }
-      } else {
-        // Multi-select: +1 for each correct selected, -1 for each incorrect selected
-        for (const selectedId of input.selectedOptionIds) {
-          if (correctOptionIds.includes(selectedId)) {
-            points += 1
-          } else if (incorrectOptionIds.includes(selectedId)) {
-            points -= 1
-          }
+          options.some((o) => o.id === input.selectedOptionIds[0])
+        )
+      ) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Pick an option before submitting`,
+        })
+      }
+      if (isPlayerPoll) {
+        const [votedPlayer] = input.votedPlayerId
+          ? await ctx.db
+              .select()
+              .from(playersTable)
+              .where(
+                and(
+                  eq(playersTable.id, input.votedPlayerId),
+                  eq(playersTable.session_id, input.sessionId)
+                )
+              )
+          : []
+        if (!votedPlayer) {
+          throw new TRPCError({
+            code: `BAD_REQUEST`,
+            message: `Pick a player before submitting`,
+          })
         }
       }
 
+      const isGraded = isGradedAnswer(question.question_type)
+      const isGradedCorrect = isTextQuestion
+        ? isAcceptedAnswer(textAnswer, question.accepted_answers)
+        : isHotspotQuestion
+          ? isTapInRegions(
+              { x: input.tapX!, y: input.tapY! },
+              question.hotspot_regions
+            )
+          : isNumericQuestion &&
+            question.numeric_scoring === `tolerance` &&
+            question.numeric_answer !== null &&
+            isWithinTolerance(
+              input.numericGuess!,
+              question.numeric_answer,
+              question.numeric_tolerance
+            )
+
+      const isFinal = scoresAsFinalQuestion(session)
+      const scoringInput: ScoringInput = isGraded
+        ? getGradedScoringInput(isGradedCorrect, isFinal)
+        : isMatchingQuestion
+          ? getMatchingScoringInput(pairs, input.pairMatches, isFinal)
+          : {
+              questionType: question.question_type,
+              correctOptionIds,
+              incorrectOptionIds,
+              selectedOptionIds: input.selectedOptionIds,
+              isFinalQuestion: isFinal,
+            }
+      const isCorrect = isGraded
+        ? isGradedCorrect
+        : isFullyCorrect(
+            scoringInput.questionType,
+            scoringInput.correctOptionIds,
+            scoringInput.selectedOptionIds
+          )
+
+      // Score with the strategy chosen for this session
+      const strategy = getScoringStrategy(session.scoring_strategy)
+      let points = strategy.score(scoringInput)
+
+      // Speed bonus (if enabled for this session) rewards early answers
+      const submittedAt = new Date()
+      const speedBonus = calculateSpeedBonus({
+        basePoints: points,
+        maxBonus: session.speed_bonus_max,
+        roundStartedAt: session.round_started_at,
+        roundDurationSeconds: session.round_duration_seconds,
+        submittedAt,
+      })
+      points += speedBonus
+
+      // Streak bonus (if enabled) once the player has enough correct in a row
+      const streak = isCorrect
+        ? (await getPlayerStreak(
+            ctx.db,
+            input.sessionId,
+            input.playerId,
+            input.questionId
+          )) + 1
+        : 0
+      const streakBonus =
+        streak >= STREAK_BONUS_THRESHOLD ? session.streak_bonus_points : 0
+      points += streakBonus
+
       const result = await ctx.db.transaction(async (tx) => {
         const txid = await generateTxId(tx)
 
@@ -478,11 +2466,39 @@ export const gameRouter = router({
             player_id: input.playerId,
             session_id: input.sessionId,
             question_id: input.questionId,
-            selected_option_ids: input.selectedOptionIds,
+            selected_option_ids:
+              isScoredFromOptions(question.question_type) ||
+              (isPoll && !isPlayerPoll)
+                ? input.selectedOptionIds
+                : [],
+            text_answer: isTextQuestion ? textAnswer : null,
+            numeric_guess: isNumericQuestion ? input.numericGuess! : null,
+            pair_matches: isMatchingQuestion ? input.pairMatches : [],
+            tap_x: isHotspotQuestion ? input.tapX! : null,
+            tap_y: isHotspotQuestion ? input.tapY! : null,
+            voted_player_id: isPlayerPoll ? input.votedPlayerId! : null,
             points_earned: points,
+            speed_bonus: speedBonus,
+            streak_bonus: streakBonus,
+            is_correct: isCorrect,
+            submitted_at: submittedAt,
           })
           .returning()
 
+        // Pass the buzzer turn on to the next in the queue
+        if (session.buzzer_mode) {
+          await tx
+            .update(buzzesTable)
+            .set({ answered_at: submittedAt })
+            .where(
+              and(
+                eq(buzzesTable.session_id, input.sessionId),
+                eq(buzzesTable.question_id, input.questionId),
+                eq(buzzesTable.player_id, input.playerId)
+              )
+            )
+        }
+
         // Update player score
         const [updatedPlayer] = await tx
           .update(playersTable)
@@ -511,28 +2527,66 @@ export const gameRouter = router({
             )
           )
 
-        const allAnswered = responses.length >= connectedPlayers.length
-
-        // Auto-reveal if all players have answered
-        if (allAnswered) {
-          await tx
-            .update(gameSessionsTable)
-            .set({ status: `revealing` })
-            .where(eq(gameSessionsTable.id, input.sessionId))
-        }
+        // In captain mode we only wait for the connected captains, and in a
+        // tiebreaker for the connected tied players
+        const expectedAnswers = isTiebreaker
+          ? connectedPlayers.filter((p) =>
+              session.tied_player_ids.includes(p.id)
+            ).length
+          : session.team_mode === `captain`
+            ? connectedPlayers.filter((p) => captainIds.includes(p.id)).length
+            : connectedPlayers.length
+        const allAnswered = responses.length >= expectedAnswers
+
+        // Auto-reveal if all players have answered, or in buzzer mode as
+        // soon as someone gets it right
+        const [revealedSession] =
+          allAnswered || (session.buzzer_mode && isCorrect)
+          ? await tx
+              .update(gameSessionsTable)
+              .set(revealAnswer(session))
+              .where(eq(gameSessionsTable.id, input.sessionId))
+              .returning()
+          : []
+        if (revealedSession) await completeReveal(tx, session)
 
         return {
           response,
           points,
+          speedBonus,
+          streak,
+          streakBonus,
           newScore: updatedPlayer.score,
           allAnswered,
+          revealedSession: revealedSession ?? null,
           txid,
         }
       })
 
+      if (result.revealedSession) {
+        clearSessionTimer(input.sessionId)
+        scheduleFinalResults(ctx.db, result.revealedSession)
+        scheduleAutopilot(ctx.db, result.revealedSession)
+      }
+
       return result
     }),
 
+  // Apply time-based transitions that are due (reveal an expired round, end
+  // the game after its final reveal, advance on autopilot). Player screens
+  // call this when their countdown runs out, so the game still moves on if
+  // the server-side timer was lost (restart, serverless platform).
+  tick: publicProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const result =
+        (await expireRoundIfDue(ctx.db, input.sessionId)) ??
+        (await endGameIfDue(ctx.db, input.sessionId)) ??
+        (await advanceIfAutopilotDue(ctx.db, input.sessionId))
+
+      return { txid: result?.txid ?? null }
+    }),
+
   // Get current question with options (for players during active state)
   getCurrentQuestion: publicProcedure
     .input(z.object({ sessionId: z.number() }))
@@ -561,21 +2615,28 @@ export const gameRouter = router({
         .where(eq(answerOptionsTable.question_id, question.id))
         .orderBy(answerOptionsTable.display_order)
 
-      // During active state, don't reveal which answers are correct
-      const sanitizedOptions =
-        session.status === `active`
-          ? options.map((o) => ({ ...o, is_correct: false }))
-          : options
+      // Until the round is revealed, don't give the answers away
+      if (session.status === `active` || session.status === `paused`) {
+        return {
+          ...applyQuestionKey(question, null),
+          options: applyAnswerKey(question.question_type, options, null),
+          roundStartedAt: session.round_started_at,
+          roundDurationSeconds: session.round_duration_seconds,
+        }
+      }
 
       return {
         ...question,
-        options: sanitizedOptions,
+        options,
         roundStartedAt: session.round_started_at,
         roundDurationSeconds: session.round_duration_seconds,
       }
     }),
 
-  // Get round statistics (for reveal screen)
+  // Get round statistics (for reveal screen). Players only sync their own
+  // responses, so this is how they see how everyone did: counts and
+  // anonymous spreads, never who answered what, and only once the session
+  // has revealed the question.
   getRoundStats: publicProcedure
     .input(
       z.object({
@@ -584,6 +2645,20 @@ export const gameRouter = router({
       })
     )
     .query(async ({ ctx, input }) => {
+      const [asked] = await ctx.db
+        .select()
+        .from(usedQuestionsTable)
+        .where(
+          and(
+            eq(usedQuestionsTable.session_id, input.sessionId),
+            eq(usedQuestionsTable.question_id, input.questionId)
+          )
+        )
+
+      if (!asked?.answer_key) {
+        return null
+      }
+
       // Get all responses for this question
       const responses = await ctx.db
         .select()
@@ -595,25 +2670,9 @@ export const gameRouter = router({
           )
         )
 
-      // Get the correct answers
-      const options = await ctx.db
-        .select()
-        .from(answerOptionsTable)
-        .where(eq(answerOptionsTable.question_id, input.questionId))
-
-      const correctOptionIds = options
-        .filter((o) => o.is_correct)
-        .map((o) => o.id)
-
-      // Calculate how many got it right
-      let correctCount = 0
-      for (const response of responses) {
-        const selectedIds = response.selected_option_ids
-        const isCorrect =
-          selectedIds.length === correctOptionIds.length &&
-          selectedIds.every((id) => correctOptionIds.includes(id))
-        if (isCorrect) correctCount++
-      }
+      // Calculate how many got it right. Responses store their grade, which
+      // covers free-text answers and any admin overrides
+      const correctCount = responses.filter((r) => r.is_correct).length
 
       const totalResponses = responses.length
       const percentCorrect =
@@ -621,15 +2680,103 @@ export const gameRouter = router({
           ? Math.round((correctCount / totalResponses) * 100)
           : 0
 
-      return {
+      const stats = {
         totalResponses,
         correctCount,
         percentCorrect,
+        optionCounts: null,
+        votes: null,
+        guessBuckets: null,
+        taps: null,
+      }
+
+      const [question] = await ctx.db
+        .select()
+        .from(questionsTable)
+        .where(eq(questionsTable.id, input.questionId))
+
+      // How many picked each option, for the reveal's bar chart. Counts
+      // only, so nobody's answer is given away
+      if (question && hasAnswerOptions(question.question_type)) {
+        const options = await ctx.db
+          .select({ id: answerOptionsTable.id })
+          .from(answerOptionsTable)
+          .where(eq(answerOptionsTable.question_id, question.id))
+          .orderBy(answerOptionsTable.display_order)
+
+        return {
+          ...stats,
+          optionCounts: countOptionPicks(
+            options.map((o) => o.id),
+            responses
+          ),
+        }
+      }
+
+      // How the guesses spread around the true value
+      if (
+        question?.question_type === `numeric` &&
+        question.numeric_answer !== null
+      ) {
+        return {
+          ...stats,
+          guessBuckets: bucketGuesses(
+            responses
+              .filter((r) => r.numeric_guess !== null)
+              .map((r) => r.numeric_guess!),
+            question.numeric_answer
+          ),
+        }
+      }
+
+      // Where everyone tapped, for the heat map
+      if (question?.question_type === `hotspot`) {
+        return {
+          ...stats,
+          taps: responses
+            .filter((r) => r.tap_x !== null && r.tap_y !== null)
+            .map((r) => ({ x: r.tap_x!, y: r.tap_y! })),
+        }
+      }
+
+      if (question?.question_type !== `poll`) {
+        return stats
+      }
+
+      // Polls have no right answer: report how the votes split between the
+      // poll's options, or the session's players, instead. Majority-scored
+      // polls still count who sided with the majority
+      const choices =
+        question.poll_source === `players`
+          ? (
+              await ctx.db
+                .select({ id: playersTable.id })
+                .from(playersTable)
+                .where(eq(playersTable.session_id, input.sessionId))
+            ).map((p) => p.id)
+          : (
+              await ctx.db
+                .select({ id: answerOptionsTable.id })
+                .from(answerOptionsTable)
+                .where(eq(answerOptionsTable.question_id, question.id))
+                .orderBy(answerOptionsTable.display_order)
+            ).map((o) => String(o.id))
+
+      return {
+        ...stats,
+        percentCorrect: isUnscoredPoll(question) ? null : percentCorrect,
+        votes: countVotes(
+          choices,
+          responses
+            .map(getPollChoice)
+            .filter((choice): choice is string => choice !== null)
+        ),
       }
     }),
 
-  // Get a player's response for current question
-  getPlayerResponse: publicProcedure
+  // Get a player's response for current question. Admin only: players
+  // sync their own responses, proven with their secret
+  getPlayerResponse: adminProcedure
     .input(
       z.object({
         playerId: z.string(),
@@ -650,6 +2797,54 @@ export const gameRouter = router({
       return response || null
     }),
 
+  // Answer keys of the questions revealed in a player's session. The session
+  // is the one the player joined, proven with their secret, so nobody reads
+  // another game's keys to questions they're still to be asked
+  getAnswerKeys: publicProcedure
+    .input(
+      z.object({
+        playerId: z.string(),
+        playerSecret: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const playerId = await verifyPlayerSecret(
+        ctx.db,
+        input.playerId,
+        input.playerSecret
+      )
+      if (!playerId) {
+        throw new TRPCError({
+          code: `FORBIDDEN`,
+          message: `This player belongs to someone else`,
+        })
+      }
+
+      const [player] = await ctx.db
+        .select()
+        .from(playersTable)
+        .where(eq(playersTable.id, playerId))
+      const [session] = player
+        ? await ctx.db
+            .select()
+            .from(gameSessionsTable)
+            .where(eq(gameSessionsTable.id, player.session_id))
+        : []
+      if (!session) {
+        return []
+      }
+
+      const usedQuestions = await ctx.db
+        .select({
+          question_id: usedQuestionsTable.question_id,
+          answer_key: usedQuestionsTable.answer_key,
+        })
+        .from(usedQuestionsTable)
+        .where(eq(usedQuestionsTable.session_id, session.id))
+
+      return getRevealedAnswerKeys(session, usedQuestions)
+    }),
+
   // Get remaining questions count
   getRemainingQuestionsCount: publicProcedure
     .input(z.object({ sessionId: z.number() }))
@@ -663,20 +2858,28 @@ export const gameRouter = router({
         return { total: 0, used: 0, remaining: 0 }
       }
 
-      const totalQuestions = await ctx.db
-        .select()
-        .from(questionsTable)
-        .where(eq(questionsTable.bank_id, session.bank_id))
-
+      // Voided questions don't count towards the game's progress
       const usedQuestions = await ctx.db
         .select()
         .from(usedQuestionsTable)
-        .where(eq(usedQuestionsTable.session_id, input.sessionId))
+        .where(
+          and(
+            eq(usedQuestionsTable.session_id, input.sessionId),
+            isNull(usedQuestionsTable.voided_at)
+          )
+        )
+
+      // Once the game has started, whatever is left in the deck is still
+      // to be asked
+      const remaining =
+        session.status === `lobby`
+          ? await getPlannedQuestionCount(ctx.db, session)
+          : session.deck_question_ids.length
 
       return {
-        total: totalQuestions.length,
+        total: usedQuestions.length + remaining,
         used: usedQuestions.length,
-        remaining: totalQuestions.length - usedQuestions.length,
+        remaining,
       }
     }),
 })
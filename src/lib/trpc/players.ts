@@ -1,18 +1,86 @@
-import { router, publicProcedure, generateTxId } from "@/lib/trpc"
+import {
+  router,
+  adminProcedure,
+  publicProcedure,
+  generateTxId,
+  type Context,
+} from "@/lib/trpc"
 import { z } from "zod"
 import { TRPCError } from "@trpc/server"
 import { eq, and } from "drizzle-orm"
-import { gameSessionsTable, playersTable } from "@/db/schema"
+import {
+  gameSessionsTable,
+  playersTable,
+  playerSecretsTable,
+  type GameSession,
+} from "@/db/schema"
 import { randomUUID } from "crypto"
+import { verifyPlayerSecret } from "@/lib/player-secrets"
+
+/**
+ * Makes sure the caller may act as the player: they sent the player's secret,
+ * or they're the admin running the session and the player is its host, who
+ * plays from the admin screen.
+ */
+export async function assertActingAsPlayer(
+  ctx: Context,
+  session: Pick<GameSession, `admin_id` | `host_player_id`>,
+  playerId: string,
+  playerSecret: string | undefined
+): Promise<void> {
+  if (
+    playerId === session.host_player_id &&
+    ctx.session?.user.id === session.admin_id
+  ) {
+    return
+  }
+
+  if (!(await verifyPlayerSecret(ctx.db, playerId, playerSecret))) {
+    throw new TRPCError({
+      code: `FORBIDDEN`,
+      message: `This player belongs to someone else`,
+    })
+  }
+}
+
+// The secret a returning player keeps using: the one they sent, checked, or a
+// new one if they joined before secrets were handed out and have none yet.
+// The host player never gets one, as the admin screen plays for them
+async function getReturningPlayerSecret(
+  ctx: Context,
+  session: Pick<GameSession, `host_player_id`>,
+  playerId: string,
+  playerSecret: string | undefined
+): Promise<string> {
+  if (await verifyPlayerSecret(ctx.db, playerId, playerSecret)) {
+    return playerSecret!
+  }
+
+  if (playerId !== session.host_player_id) {
+    const [issued] = await ctx.db
+      .insert(playerSecretsTable)
+      .values({ player_id: playerId, secret: randomUUID() })
+      .onConflictDoNothing()
+      .returning()
+    if (issued) return issued.secret
+  }
+
+  throw new TRPCError({
+    code: `FORBIDDEN`,
+    message: `This player belongs to someone else`,
+  })
+}
 
 export const playersRouter = router({
-  // Join a game session
+  // Join a game session. New players get a secret along with their ID,
+  // which proves who they are from then on (see src/lib/player-secrets.ts)
   join: publicProcedure
     .input(
       z.object({
         sessionId: z.number(),
         displayName: z.string().min(3).max(50),
         playerId: z.string().optional(), // For rejoin
+        playerSecret: z.string().optional(), // For rejoin
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -61,6 +129,13 @@ export const playersRouter = router({
           (p) => p.id === input.playerId
         )
         if (existingPlayer) {
+          const secret = await getReturningPlayerSecret(
+            ctx,
+            session,
+            existingPlayer.id,
+            input.playerSecret
+          )
+
           // Update player name and reconnect
           const result = await ctx.db.transaction(async (tx) => {
             const txid = await generateTxId(tx)
@@ -75,7 +150,7 @@ export const playersRouter = router({
               .where(eq(playersTable.id, input.playerId!))
               .returning()
 
-            return { player: updated, txid }
+            return { player: updated, secret, txid }
           })
 
           return result
@@ -84,6 +159,7 @@ export const playersRouter = router({
 
       // Create new player
       const playerId = input.playerId || randomUUID()
+      const secret = randomUUID()
 
       const result = await ctx.db.transaction(async (tx) => {
         const txid = await generateTxId(tx)
@@ -97,17 +173,162 @@ export const playersRouter = router({
           })
           .returning()
 
-        return { player: newPlayer, txid }
+        await tx.insert(playerSecretsTable).values({
+          player_id: playerId,
+          secret,
+        })
+
+        return { player: newPlayer, secret, txid }
       })
 
       return result
     }),
 
-  // Rejoin an existing session (for when player returns)
+  // Let the admin play too: gives the host a player record in the session
+  // (or renames it), answered from the admin screen
+  joinAsHost: adminProcedure
+    .input(
+      z.object({
+        sessionId: z.number(),
+        displayName: z.string().min(3).max(50),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
+
+      if (session.status !== `lobby`) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Cannot join a game that has already started`,
+        })
+      }
+
+      const existingPlayers = await ctx.db
+        .select()
+        .from(playersTable)
+        .where(eq(playersTable.session_id, input.sessionId))
+
+      const nameTaken = existingPlayers.some(
+        (p) =>
+          p.display_name.toLowerCase() === input.displayName.toLowerCase() &&
+          p.id !== session.host_player_id
+      )
+
+      if (nameTaken) {
+        throw new TRPCError({
+          code: `CONFLICT`,
+          message: `This name is already taken. Please choose a different name.`,
+        })
+      }
+
+      const hostPlayer = existingPlayers.find(
+        (p) => p.id === session.host_player_id
+      )
+
+      return ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        if (hostPlayer) {
+          const [updated] = await tx
+            .update(playersTable)
+            .set({ display_name: input.displayName })
+            .where(eq(playersTable.id, hostPlayer.id))
+            .returning()
+
+          return { player: updated, txid }
+        }
+
+        const [newPlayer] = await tx
+          .insert(playersTable)
+          .values({
+            id: randomUUID(),
+            session_id: input.sessionId,
+            display_name: input.displayName,
+          })
+          .returning()
+
+        await tx
+          .update(gameSessionsTable)
+          .set({ host_player_id: newPlayer.id })
+          .where(eq(gameSessionsTable.id, input.sessionId))
+
+        return { player: newPlayer, txid }
+      })
+    }),
+
+  // Stop the host playing (while in lobby), removing their player record
+  leaveAsHost: adminProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
+
+      if (session.status !== `lobby`) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `The host can only stop playing while in lobby`,
+        })
+      }
+
+      if (!session.host_player_id) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `The host isn't playing in this game`,
+        })
+      }
+
+      const hostPlayerId = session.host_player_id
+
+      return ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        await tx
+          .update(gameSessionsTable)
+          .set({ host_player_id: null })
+          .where(eq(gameSessionsTable.id, input.sessionId))
+
+        await tx.delete(playersTable).where(eq(playersTable.id, hostPlayerId))
+
+        return { txid }
+      })
+    }),
+
+  // Rejoin an existing session (for when player returns). Hands back the
+  // player's secret, which is new if they didn't have one yet
   rejoin: publicProcedure
     .input(
       z.object({
         playerId: z.string(),
+        playerSecret: z.string().optional(),
         sessionId: z.number(),
       })
     )
@@ -143,6 +364,13 @@ export const playersRouter = router({
         })
       }
 
+      const secret = await getReturningPlayerSecret(
+        ctx,
+        session,
+        player.id,
+        input.playerSecret
+      )
+
       // Mark player as connected
       const result = await ctx.db.transaction(async (tx) => {
         const txid = await generateTxId(tx)
@@ -156,7 +384,7 @@ export const playersRouter = router({
           .where(eq(playersTable.id, input.playerId))
           .returning()
 
-        return { player: updated, session, txid }
+        return { player: updated, session, secret, txid }
       })
 
       return result
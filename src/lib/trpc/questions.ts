@@ -1,21 +1,59 @@
 import { router, adminProcedure, generateTxId } from "@/lib/trpc"
 import { z } from "zod"
 import { TRPCError } from "@trpc/server"
-import { eq, desc } from "drizzle-orm"
+import { eq, desc, inArray } from "drizzle-orm"
 import { generateText } from "ai"
 import { anthropic } from "@ai-sdk/anthropic"
 import { processImage } from "@/lib/image-processing"
+import { isScoredFromOptions } from "@/lib/scoring"
+import { toOrderingOptionRows } from "@/lib/ordering"
+import { generateRightIds, getMatchingChoices } from "@/lib/matching"
 import {
   questionsTable,
   answerOptionsTable,
+  answerPairsTable,
   questionBanksTable,
+  type AnswerOption,
+  type AnswerPair,
 } from "@/db/schema"
 
+// An accepted answer for a free-text question
+const acceptedAnswerInput = z.string().trim().min(1).max(200)
+
+// A pair of items that belong together in a matching question
+const answerPairInput = z.object({
+  left_text: z.string().trim().min(1).max(200),
+  right_text: z.string().trim().min(1).max(200),
+})
+
+// A correct region of a hotspot question's image, in fractions of its size
+const hotspotRegionInput = z
+  .object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().positive().max(1),
+    height: z.number().positive().max(1),
+  })
+  .refine((r) => r.x + r.width <= 1 && r.y + r.height <= 1, {
+    message: `Regions must fit inside the image`,
+  })
+
+const questionTypeInput = z.enum([
+  `single`,
+  `multi`,
+  `text`,
+  `numeric`,
+  `ordering`,
+  `matching`,
+  `hotspot`,
+  `poll`,
+])
+
 // Input schema for creating a question with its answer options
 const createQuestionInput = z.object({
   bank_id: z.number(),
   question_text: z.string().min(1),
-  question_type: z.enum([`single`, `multi`]).default(`single`),
+  question_type: questionTypeInput.default(`single`),
   explanation: z.string().nullable().optional(),
   options: z
     .array(
@@ -25,15 +63,23 @@ const createQuestionInput = z.object({
         display_order: z.number().optional(),
       })
     )
-    .min(2)
-    .max(6),
+    .max(6)
+    .default([]), // Items in their correct order for ordering questions
+  pairs: z.array(answerPairInput).max(6).default([]), // Matching questions only
+  accepted_answers: z.array(acceptedAnswerInput).max(20).default([]),
+  numeric_answer: z.number().finite().nullable().default(null),
+  numeric_scoring: z.enum([`closest`, `tolerance`]).default(`closest`),
+  numeric_tolerance: z.number().finite().min(0).default(0),
+  hotspot_regions: z.array(hotspotRegionInput).max(10).default([]),
+  poll_source: z.enum([`static`, `players`]).default(`static`),
+  poll_scoring: z.enum([`none`, `majority`]).default(`none`),
 })
 
 // Input schema for updating a question
 const updateQuestionInput = z.object({
   id: z.number(),
   question_text: z.string().min(1).optional(),
-  question_type: z.enum([`single`, `multi`]).optional(),
+  question_type: questionTypeInput.optional(),
   explanation: z.string().nullable().optional(),
   options: z
     .array(
@@ -44,11 +90,155 @@ const updateQuestionInput = z.object({
         display_order: z.number().optional(),
       })
     )
-    .min(2)
     .max(6)
     .optional(),
+  pairs: z.array(answerPairInput).max(6).optional(),
+  accepted_answers: z.array(acceptedAnswerInput).max(20).optional(),
+  numeric_answer: z.number().finite().nullable().optional(),
+  numeric_scoring: z.enum([`closest`, `tolerance`]).optional(),
+  numeric_tolerance: z.number().finite().min(0).optional(),
+  hotspot_regions: z.array(hotspotRegionInput).max(10).optional(),
+  poll_source: z.enum([`static`, `players`]).optional(),
+  poll_scoring: z.enum([`none`, `majority`]).optional(),
 })
 
+// Free-text questions need an accepted answer, numeric ones the true value,
+// hotspot ones a region, ordering ones 3-6 items, matching ones 3-6 pairs,
+// polls of the players nothing, other polls at least two options, and the
+// others at least two options with one marked correct
+function validateAnswers(
+  question: {
+    question_type: string
+    accepted_answers: string[]
+    numeric_answer: number | null
+    hotspot_regions: unknown[]
+    poll_source: string
+  },
+  options: { is_correct: boolean }[],
+  pairs: { left_text: string; right_text: string }[]
+) {
+  if (question.question_type === `text`) {
+    if (question.accepted_answers.length === 0) {
+      throw new TRPCError({
+        code: `BAD_REQUEST`,
+        message: `Free-text questions need at least one accepted answer`,
+      })
+    }
+    return
+  }
+
+  if (question.question_type === `numeric`) {
+    if (question.numeric_answer === null) {
+      throw new TRPCError({
+        code: `BAD_REQUEST`,
+        message: `Numeric questions need the true answer`,
+      })
+    }
+    return
+  }
+
+  if (question.question_type === `hotspot`) {
+    if (question.hotspot_regions.length === 0) {
+      throw new TRPCError({
+        code: `BAD_REQUEST`,
+        message: `Hotspot questions need at least one region on the image`,
+      })
+    }
+    return
+  }
+
+  if (question.question_type === `matching`) {
+    if (pairs.length < 3) {
+      throw new TRPCError({
+        code: `BAD_REQUEST`,
+        message: `Matching questions need at least 3 pairs`,
+      })
+    }
+    return
+  }
+
+  if (question.question_type === `ordering`) {
+    if (options.length < 3) {
+      throw new TRPCError({
+        code: `BAD_REQUEST`,
+        message: `Ordering questions need at least 3 items`,
+      })
+    }
+    return
+  }
+
+  if (question.question_type === `poll` && question.poll_source === `players`) {
+    return
+  }
+
+  if (options.length < 2) {
+    throw new TRPCError({
+      code: `BAD_REQUEST`,
+      message: `At least 2 options are required`,
+    })
+  }
+
+  if (question.question_type === `poll`) {
+    return
+  }
+
+  if (!options.some((o) => o.is_correct)) {
+    throw new TRPCError({
+      code: `BAD_REQUEST`,
+      message: `At least one answer must be marked as correct`,
+    })
+  }
+}
+
+// Whether a question keeps answer options: the ones scored from them, and
+// polls with written-out choices (polls of the players vote for a player)
+function storesOptions(question: {
+  question_type: string
+  poll_source: string
+}): boolean {
+  if (question.question_type === `poll`) {
+    return question.poll_source === `static`
+  }
+  return isScoredFromOptions(question.question_type)
+}
+
+// Rows to insert for a question's options. Ordering items arrive in their
+// correct order and are shuffled, see src/lib/ordering.ts
+function toOptionRows(
+  questionId: number,
+  questionType: string,
+  options: { option_text: string; is_correct: boolean; display_order?: number }[]
+) {
+  if (questionType === `ordering`) {
+    return toOrderingOptionRows(questionId, options)
+  }
+
+  return options.map((opt, idx) => ({
+    question_id: questionId,
+    option_text: opt.option_text,
+    is_correct: questionType !== `poll` && opt.is_correct, // Polls have none
+    correct_position: null,
+    display_order: opt.display_order ?? idx,
+  }))
+}
+
+// Rows to insert for a matching question's pairs, in the order authored.
+// Each right-hand item gets a fresh random ID of its own, so the IDs players
+// match with don't give the answer away
+function toPairRows(
+  questionId: number,
+  pairs: { left_text: string; right_text: string }[]
+) {
+  const rightIds = generateRightIds(pairs.length)
+  return pairs.map((pair, idx) => ({
+    question_id: questionId,
+    left_text: pair.left_text,
+    right_text: pair.right_text,
+    right_id: rightIds[idx],
+    display_order: idx,
+  }))
+}
+
 export const questionsRouter = router({
   // List questions in a bank
   listByBank: adminProcedure
@@ -88,12 +278,19 @@ export const questionsRouter = router({
           {} as Record<number, typeof allOptions>
         )
 
-      // Combine questions with their options
+      const allPairs = await ctx.db
+        .select()
+        .from(answerPairsTable)
+        .where(inArray(answerPairsTable.question_id, questionIds))
+        .orderBy(answerPairsTable.display_order)
+
+      // Combine questions with their options and pairs
       return questions.map((q) => ({
         ...q,
         options: (optionsByQuestionId[q.id] || []).sort(
           (a, b) => a.display_order - b.display_order
         ),
+        pairs: allPairs.filter((p) => p.question_id === q.id),
       }))
     }),
 
@@ -119,7 +316,13 @@ export const questionsRouter = router({
         .where(eq(answerOptionsTable.question_id, input.id))
         .orderBy(answerOptionsTable.display_order)
 
-      return { ...question, options }
+      const pairs = await ctx.db
+        .select()
+        .from(answerPairsTable)
+        .where(eq(answerPairsTable.question_id, input.id))
+        .orderBy(answerPairsTable.display_order)
+
+      return { ...question, options, pairs }
     }),
 
   // Create a new question with options
@@ -139,14 +342,8 @@ export const questionsRouter = router({
         })
       }
 
-      // Validate: at least one correct answer
-      const hasCorrectAnswer = input.options.some((o) => o.is_correct)
-      if (!hasCorrectAnswer) {
-        throw new TRPCError({
-          code: `BAD_REQUEST`,
-          message: `At least one answer must be marked as correct`,
-        })
-      }
+      validateAnswers(input, input.options, input.pairs)
+      const hasOptions = storesOptions(input)
 
       const result = await ctx.db.transaction(async (tx) => {
         const txid = await generateTxId(tx)
@@ -159,21 +356,51 @@ export const questionsRouter = router({
             question_text: input.question_text,
             question_type: input.question_type,
             explanation: input.explanation,
+            accepted_answers:
+              input.question_type === `text` ? input.accepted_answers : [],
+            numeric_answer:
+              input.question_type === `numeric` ? input.numeric_answer : null,
+            numeric_scoring: input.numeric_scoring,
+            numeric_tolerance: input.numeric_tolerance,
+            hotspot_regions:
+              input.question_type === `hotspot` ? input.hotspot_regions : [],
+            poll_source: input.poll_source,
+            poll_scoring: input.poll_scoring,
           })
           .returning()
 
-        // Create the options
-        const optionsWithOrder = input.options.map((opt, idx) => ({
-          question_id: newQuestion.id,
-          option_text: opt.option_text,
-          is_correct: opt.is_correct,
-          display_order: opt.display_order ?? idx,
-        }))
-
-        const newOptions = await tx
-          .insert(answerOptionsTable)
-          .values(optionsWithOrder)
-          .returning()
+        // Create the options (free-text, numeric, matching, hotspot and
+        // player poll questions have none)
+        const optionsWithOrder = hasOptions
+          ? toOptionRows(newQuestion.id, input.question_type, input.options)
+          : []
+
+        const newOptions =
+          optionsWithOrder.length > 0
+            ? await tx
+                .insert(answerOptionsTable)
+                .values(optionsWithOrder)
+                .returning()
+            : []
+
+        // Create the pairs (matching questions only)
+        const newPairs =
+          input.question_type === `matching`
+            ? await tx
+                .insert(answerPairsTable)
+                .values(toPairRows(newQuestion.id, input.pairs))
+                .returning()
+            : []
+
+        // Players pick from the right-hand items under their own IDs
+        const [question] =
+          newPairs.length > 0
+            ? await tx
+                .update(questionsTable)
+                .set({ matching_choices: getMatchingChoices(newPairs) })
+                .where(eq(questionsTable.id, newQuestion.id))
+                .returning()
+            : [newQuestion]
 
         // Update the bank's updated_at
         await tx
@@ -181,7 +408,10 @@ export const questionsRouter = router({
           .set({ updated_at: new Date() })
           .where(eq(questionBanksTable.id, input.bank_id))
 
-        return { item: { ...newQuestion, options: newOptions }, txid }
+        return {
+          item: { ...question, options: newOptions, pairs: newPairs },
+          txid,
+        }
       })
 
       return result
@@ -191,7 +421,7 @@ export const questionsRouter = router({
   update: adminProcedure
     .input(updateQuestionInput)
     .mutation(async ({ ctx, input }) => {
-      const { id, options, ...questionData } = input
+      const { id, options, pairs, ...questionData } = input
 
       const result = await ctx.db.transaction(async (tx) => {
         const txid = await generateTxId(tx)
@@ -215,29 +445,61 @@ export const questionsRouter = router({
           })
         }
 
-        // Update options if provided
-        let updatedOptions
-        if (options) {
-          // Validate: at least one correct answer
-          const hasCorrectAnswer = options.some((o) => o.is_correct)
-          if (!hasCorrectAnswer) {
-            throw new TRPCError({
-              code: `BAD_REQUEST`,
-              message: `At least one answer must be marked as correct`,
-            })
-          }
+        // Replace pairs if provided. Only matching questions keep theirs
+        let updatedPairs: AnswerPair[]
+        if (updatedQuestion.question_type !== `matching`) {
+          await tx
+            .delete(answerPairsTable)
+            .where(eq(answerPairsTable.question_id, id))
+          updatedPairs = []
+        } else if (pairs) {
+          await tx
+            .delete(answerPairsTable)
+            .where(eq(answerPairsTable.question_id, id))
+          updatedPairs =
+            pairs.length > 0
+              ? await tx
+                  .insert(answerPairsTable)
+                  .values(toPairRows(id, pairs))
+                  .returning()
+              : []
+        } else {
+          updatedPairs = await tx
+            .select()
+            .from(answerPairsTable)
+            .where(eq(answerPairsTable.question_id, id))
+        }
+
+        // Players pick from the right-hand items under their own IDs
+        const [question] = await tx
+          .update(questionsTable)
+          .set({ matching_choices: getMatchingChoices(updatedPairs) })
+          .where(eq(questionsTable.id, id))
+          .returning()
+
+        // Update options if provided. Free-text, numeric, matching, hotspot
+        // and player poll questions drop theirs
+        let updatedOptions: AnswerOption[]
+        if (!storesOptions(updatedQuestion)) {
+          validateAnswers(updatedQuestion, [], updatedPairs)
+
+          await tx
+            .delete(answerOptionsTable)
+            .where(eq(answerOptionsTable.question_id, id))
+          updatedOptions = []
+        } else if (options) {
+          validateAnswers(updatedQuestion, options, [])
 
           // Delete existing options and insert new ones
           await tx
             .delete(answerOptionsTable)
             .where(eq(answerOptionsTable.question_id, id))
 
-          const optionsWithOrder = options.map((opt, idx) => ({
-            question_id: id,
-            option_text: opt.option_text,
-            is_correct: opt.is_correct,
-            display_order: opt.display_order ?? idx,
-          }))
+          const optionsWithOrder = toOptionRows(
+            id,
+            updatedQuestion.question_type,
+            options
+          )
 
           updatedOptions = await tx
             .insert(answerOptionsTable)
@@ -248,6 +510,8 @@ export const questionsRouter = router({
             .select()
             .from(answerOptionsTable)
             .where(eq(answerOptionsTable.question_id, id))
+
+          validateAnswers(updatedQuestion, updatedOptions, [])
         }
 
         // Update the bank's updated_at
@@ -256,7 +520,14 @@ export const questionsRouter = router({
           .set({ updated_at: new Date() })
           .where(eq(questionBanksTable.id, updatedQuestion.bank_id))
 
-        return { item: { ...updatedQuestion, options: updatedOptions }, txid }
+        return {
+          item: {
+            ...question,
+            options: updatedOptions,
+            pairs: updatedPairs,
+          },
+          txid,
+        }
       })
 
       return result
@@ -372,6 +643,14 @@ export const questionsRouter = router({
           })
         }
 
+        // Hotspot regions are drawn on the image, so it has to stay
+        if (updated.question_type === `hotspot`) {
+          throw new TRPCError({
+            code: `BAD_REQUEST`,
+            message: `Hotspot questions need their image. Upload a new one instead`,
+          })
+        }
+
         return { txid }
       })
 
@@ -6,13 +6,16 @@ import {
 } from "@/lib/trpc"
 import { z } from "zod"
 import { TRPCError } from "@trpc/server"
-import { eq, desc, and } from "drizzle-orm"
+import { eq, desc, and, inArray } from "drizzle-orm"
 import {
   gameSessionsTable,
   questionBanksTable,
   playersTable,
   questionsTable,
+  sessionRoundsTable,
 } from "@/db/schema"
+import { SCORING_STRATEGY_IDS } from "@/lib/scoring"
+import { TEAM_MODES } from "@/lib/teams"
 
 export const sessionsRouter = router({
   // List all sessions for the current admin
@@ -113,17 +116,35 @@ export const sessionsRouter = router({
         .where(eq(playersTable.session_id, input.id))
         .orderBy(desc(playersTable.score))
 
-      // Get question count from the bank
+      // Get rounds (for sessions played in rounds)
+      const rounds = await ctx.db
+        .select()
+        .from(sessionRoundsTable)
+        .where(eq(sessionRoundsTable.session_id, input.id))
+        .orderBy(sessionRoundsTable.round_order)
+
+      // Get question count from the playlist, the rounds, or the whole bank
       const questions = await ctx.db
         .select()
         .from(questionsTable)
         .where(eq(questionsTable.bank_id, result.session.bank_id))
 
+      const availableQuestions =
+        result.session.playlist_question_ids.length > 0
+          ? result.session.playlist_question_ids.length
+          : rounds.length > 0
+            ? rounds.reduce((sum, r) => sum + r.question_count, 0)
+            : questions.length
+
       return {
         ...result.session,
         bank: result.bank,
         players,
-        totalQuestions: questions.length,
+        rounds,
+        totalQuestions:
+          result.session.question_count !== null
+            ? Math.min(availableQuestions, result.session.question_count)
+            : availableQuestions,
       }
     }),
 
@@ -141,32 +162,123 @@ export const sessionsRouter = router({
           ),
         bankId: z.number(),
         roundDurationSeconds: z.number().min(10).max(120).default(30),
+        // Fixed game length; the game ends on its own after this many
+        questionCount: z
+          .number()
+          .int()
+          .min(1)
+          .max(200)
+          .nullable()
+          .default(null),
+        speedBonusMax: z.number().int().min(0).max(10).default(0),
+        scoringStrategy: z.enum(SCORING_STRATEGY_IDS).default(`classic`),
+        streakBonusPoints: z.number().int().min(0).max(10).default(0),
+        teamMode: z.enum(TEAM_MODES).default(`off`),
+        // Players buzz in and answer one at a time instead of all at once
+        buzzerMode: z.boolean().default(false),
+        // Discussion time after each reveal before autopilot moves on, 0 = off
+        autopilotSeconds: z.number().int().min(0).max(300).default(0),
+        // Optional ordered rounds, each drawing from its own bank. The
+        // session's bank and timer are taken from the first round.
+        rounds: z
+          .array(
+            z.object({
+              name: z.string().min(1).max(100),
+              bankId: z.number(),
+              questionCount: z.number().int().min(1).max(100),
+              roundDurationSeconds: z.number().min(10).max(120).default(30),
+            })
+          )
+          .max(20)
+          .default([]),
+        // Optional curated question order, asked instead of random draws
+        playlistQuestionIds: z.array(z.number()).max(200).default([]),
+        // Optional seed to replay another game's question order
+        deckSeed: z.string().trim().min(1).max(50).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // Verify bank exists and has questions
-      const [bank] = await ctx.db
-        .select()
-        .from(questionBanksTable)
-        .where(eq(questionBanksTable.id, input.bankId))
+      const rounds = input.rounds
+      const bankId = rounds[0]?.bankId ?? input.bankId
+      const playlist = input.playlistQuestionIds
 
-      if (!bank) {
-        throw new TRPCError({
-          code: `NOT_FOUND`,
-          message: `Question bank not found`,
-        })
+      if (playlist.length > 0) {
+        if (rounds.length > 0) {
+          throw new TRPCError({
+            code: `BAD_REQUEST`,
+            message: `A playlist can't be combined with rounds`,
+          })
+        }
+
+        if (new Set(playlist).size !== playlist.length) {
+          throw new TRPCError({
+            code: `BAD_REQUEST`,
+            message: `A question can only appear once in the playlist`,
+          })
+        }
+
+        const playlistQuestions = await ctx.db
+          .select({ id: questionsTable.id })
+          .from(questionsTable)
+          .where(
+            and(
+              inArray(questionsTable.id, playlist),
+              eq(questionsTable.bank_id, bankId)
+            )
+          )
+
+        if (playlistQuestions.length !== playlist.length) {
+          throw new TRPCError({
+            code: `BAD_REQUEST`,
+            message: `Playlist questions must all come from the selected bank`,
+          })
+        }
       }
 
-      const questions = await ctx.db
-        .select()
-        .from(questionsTable)
-        .where(eq(questionsTable.bank_id, input.bankId))
+      // Verify each bank exists and has enough questions. Rounds sharing a
+      // bank draw from the same pool, so their counts add up.
+      const neededByBank = new Map<number, number>()
+      if (rounds.length === 0) {
+        neededByBank.set(bankId, 1)
+      }
+      for (const round of rounds) {
+        neededByBank.set(
+          round.bankId,
+          (neededByBank.get(round.bankId) ?? 0) + round.questionCount
+        )
+      }
 
-      if (questions.length === 0) {
-        throw new TRPCError({
-          code: `BAD_REQUEST`,
-          message: `Question bank has no questions`,
-        })
+      for (const [id, needed] of neededByBank) {
+        const [bank] = await ctx.db
+          .select()
+          .from(questionBanksTable)
+          .where(eq(questionBanksTable.id, id))
+
+        if (!bank) {
+          throw new TRPCError({
+            code: `NOT_FOUND`,
+            message: `Question bank not found`,
+          })
+        }
+
+        const questions = await ctx.db
+          .select()
+          .from(questionsTable)
+          .where(eq(questionsTable.bank_id, id))
+
+        if (questions.length === 0) {
+          throw new TRPCError({
+            code: `BAD_REQUEST`,
+            message: `Question bank has no questions`,
+          })
+        }
+
+        if (questions.length < needed) {
+          throw new TRPCError({
+            code: `BAD_REQUEST`,
+            message: `Question bank "${bank.name}" only has ${questions.length} questions, but its rounds need ${needed}`,
+          })
+        }
       }
 
       // Check if slug is already taken, if so, uniquify it
@@ -201,13 +313,36 @@ export const sessionsRouter = router({
           .insert(gameSessionsTable)
           .values({
             slug: finalSlug,
-            bank_id: input.bankId,
+            bank_id: bankId,
             admin_id: ctx.session.user.id,
             status: `lobby`,
-            round_duration_seconds: input.roundDurationSeconds,
+            round_duration_seconds:
+              rounds[0]?.roundDurationSeconds ?? input.roundDurationSeconds,
+            question_count: input.questionCount,
+            playlist_question_ids: playlist,
+            deck_seed: input.deckSeed ?? null,
+            speed_bonus_max: input.speedBonusMax,
+            scoring_strategy: input.scoringStrategy,
+            streak_bonus_points: input.streakBonusPoints,
+            autopilot_seconds: input.autopilotSeconds,
+            team_mode: input.teamMode,
+            buzzer_mode: input.buzzerMode,
           })
           .returning()
 
+        if (rounds.length > 0) {
+          await tx.insert(sessionRoundsTable).values(
+            rounds.map((round, index) => ({
+              session_id: newSession.id,
+              round_order: index + 1,
+              name: round.name,
+              bank_id: round.bankId,
+              question_count: round.questionCount,
+              round_duration_seconds: round.roundDurationSeconds,
+            }))
+          )
+        }
+
         return { item: newSession, txid }
       })
 
@@ -220,6 +355,13 @@ export const sessionsRouter = router({
       z.object({
         id: z.number(),
         roundDurationSeconds: z.number().min(10).max(120).optional(),
+        questionCount: z.number().int().min(1).max(200).nullable().optional(),
+        speedBonusMax: z.number().int().min(0).max(10).optional(),
+        scoringStrategy: z.enum(SCORING_STRATEGY_IDS).optional(),
+        streakBonusPoints: z.number().int().min(0).max(10).optional(),
+        teamMode: z.enum(TEAM_MODES).optional(),
+        buzzerMode: z.boolean().optional(),
+        autopilotSeconds: z.number().int().min(0).max(300).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -257,6 +399,27 @@ export const sessionsRouter = router({
         if (data.roundDurationSeconds !== undefined) {
           updateData.round_duration_seconds = data.roundDurationSeconds
         }
+        if (data.questionCount !== undefined) {
+          updateData.question_count = data.questionCount
+        }
+        if (data.speedBonusMax !== undefined) {
+          updateData.speed_bonus_max = data.speedBonusMax
+        }
+        if (data.scoringStrategy !== undefined) {
+          updateData.scoring_strategy = data.scoringStrategy
+        }
+        if (data.streakBonusPoints !== undefined) {
+          updateData.streak_bonus_points = data.streakBonusPoints
+        }
+        if (data.teamMode !== undefined) {
+          updateData.team_mode = data.teamMode
+        }
+        if (data.buzzerMode !== undefined) {
+          updateData.buzzer_mode = data.buzzerMode
+        }
+        if (data.autopilotSeconds !== undefined) {
+          updateData.autopilot_seconds = data.autopilotSeconds
+        }
 
         const [updated] = await tx
           .update(gameSessionsTable)
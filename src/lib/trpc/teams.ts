@@ -0,0 +1,376 @@
+import {
+  router,
+  adminProcedure,
+  publicProcedure,
+  generateTxId,
+} from "@/lib/trpc"
+import { z } from "zod"
+import { TRPCError } from "@trpc/server"
+import { eq, and } from "drizzle-orm"
+import {
+  gameSessionsTable,
+  playersTable,
+  teamsTable,
+  type Player,
+} from "@/db/schema"
+import { assertActingAsPlayer } from "@/lib/trpc/players"
+
+// Move a player onto a team (or off all teams when teamId is null).
+// The first member of a team becomes its captain, and a captain who
+// leaves hands the role to another remaining member.
+export async function movePlayerToTeam(
+  // eslint-disable-next-line quotes
+  tx: Parameters<Parameters<typeof import("@/db/connection").db.transaction>[0]>[0],
+  player: Player,
+  teamId: number | null
+) {
+  const [updated] = await tx
+    .update(playersTable)
+    .set({ team_id: teamId })
+    .where(eq(playersTable.id, player.id))
+    .returning()
+
+  if (player.team_id !== null && player.team_id !== teamId) {
+    const [oldTeam] = await tx
+      .select()
+      .from(teamsTable)
+      .where(eq(teamsTable.id, player.team_id))
+
+    if (oldTeam?.captain_player_id === player.id) {
+      const [nextCaptain] = await tx
+        .select()
+        .from(playersTable)
+        .where(eq(playersTable.team_id, oldTeam.id))
+        .orderBy(playersTable.joined_at)
+        .limit(1)
+
+      await tx
+        .update(teamsTable)
+        .set({ captain_player_id: nextCaptain?.id ?? null })
+        .where(eq(teamsTable.id, oldTeam.id))
+    }
+  }
+
+  if (teamId !== null) {
+    const [team] = await tx
+      .select()
+      .from(teamsTable)
+      .where(eq(teamsTable.id, teamId))
+
+    if (team && !team.captain_player_id) {
+      await tx
+        .update(teamsTable)
+        .set({ captain_player_id: player.id })
+        .where(eq(teamsTable.id, teamId))
+    }
+  }
+
+  return updated
+}
+
+export const teamsRouter = router({
+  // Create a team in a session (while in lobby)
+  create: adminProcedure
+    .input(
+      z.object({
+        sessionId: z.number(),
+        name: z.string().min(1).max(50),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(
+          and(
+            eq(gameSessionsTable.id, input.sessionId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!session) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Game session not found`,
+        })
+      }
+
+      if (session.status !== `lobby`) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Teams can only be changed while in lobby`,
+        })
+      }
+
+      const existingTeams = await ctx.db
+        .select()
+        .from(teamsTable)
+        .where(eq(teamsTable.session_id, input.sessionId))
+
+      const nameTaken = existingTeams.some(
+        (t) => t.name.toLowerCase() === input.name.toLowerCase()
+      )
+
+      if (nameTaken) {
+        throw new TRPCError({
+          code: `CONFLICT`,
+          message: `A team with this name already exists`,
+        })
+      }
+
+      const result = await ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        const [newTeam] = await tx
+          .insert(teamsTable)
+          .values({
+            session_id: input.sessionId,
+            name: input.name,
+          })
+          .returning()
+
+        return { item: newTeam, txid }
+      })
+
+      return result
+    }),
+
+  // Delete a team (members become unassigned)
+  delete: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const [result] = await ctx.db
+        .select({ team: teamsTable, session: gameSessionsTable })
+        .from(teamsTable)
+        .innerJoin(
+          gameSessionsTable,
+          eq(teamsTable.session_id, gameSessionsTable.id)
+        )
+        .where(
+          and(
+            eq(teamsTable.id, input.id),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!result) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Team not found`,
+        })
+      }
+
+      if (result.session.status !== `lobby`) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Teams can only be changed while in lobby`,
+        })
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        const [deleted] = await tx
+          .delete(teamsTable)
+          .where(eq(teamsTable.id, input.id))
+          .returning()
+
+        return { item: deleted, txid }
+      })
+    }),
+
+  // Assign a player to a team, or unassign with teamId null (admin)
+  assignPlayer: adminProcedure
+    .input(
+      z.object({
+        playerId: z.string(),
+        teamId: z.number().nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [result] = await ctx.db
+        .select({ player: playersTable, session: gameSessionsTable })
+        .from(playersTable)
+        .innerJoin(
+          gameSessionsTable,
+          eq(playersTable.session_id, gameSessionsTable.id)
+        )
+        .where(
+          and(
+            eq(playersTable.id, input.playerId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!result) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Player not found`,
+        })
+      }
+
+      if (result.session.status !== `lobby`) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Teams can only be changed while in lobby`,
+        })
+      }
+
+      if (input.teamId !== null) {
+        const [team] = await ctx.db
+          .select()
+          .from(teamsTable)
+          .where(
+            and(
+              eq(teamsTable.id, input.teamId),
+              eq(teamsTable.session_id, result.session.id)
+            )
+          )
+
+        if (!team) {
+          throw new TRPCError({
+            code: `NOT_FOUND`,
+            message: `Team not found in this session`,
+          })
+        }
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+        const player = await movePlayerToTeam(tx, result.player, input.teamId)
+        return { player, txid }
+      })
+    }),
+
+  // Make a team member the captain (admin)
+  setCaptain: adminProcedure
+    .input(
+      z.object({
+        teamId: z.number(),
+        playerId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [result] = await ctx.db
+        .select({ team: teamsTable, session: gameSessionsTable })
+        .from(teamsTable)
+        .innerJoin(
+          gameSessionsTable,
+          eq(teamsTable.session_id, gameSessionsTable.id)
+        )
+        .where(
+          and(
+            eq(teamsTable.id, input.teamId),
+            eq(gameSessionsTable.admin_id, ctx.session.user.id)
+          )
+        )
+
+      if (!result) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Team not found`,
+        })
+      }
+
+      if (result.session.status !== `lobby`) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Teams can only be changed while in lobby`,
+        })
+      }
+
+      const [member] = await ctx.db
+        .select()
+        .from(playersTable)
+        .where(
+          and(
+            eq(playersTable.id, input.playerId),
+            eq(playersTable.team_id, input.teamId)
+          )
+        )
+
+      if (!member) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `The captain must be a member of the team`,
+        })
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+
+        const [updated] = await tx
+          .update(teamsTable)
+          .set({ captain_player_id: input.playerId })
+          .where(eq(teamsTable.id, input.teamId))
+          .returning()
+
+        return { item: updated, txid }
+      })
+    }),
+
+  // Pick a team (for players, while in lobby)
+  pick: publicProcedure
+    .input(
+      z.object({
+        playerId: z.string(),
+        playerSecret: z.string().optional(), // Not needed for the host player
+        teamId: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [player] = await ctx.db
+        .select()
+        .from(playersTable)
+        .where(eq(playersTable.id, input.playerId))
+
+      if (!player) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Player not found`,
+        })
+      }
+
+      const [session] = await ctx.db
+        .select()
+        .from(gameSessionsTable)
+        .where(eq(gameSessionsTable.id, player.session_id))
+
+      if (!session || session.status !== `lobby`) {
+        throw new TRPCError({
+          code: `BAD_REQUEST`,
+          message: `Teams can only be changed while in lobby`,
+        })
+      }
+
+      await assertActingAsPlayer(
+        ctx,
+        session,
+        input.playerId,
+        input.playerSecret
+      )
+
+      const [team] = await ctx.db
+        .select()
+        .from(teamsTable)
+        .where(
+          and(
+            eq(teamsTable.id, input.teamId),
+            eq(teamsTable.session_id, player.session_id)
+          )
+        )
+
+      if (!team) {
+        throw new TRPCError({
+          code: `NOT_FOUND`,
+          message: `Team not found in this session`,
+        })
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        const txid = await generateTxId(tx)
+        const updated = await movePlayerToTeam(tx, player, input.teamId)
+        return { player: updated, txid }
+      })
+    }),
+})
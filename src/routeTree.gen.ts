@@ -16,12 +16,21 @@ import { Route as AdminIndexRouteImport } from './routes/admin/index'
 import { Route as GameSlugRouteImport } from './routes/game/$slug'
 import { Route as ApiUsersRouteImport } from './routes/api/users'
 import { Route as ApiUsedQuestionsRouteImport } from './routes/api/used-questions'
+import { Route as ApiTeamsRouteImport } from './routes/api/teams'
 import { Route as ApiSessionsRouteImport } from './routes/api/sessions'
+import { Route as ApiSessionRoundsRouteImport } from './routes/api/session-rounds'
 import { Route as ApiResponsesRouteImport } from './routes/api/responses'
 import { Route as ApiQuestionsRouteImport } from './routes/api/questions'
 import { Route as ApiQuestionBanksRouteImport } from './routes/api/question-banks'
 import { Route as ApiPlayersRouteImport } from './routes/api/players'
+import { Route as ApiPlayerUsedQuestionsRouteImport } from './routes/api/player-used-questions'
+import { Route as ApiPlayerQuestionsRouteImport } from './routes/api/player-questions'
+import { Route as ApiPlayerAnswerPairsRouteImport } from './routes/api/player-answer-pairs'
+import { Route as ApiPlayerAnswerOptionsRouteImport } from './routes/api/player-answer-options'
+import { Route as ApiBuzzesRouteImport } from './routes/api/buzzes'
+import { Route as ApiAnswerPairsRouteImport } from './routes/api/answer-pairs'
 import { Route as ApiAnswerOptionsRouteImport } from './routes/api/answer-options'
+import { Route as ApiAnswerKeyCorrectionsRouteImport } from './routes/api/answer-key-corrections'
 import { Route as AdminSessionsIndexRouteImport } from './routes/admin/sessions/index'
 import { Route as AdminBanksIndexRouteImport } from './routes/admin/banks/index'
 import { Route as ApiTrpcSplatRouteImport } from './routes/api/trpc/$'
@@ -65,11 +74,21 @@ const ApiUsedQuestionsRoute = ApiUsedQuestionsRouteImport.update({
   path: '/api/used-questions',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiTeamsRoute = ApiTeamsRouteImport.update({
+  id: '/api/teams',
+  path: '/api/teams',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiSessionsRoute = ApiSessionsRouteImport.update({
   id: '/api/sessions',
   path: '/api/sessions',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiSessionRoundsRoute = ApiSessionRoundsRouteImport.update({
+  id: '/api/session-rounds',
+  path: '/api/session-rounds',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiResponsesRoute = ApiResponsesRouteImport.update({
   id: '/api/responses',
   path: '/api/responses',
@@ -90,11 +109,46 @@ const ApiPlayersRoute = ApiPlayersRouteImport.update({
   path: '/api/players',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiPlayerUsedQuestionsRoute = ApiPlayerUsedQuestionsRouteImport.update({
+  id: '/api/player-used-questions',
+  path: '/api/player-used-questions',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiPlayerQuestionsRoute = ApiPlayerQuestionsRouteImport.update({
+  id: '/api/player-questions',
+  path: '/api/player-questions',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiPlayerAnswerPairsRoute = ApiPlayerAnswerPairsRouteImport.update({
+  id: '/api/player-answer-pairs',
+  path: '/api/player-answer-pairs',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiPlayerAnswerOptionsRoute = ApiPlayerAnswerOptionsRouteImport.update({
+  id: '/api/player-answer-options',
+  path: '/api/player-answer-options',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiBuzzesRoute = ApiBuzzesRouteImport.update({
+  id: '/api/buzzes',
+  path: '/api/buzzes',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAnswerPairsRoute = ApiAnswerPairsRouteImport.update({
+  id: '/api/answer-pairs',
+  path: '/api/answer-pairs',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ApiAnswerOptionsRoute = ApiAnswerOptionsRouteImport.update({
   id: '/api/answer-options',
   path: '/api/answer-options',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiAnswerKeyCorrectionsRoute = ApiAnswerKeyCorrectionsRouteImport.update({
+  id: '/api/answer-key-corrections',
+  path: '/api/answer-key-corrections',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminSessionsIndexRoute = AdminSessionsIndexRouteImport.update({
   id: '/sessions/',
   path: '/sessions/',
@@ -135,12 +189,21 @@ export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/admin': typeof AdminRouteWithChildren
   '/login': typeof LoginRoute
+  '/api/answer-key-corrections': typeof ApiAnswerKeyCorrectionsRoute
   '/api/answer-options': typeof ApiAnswerOptionsRoute
+  '/api/answer-pairs': typeof ApiAnswerPairsRoute
+  '/api/buzzes': typeof ApiBuzzesRoute
+  '/api/player-answer-options': typeof ApiPlayerAnswerOptionsRoute
+  '/api/player-answer-pairs': typeof ApiPlayerAnswerPairsRoute
+  '/api/player-questions': typeof ApiPlayerQuestionsRoute
+  '/api/player-used-questions': typeof ApiPlayerUsedQuestionsRoute
   '/api/players': typeof ApiPlayersRoute
   '/api/question-banks': typeof ApiQuestionBanksRoute
   '/api/questions': typeof ApiQuestionsRoute
   '/api/responses': typeof ApiResponsesRoute
+  '/api/session-rounds': typeof ApiSessionRoundsRoute
   '/api/sessions': typeof ApiSessionsRoute
+  '/api/teams': typeof ApiTeamsRoute
   '/api/used-questions': typeof ApiUsedQuestionsRoute
   '/api/users': typeof ApiUsersRoute
   '/game/$slug': typeof GameSlugRoute
@@ -156,12 +219,21 @@ export interface FileRoutesByFullPath {
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/login': typeof LoginRoute
+  '/api/answer-key-corrections': typeof ApiAnswerKeyCorrectionsRoute
   '/api/answer-options': typeof ApiAnswerOptionsRoute
+  '/api/answer-pairs': typeof ApiAnswerPairsRoute
+  '/api/buzzes': typeof ApiBuzzesRoute
+  '/api/player-answer-options': typeof ApiPlayerAnswerOptionsRoute
+  '/api/player-answer-pairs': typeof ApiPlayerAnswerPairsRoute
+  '/api/player-questions': typeof ApiPlayerQuestionsRoute
+  '/api/player-used-questions': typeof ApiPlayerUsedQuestionsRoute
   '/api/players': typeof ApiPlayersRoute
   '/api/question-banks': typeof ApiQuestionBanksRoute
   '/api/questions': typeof ApiQuestionsRoute
   '/api/responses': typeof ApiResponsesRoute
+  '/api/session-rounds': typeof ApiSessionRoundsRoute
   '/api/sessions': typeof ApiSessionsRoute
+  '/api/teams': typeof ApiTeamsRoute
   '/api/used-questions': typeof ApiUsedQuestionsRoute
   '/api/users': typeof ApiUsersRoute
   '/game/$slug': typeof GameSlugRoute
@@ -179,12 +251,21 @@ export interface FileRoutesById {
   '/': typeof IndexRoute
   '/admin': typeof AdminRouteWithChildren
   '/login': typeof LoginRoute
+  '/api/answer-key-corrections': typeof ApiAnswerKeyCorrectionsRoute
   '/api/answer-options': typeof ApiAnswerOptionsRoute
+  '/api/answer-pairs': typeof ApiAnswerPairsRoute
+  '/api/buzzes': typeof ApiBuzzesRoute
+  '/api/player-answer-options': typeof ApiPlayerAnswerOptionsRoute
+  '/api/player-answer-pairs': typeof ApiPlayerAnswerPairsRoute
+  '/api/player-questions': typeof ApiPlayerQuestionsRoute
+  '/api/player-used-questions': typeof ApiPlayerUsedQuestionsRoute
   '/api/players': typeof ApiPlayersRoute
   '/api/question-banks': typeof ApiQuestionBanksRoute
   '/api/questions': typeof ApiQuestionsRoute
   '/api/responses': typeof ApiResponsesRoute
+  '/api/session-rounds': typeof ApiSessionRoundsRoute
   '/api/sessions': typeof ApiSessionsRoute
+  '/api/teams': typeof ApiTeamsRoute
   '/api/used-questions': typeof ApiUsedQuestionsRoute
   '/api/users': typeof ApiUsersRoute
   '/game/$slug': typeof GameSlugRoute
@@ -203,12 +284,21 @@ export interface FileRouteTypes {
     | '/'
     | '/admin'
     | '/login'
+    | '/api/answer-key-corrections'
     | '/api/answer-options'
+    | '/api/answer-pairs'
+    | '/api/buzzes'
+    | '/api/player-answer-options'
+    | '/api/player-answer-pairs'
+    | '/api/player-questions'
+    | '/api/player-used-questions'
     | '/api/players'
     | '/api/question-banks'
     | '/api/questions'
     | '/api/responses'
+    | '/api/session-rounds'
     | '/api/sessions'
+    | '/api/teams'
     | '/api/used-questions'
     | '/api/users'
     | '/game/$slug'
@@ -224,12 +314,21 @@ export interface FileRouteTypes {
   to:
     | '/'
     | '/login'
+    | '/api/answer-key-corrections'
     | '/api/answer-options'
+    | '/api/answer-pairs'
+    | '/api/buzzes'
+    | '/api/player-answer-options'
+    | '/api/player-answer-pairs'
+    | '/api/player-questions'
+    | '/api/player-used-questions'
     | '/api/players'
     | '/api/question-banks'
     | '/api/questions'
     | '/api/responses'
+    | '/api/session-rounds'
     | '/api/sessions'
+    | '/api/teams'
     | '/api/used-questions'
     | '/api/users'
     | '/game/$slug'
@@ -246,12 +345,21 @@ export interface FileRouteTypes {
     | '/'
     | '/admin'
     | '/login'
+    | '/api/answer-key-corrections'
     | '/api/answer-options'
+    | '/api/answer-pairs'
+    | '/api/buzzes'
+    | '/api/player-answer-options'
+    | '/api/player-answer-pairs'
+    | '/api/player-questions'
+    | '/api/player-used-questions'
     | '/api/players'
     | '/api/question-banks'
     | '/api/questions'
     | '/api/responses'
+    | '/api/session-rounds'
     | '/api/sessions'
+    | '/api/teams'
     | '/api/used-questions'
     | '/api/users'
     | '/game/$slug'
@@ -269,12 +377,21 @@ export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   AdminRoute: typeof AdminRouteWithChildren
   LoginRoute: typeof LoginRoute
+  ApiAnswerKeyCorrectionsRoute: typeof ApiAnswerKeyCorrectionsRoute
   ApiAnswerOptionsRoute: typeof ApiAnswerOptionsRoute
+  ApiAnswerPairsRoute: typeof ApiAnswerPairsRoute
+  ApiBuzzesRoute: typeof ApiBuzzesRoute
+  ApiPlayerAnswerOptionsRoute: typeof ApiPlayerAnswerOptionsRoute
+  ApiPlayerAnswerPairsRoute: typeof ApiPlayerAnswerPairsRoute
+  ApiPlayerQuestionsRoute: typeof ApiPlayerQuestionsRoute
+  ApiPlayerUsedQuestionsRoute: typeof ApiPlayerUsedQuestionsRoute
   ApiPlayersRoute: typeof ApiPlayersRoute
   ApiQuestionBanksRoute: typeof ApiQuestionBanksRoute
   ApiQuestionsRoute: typeof ApiQuestionsRoute
   ApiResponsesRoute: typeof ApiResponsesRoute
+  ApiSessionRoundsRoute: typeof ApiSessionRoundsRoute
   ApiSessionsRoute: typeof ApiSessionsRoute
+  ApiTeamsRoute: typeof ApiTeamsRoute
   ApiUsedQuestionsRoute: typeof ApiUsedQuestionsRoute
   ApiUsersRoute: typeof ApiUsersRoute
   GameSlugRoute: typeof GameSlugRoute
@@ -333,6 +450,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiUsedQuestionsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/teams': {
+      id: '/api/teams'
+      path: '/api/teams'
+      fullPath: '/api/teams'
+      preLoaderRoute: typeof ApiTeamsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/sessions': {
       id: '/api/sessions'
       path: '/api/sessions'
@@ -340,6 +464,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiSessionsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/session-rounds': {
+      id: '/api/session-rounds'
+      path: '/api/session-rounds'
+      fullPath: '/api/session-rounds'
+      preLoaderRoute: typeof ApiSessionRoundsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/responses': {
       id: '/api/responses'
       path: '/api/responses'
@@ -368,6 +499,48 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiPlayersRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/player-used-questions': {
+      id: '/api/player-used-questions'
+      path: '/api/player-used-questions'
+      fullPath: '/api/player-used-questions'
+      preLoaderRoute: typeof ApiPlayerUsedQuestionsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/player-questions': {
+      id: '/api/player-questions'
+      path: '/api/player-questions'
+      fullPath: '/api/player-questions'
+      preLoaderRoute: typeof ApiPlayerQuestionsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/player-answer-pairs': {
+      id: '/api/player-answer-pairs'
+      path: '/api/player-answer-pairs'
+      fullPath: '/api/player-answer-pairs'
+      preLoaderRoute: typeof ApiPlayerAnswerPairsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/player-answer-options': {
+      id: '/api/player-answer-options'
+      path: '/api/player-answer-options'
+      fullPath: '/api/player-answer-options'
+      preLoaderRoute: typeof ApiPlayerAnswerOptionsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/buzzes': {
+      id: '/api/buzzes'
+      path: '/api/buzzes'
+      fullPath: '/api/buzzes'
+      preLoaderRoute: typeof ApiBuzzesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/answer-pairs': {
+      id: '/api/answer-pairs'
+      path: '/api/answer-pairs'
+      fullPath: '/api/answer-pairs'
+      preLoaderRoute: typeof ApiAnswerPairsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/api/answer-options': {
       id: '/api/answer-options'
       path: '/api/answer-options'
@@ -375,6 +548,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiAnswerOptionsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/answer-key-corrections': {
+      id: '/api/answer-key-corrections'
+      path: '/api/answer-key-corrections'
+      fullPath: '/api/answer-key-corrections'
+      preLoaderRoute: typeof ApiAnswerKeyCorrectionsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin/sessions/': {
       id: '/admin/sessions/'
       path: '/sessions'
@@ -451,12 +631,21 @@ const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   AdminRoute: AdminRouteWithChildren,
   LoginRoute: LoginRoute,
+  ApiAnswerKeyCorrectionsRoute: ApiAnswerKeyCorrectionsRoute,
   ApiAnswerOptionsRoute: ApiAnswerOptionsRoute,
+  ApiAnswerPairsRoute: ApiAnswerPairsRoute,
+  ApiBuzzesRoute: ApiBuzzesRoute,
+  ApiPlayerAnswerOptionsRoute: ApiPlayerAnswerOptionsRoute,
+  ApiPlayerAnswerPairsRoute: ApiPlayerAnswerPairsRoute,
+  ApiPlayerQuestionsRoute: ApiPlayerQuestionsRoute,
+  ApiPlayerUsedQuestionsRoute: ApiPlayerUsedQuestionsRoute,
   ApiPlayersRoute: ApiPlayersRoute,
   ApiQuestionBanksRoute: ApiQuestionBanksRoute,
   ApiQuestionsRoute: ApiQuestionsRoute,
   ApiResponsesRoute: ApiResponsesRoute,
+  ApiSessionRoundsRoute: ApiSessionRoundsRoute,
   ApiSessionsRoute: ApiSessionsRoute,
+  ApiTeamsRoute: ApiTeamsRoute,
   ApiUsedQuestionsRoute: ApiUsedQuestionsRoute,
   ApiUsersRoute: ApiUsersRoute,
   GameSlugRoute: GameSlugRoute,
@@ -1,7 +1,20 @@
 import { createFileRoute, Link } from "@tanstack/react-router"
 import { useLiveQuery, eq } from "@tanstack/react-db"
-import { questionBanksCollection, questionsCollection, answerOptionsCollection } from "@/lib/collections"
+import {
+  questionBanksCollection,
+  questionsCollection,
+  answerOptionsCollection,
+  answerPairsCollection,
+} from "@/lib/collections"
 import { trpc } from "@/lib/trpc-client"
+import { hasAnswerOptions } from "@/lib/scoring"
+import {
+  getDraggedRegion,
+  getPointOnElement,
+  type HotspotPoint,
+  type HotspotRect,
+} from "@/lib/hotspots"
+import type { PollScoring, PollSource } from "@/lib/polls"
 import { useState, useMemo } from "react"
 import {
   ArrowLeft,
@@ -14,12 +27,21 @@ import {
   ChevronUp,
   ImageIcon,
   Sparkles,
+  ArrowLeftRight,
 } from "lucide-react"
 
 interface OptionData {
   id: number
   option_text: string
   is_correct: boolean
+  correct_position: number | null
+  display_order: number
+}
+
+interface PairData {
+  id: number
+  left_text: string
+  right_text: string
   display_order: number
 }
 
@@ -27,10 +49,158 @@ interface QuestionData {
   id: number
   question_text: string
   question_type: string
+  accepted_answers: string[]
+  numeric_answer: number | null
+  numeric_scoring: string
+  numeric_tolerance: number
+  hotspot_regions: HotspotRect[]
+  poll_source: string
+  poll_scoring: string
   explanation: string | null
   image_data: string | null
   image_mime_type: string | null
   options: OptionData[]
+  pairs: PairData[]
+}
+
+type QuestionTypeId =
+  | `single`
+  | `multi`
+  | `text`
+  | `numeric`
+  | `ordering`
+  | `matching`
+  | `hotspot`
+  | `poll`
+
+const QUESTION_TYPE_LABELS: Record<string, string> = {
+  single: `Single answer`,
+  multi: `Multi-select`,
+  text: `Free text`,
+  numeric: `Numeric`,
+  ordering: `Ordering`,
+  matching: `Matching`,
+  hotspot: `Hotspot`,
+  poll: `Poll`,
+}
+
+// Answer types offered in the question forms
+const QUESTION_TYPE_CHOICES: { id: QuestionTypeId; label: string }[] = [
+  { id: `single`, label: `Single answer` },
+  { id: `multi`, label: `Multiple correct` },
+  { id: `text`, label: `Free text` },
+  { id: `numeric`, label: `Number` },
+  { id: `ordering`, label: `Put in order` },
+  { id: `matching`, label: `Match pairs` },
+  { id: `hotspot`, label: `Tap the picture` },
+  { id: `poll`, label: `Poll` },
+]
+
+// Ordering questions take 3-6 items
+const MIN_ORDER_ITEMS = 3
+const MAX_ORDER_ITEMS = 6
+
+// Matching questions take 3-6 pairs
+const MIN_PAIRS = 3
+const MAX_PAIRS = 6
+
+interface PairDraft {
+  left: string
+  right: string
+}
+
+// Error for matching pairs that can't be saved, if any
+function getPairsError(pairs: PairDraft[]): string | null {
+  if (pairs.some((p) => !p.left.trim() !== !p.right.trim())) {
+    return `Fill in both sides of every pair`
+  }
+  if (pairs.filter((p) => p.left.trim()).length < MIN_PAIRS) {
+    return `At least ${MIN_PAIRS} pairs required`
+  }
+  return null
+}
+
+// Pairs ready to save, skipping blank rows
+function toPairsInput(pairs: PairDraft[]) {
+  return pairs
+    .filter((p) => p.left.trim() && p.right.trim())
+    .map((p) => ({ left_text: p.left.trim(), right_text: p.right.trim() }))
+}
+
+// Items of an ordering question in their correct order
+function getOrderedItems(options: OptionData[]): OptionData[] {
+  return [...options].sort(
+    (a, b) => (a.correct_position ?? 0) - (b.correct_position ?? 0)
+  )
+}
+
+// Hotspot questions take up to 10 regions
+const MAX_REGIONS = 10
+
+// An image picked in the form, waiting to be uploaded once the question saves
+interface PickedImage {
+  dataUrl: string
+  mimeType: string
+}
+
+// Error for a hotspot question that can't be saved, if any
+function getHotspotError(hasImage: boolean, regions: HotspotRect[]): string | null {
+  if (!hasImage) {
+    return `Add the picture players will tap`
+  }
+  if (regions.length === 0) {
+    return `Drag on the picture to mark at least one correct region`
+  }
+  return null
+}
+
+// Polls take 2-6 written-out choices
+const MIN_POLL_CHOICES = 2
+const MAX_POLL_CHOICES = 6
+
+interface PollData {
+  source: PollSource
+  scoring: PollScoring
+  choices: string[]
+}
+
+// Error for a poll that can't be saved, if any
+function getPollError(poll: PollData): string | null {
+  if (
+    poll.source === `static` &&
+    poll.choices.filter((c) => c.trim()).length < MIN_POLL_CHOICES
+  ) {
+    return `At least ${MIN_POLL_CHOICES} choices required`
+  }
+  return null
+}
+
+// Options to save for a poll: its written-out choices, none of them correct
+function toPollOptionsInput(poll: PollData) {
+  if (poll.source !== `static`) return []
+  return poll.choices
+    .map((c) => c.trim())
+    .filter(Boolean)
+    .map((c, idx) => ({ option_text: c, is_correct: false, display_order: idx }))
+}
+
+type NumericScoring = `closest` | `tolerance`
+
+interface NumericAnswerData {
+  answer: string
+  scoring: NumericScoring
+  tolerance: string
+}
+
+// Error for a numeric answer that can't be saved, if any
+function getNumericAnswerError(numeric: NumericAnswerData): string | null {
+  if (numeric.answer.trim() === `` || !Number.isFinite(Number(numeric.answer))) {
+    return `Enter the true answer as a number`
+  }
+  if (numeric.scoring === `tolerance` && !(Number(numeric.tolerance) >= 0)) {
+    return `The tolerance must be zero or more`
+  }
+  return null
 }
 
 export const Route = createFileRoute(`/admin/banks/$bankId`)({
@@ -40,6 +210,7 @@ export const Route = createFileRoute(`/admin/banks/$bankId`)({
       questionBanksCollection.preload(),
       questionsCollection.preload(),
       answerOptionsCollection.preload(),
+      answerPairsCollection.preload(),
     ])
   },
 })
@@ -66,7 +237,13 @@ function BankDetailPage() {
   )
   const allOptions = optionsData || []
 
-  // Join questions with their options client-side
+  // Load all matching pairs via Electric
+  const { data: pairsData } = useLiveQuery((q) =>
+    q.from({ pairs: answerPairsCollection })
+  )
+  const allPairs = pairsData || []
+
+  // Join questions with their options and pairs client-side
   const questions: QuestionData[] = useMemo(() => {
     if (!questionsData) return []
     return questionsData.map((q) => ({
@@ -74,8 +251,11 @@ function BankDetailPage() {
       options: allOptions
         .filter((o) => o.question_id === q.id)
         .sort((a, b) => a.display_order - b.display_order) as OptionData[],
+      pairs: allPairs
+        .filter((p) => p.question_id === q.id)
+        .sort((a, b) => a.display_order - b.display_order),
     }))
-  }, [questionsData, allOptions])
+  }, [questionsData, allOptions, allPairs])
 
   const [expandedQuestion, setExpandedQuestion] = useState<number | null>(null)
   const [showNewForm, setShowNewForm] = useState(false)
@@ -196,6 +376,8 @@ function QuestionCard({
 }) {
   const [isEditing, setIsEditing] = useState(false)
   const correctCount = question.options.filter((o) => o.is_correct).length
+  // Ordering items are listed in their correct order instead
+  const answerOptions = question.question_type === `ordering` ? [] : question.options
 
   return (
     <div className="card-buzzy">
@@ -212,13 +394,33 @@ function QuestionCard({
             <div>
               <p className="font-medium text-text-dark">{question.question_text}</p>
               <div className="flex items-center gap-3 mt-2 text-sm text-text-muted">
-                <span className={question.question_type === `multi` ? `text-buzzy-purple` : ``}>
-                  {question.question_type === `multi` ? `Multi-select` : `Single answer`}
+                <span className={question.question_type !== `single` ? `text-buzzy-purple` : ``}>
+                  {QUESTION_TYPE_LABELS[question.question_type] ?? `Single answer`}
                 </span>
                 <span>•</span>
-                <span>{question.options.length} options</span>
-                <span>•</span>
-                <span>{correctCount} correct</span>
+                {question.question_type === `text` ? (
+                  <span>
+                    {question.accepted_answers.length} accepted answer{question.accepted_answers.length !== 1 ? `s` : ``}
+                  </span>
+                ) : question.question_type === `numeric` ? (
+                  <span>{describeNumericScoring(question)}</span>
+                ) : question.question_type === `ordering` ? (
+                  <span>{question.options.length} items</span>
+                ) : question.question_type === `matching` ? (
+                  <span>{question.pairs.length} pairs</span>
+                ) : question.question_type === `hotspot` ? (
+                  <span>
+                    {question.hotspot_regions.length} region{question.hotspot_regions.length !== 1 ? `s` : ``}
+                  </span>
+                ) : question.question_type === `poll` ? (
+                  <span>{describePoll(question)}</span>
+                ) : (
+                  <>
+                    <span>{question.options.length} options</span>
+                    <span>•</span>
+                    <span>{correctCount} correct</span>
+                  </>
+                )}
                 {question.image_data && (
                   <>
                     <span>•</span>
@@ -254,20 +456,84 @@ function QuestionCard({
             />
           ) : (
             <>
-              {/* Image preview */}
+              {/* Image preview, with the correct regions for hotspots */}
               {question.image_data && (
                 <div className="mb-4">
-                  <img
-                    src={`data:${question.image_mime_type};base64,${question.image_data}`}
-                    alt="Question image"
-                    className="max-w-md rounded-xl border border-gray-200"
-                  />
+                  <div className="relative max-w-md">
+                    <img
+                      src={`data:${question.image_mime_type};base64,${question.image_data}`}
+                      alt="Question image"
+                      className="w-full h-auto rounded-xl border border-gray-200"
+                    />
+                    {question.question_type === `hotspot` &&
+                      question.hotspot_regions.map((region, idx) => (
+                        <RegionBox key={idx} region={region} />
+                      ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Accepted answers (free text) */}
+              {question.question_type === `text` && (
+                <div className="mb-4 p-3 rounded-xl bg-state-correct/10 border-2 border-state-correct">
+                  <p className="text-sm font-medium text-text-dark">Accepted answers:</p>
+                  <p className="text-state-correct font-medium mt-1">
+                    {question.accepted_answers.join(` · `)}
+                  </p>
+                </div>
+              )}
+
+              {/* True answer (numeric) */}
+              {question.question_type === `numeric` && (
+                <div className="mb-4 p-3 rounded-xl bg-state-correct/10 border-2 border-state-correct">
+                  <p className="text-sm font-medium text-text-dark">Answer:</p>
+                  <p className="text-state-correct font-medium mt-1">
+                    {question.numeric_answer?.toLocaleString()}
+                  </p>
+                </div>
+              )}
+
+              {/* Correct order (ordering) */}
+              {question.question_type === `ordering` && (
+                <ol className="space-y-2 mb-4">
+                  {getOrderedItems(question.options).map((option, idx) => (
+                    <li
+                      key={option.id}
+                      className="p-3 rounded-xl bg-gray-50 border-2 border-transparent flex items-center gap-2"
+                    >
+                      <span className="text-sm font-bold text-buzzy-purple w-6 text-center">{idx + 1}</span>
+                      <span className="text-text-dark">{option.option_text}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              {/* Choices (player polls) */}
+              {question.question_type === `poll` && question.poll_source === `players` && (
+                <p className="mb-4 text-sm text-text-muted">
+                  Players vote for one of the players in the game.
+                </p>
+              )}
+
+              {/* Pairs (matching) */}
+              {question.question_type === `matching` && (
+                <div className="space-y-2 mb-4">
+                  {question.pairs.map((pair) => (
+                    <div
+                      key={pair.id}
+                      className="p-3 rounded-xl bg-gray-50 border-2 border-transparent flex items-center gap-3"
+                    >
+                      <span className="flex-1 text-text-dark">{pair.left_text}</span>
+                      <ArrowLeftRight className="w-4 h-4 text-buzzy-purple flex-shrink-0" />
+                      <span className="flex-1 text-text-dark">{pair.right_text}</span>
+                    </div>
+                  ))}
                 </div>
               )}
 
               {/* Options */}
               <div className="space-y-2 mb-4">
-                {question.options
+                {answerOptions
                   .sort((a, b) => a.display_order - b.display_order)
                   .map((option) => (
                     <div
@@ -339,14 +605,33 @@ function NewQuestionForm({
   onCreated: () => void
 }) {
   const [questionText, setQuestionText] = useState(``)
-  const [questionType, setQuestionType] = useState<`single` | `multi`>(`single`)
+  const [questionType, setQuestionType] = useState<QuestionTypeId>(`single`)
   const [explanation, setExplanation] = useState(``)
+  const [acceptedAnswers, setAcceptedAnswers] = useState([``])
+  const [numeric, setNumeric] = useState<NumericAnswerData>({
+    answer: ``,
+    scoring: `closest`,
+    tolerance: `0`,
+  })
   const [options, setOptions] = useState([
     { text: ``, isCorrect: true },
     { text: ``, isCorrect: false },
     { text: ``, isCorrect: false },
     { text: ``, isCorrect: false },
   ])
+  const [orderItems, setOrderItems] = useState([``, ``, ``])
+  const [pairs, setPairs] = useState<PairDraft[]>([
+    { left: ``, right: `` },
+    { left: ``, right: `` },
+    { left: ``, right: `` },
+  ])
+  const [regions, setRegions] = useState<HotspotRect[]>([])
+  const [pickedImage, setPickedImage] = useState<PickedImage | null>(null)
+  const [poll, setPoll] = useState<PollData>({
+    source: `static`,
+    scoring: `none`,
+    choices: [``, ``, ``],
+  })
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isGenerating, setIsGenerating] = useState(false)
   const [error, setError] = useState(``)
@@ -401,14 +686,58 @@ function NewQuestionForm({
     e.preventDefault()
     setError(``)
 
+    const isText = questionType === `text`
+    const isNumeric = questionType === `numeric`
+    const isOrdering = questionType === `ordering`
+    const isMatching = questionType === `matching`
+    const isHotspot = questionType === `hotspot`
+    const isPoll = questionType === `poll`
+    const isMultipleChoice = hasAnswerOptions(questionType)
+    const validAnswers = acceptedAnswers.map((a) => a.trim()).filter(Boolean)
+    const validItems = orderItems.map((item) => item.trim()).filter(Boolean)
     const validOptions = options.filter((o) => o.text.trim())
-    if (validOptions.length < 2) {
+
+    if (isText && validAnswers.length === 0) {
+      setError(`At least one accepted answer required`)
+      return
+    }
+
+    const numericError = isNumeric ? getNumericAnswerError(numeric) : null
+    if (numericError) {
+      setError(numericError)
+      return
+    }
+
+    if (isOrdering && validItems.length < MIN_ORDER_ITEMS) {
+      setError(`At least ${MIN_ORDER_ITEMS} items required`)
+      return
+    }
+
+    const pairsError = isMatching ? getPairsError(pairs) : null
+    if (pairsError) {
+      setError(pairsError)
+      return
+    }
+
+    const hotspotError = isHotspot ? getHotspotError(pickedImage !== null, regions) : null
+    if (hotspotError) {
+      setError(hotspotError)
+      return
+    }
+
+    const pollError = isPoll ? getPollError(poll) : null
+    if (pollError) {
+      setError(pollError)
+      return
+    }
+
+    if (isMultipleChoice && validOptions.length < 2) {
       setError(`At least 2 options required`)
       return
     }
 
     const hasCorrect = validOptions.some((o) => o.isCorrect)
-    if (!hasCorrect) {
+    if (isMultipleChoice && !hasCorrect) {
       setError(`At least one correct answer required`)
       return
     }
@@ -416,17 +745,38 @@ function NewQuestionForm({
     setIsSubmitting(true)
 
     try {
-      await trpc.questions.create.mutate({
+      const { item } = await trpc.questions.create.mutate({
         bank_id: bankId,
         question_text: questionText,
         question_type: questionType,
         explanation: explanation || null,
-        options: validOptions.map((o, idx) => ({
-          option_text: o.text,
-          is_correct: o.isCorrect,
-          display_order: idx,
-        })),
+        accepted_answers: isText ? validAnswers : [],
+        numeric_answer: isNumeric ? Number(numeric.answer) : null,
+        numeric_scoring: numeric.scoring,
+        numeric_tolerance: Number(numeric.tolerance) || 0,
+        hotspot_regions: isHotspot ? regions : [],
+        poll_source: poll.source,
+        poll_scoring: poll.scoring,
+        options: isMultipleChoice
+          ? validOptions.map((o, idx) => ({
+              option_text: o.text,
+              is_correct: o.isCorrect,
+              display_order: idx,
+            }))
+          : isOrdering
+            ? validItems.map((item) => ({ option_text: item, is_correct: false }))
+            : isPoll
+              ? toPollOptionsInput(poll)
+              : [],
+        pairs: isMatching ? toPairsInput(pairs) : [],
       })
+      if (isHotspot && pickedImage) {
+        await trpc.questions.uploadImage.mutate({
+          questionId: item.id,
+          imageBase64: pickedImage.dataUrl,
+          mimeType: pickedImage.mimeType,
+        })
+      }
       onCreated()
     } catch (err) {
       console.error(`Failed to create question:`, err)
@@ -465,87 +815,162 @@ function NewQuestionForm({
           <label className="block text-sm font-medium text-text-dark mb-2">
             Answer Type
           </label>
-          <div className="flex gap-4">
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input
-                type="radio"
-                checked={questionType === `single`}
-                onChange={() => setQuestionType(`single`)}
-                className="accent-buzzy-purple"
-              />
-              <span>Single answer</span>
+          <div className="flex flex-wrap gap-4">
+            {QUESTION_TYPE_CHOICES.map((choice) => (
+              <label key={choice.id} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={questionType === choice.id}
+                  onChange={() => setQuestionType(choice.id)}
+                  className="accent-buzzy-purple"
+                />
+                <span>{choice.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Accepted answers (free text) */}
+        {questionType === `text` && (
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              Accepted Answers
             </label>
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input
-                type="radio"
-                checked={questionType === `multi`}
-                onChange={() => setQuestionType(`multi`)}
-                className="accent-buzzy-purple"
-              />
-              <span>Multiple correct</span>
+            <p className="text-sm text-text-muted mb-3">
+              Case, punctuation, "a/an/the" and small typos are ignored when grading.
+            </p>
+            <AcceptedAnswersEditor answers={acceptedAnswers} onChange={setAcceptedAnswers} />
+          </div>
+        )}
+
+        {/* True answer (numeric) */}
+        {questionType === `numeric` && (
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              True Answer
             </label>
+            <NumericAnswerEditor value={numeric} onChange={setNumeric} />
           </div>
-        </div>
+        )}
 
-        {/* Options */}
-        <div>
-          <div className="flex items-center justify-between mb-2">
-            <label className="block text-sm font-medium text-text-dark">
-              Answer Options
+        {/* Items in order (ordering) */}
+        {questionType === `ordering` && (
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              Items in the Correct Order
             </label>
-            <button
-              type="button"
-              onClick={handleGenerateWrongAnswers}
-              disabled={isGenerating}
-              className="btn-sm px-3 py-1 rounded-lg bg-buzzy-purple/10 text-buzzy-purple hover:bg-buzzy-purple/20 flex items-center gap-1"
-            >
-              <Sparkles className="w-4 h-4" />
-              {isGenerating ? `Generating...` : `AI Generate Wrong Answers`}
-            </button>
+            <p className="text-sm text-text-muted mb-3">
+              Players see them shuffled and score a point for each item they put in the right place.
+            </p>
+            <OrderedItemsEditor items={orderItems} onChange={setOrderItems} />
           </div>
+        )}
 
-          <div className="space-y-3">
-            {options.map((option, idx) => (
-              <div key={idx} className="flex items-center gap-3">
-                <button
-                  type="button"
-                  onClick={() => updateOption(idx, { isCorrect: !option.isCorrect })}
-                  className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 border-2 transition-colors ${
-                    option.isCorrect
-                      ? `bg-state-correct border-state-correct text-white`
-                      : `border-gray-300 hover:border-buzzy-purple`
-                  }`}
-                >
-                  {option.isCorrect && <Check className="w-4 h-4" />}
-                </button>
-                <input
-                  type="text"
-                  value={option.text}
-                  onChange={(e) => updateOption(idx, { text: e.target.value })}
-                  placeholder={option.isCorrect ? `Correct answer` : `Wrong answer`}
-                  className="input-buzzy flex-1"
-                />
-                {options.length > 2 && (
+        {/* Pairs (matching) */}
+        {questionType === `matching` && (
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              Pairs
+            </label>
+            <p className="text-sm text-text-muted mb-3">
+              Players see both columns shuffled and score a point for each pair they match.
+            </p>
+            <PairsEditor pairs={pairs} onChange={setPairs} />
+          </div>
+        )}
+
+        {/* Picture and correct regions (hotspot) */}
+        {questionType === `hotspot` && (
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              Picture
+            </label>
+            <p className="text-sm text-text-muted mb-3">
+              Drag on the picture to mark where players should tap. A tap anywhere inside a region is correct.
+            </p>
+            <HotspotEditor
+              imageSrc={pickedImage?.dataUrl ?? null}
+              regions={regions}
+              onPickImage={setPickedImage}
+              onChange={setRegions}
+            />
+          </div>
+        )}
+
+        {/* Choices and scoring (poll) */}
+        {questionType === `poll` && (
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              Poll
+            </label>
+            <p className="text-sm text-text-muted mb-3">
+              There's no right answer. The reveal shows how everyone voted.
+            </p>
+            <PollEditor value={poll} onChange={setPoll} />
+          </div>
+        )}
+
+        {/* Options */}
+        {hasAnswerOptions(questionType) && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-text-dark">
+                Answer Options
+              </label>
+              <button
+                type="button"
+                onClick={handleGenerateWrongAnswers}
+                disabled={isGenerating}
+                className="btn-sm px-3 py-1 rounded-lg bg-buzzy-purple/10 text-buzzy-purple hover:bg-buzzy-purple/20 flex items-center gap-1"
+              >
+                <Sparkles className="w-4 h-4" />
+                {isGenerating ? `Generating...` : `AI Generate Wrong Answers`}
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              {options.map((option, idx) => (
+                <div key={idx} className="flex items-center gap-3">
                   <button
                     type="button"
-                    onClick={() => removeOption(idx)}
-                    className="p-2 text-red-500 hover:bg-red-50 rounded-lg"
+                    onClick={() => updateOption(idx, { isCorrect: !option.isCorrect })}
+                    className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 border-2 transition-colors ${
+                      option.isCorrect
+                        ? `bg-state-correct border-state-correct text-white`
+                        : `border-gray-300 hover:border-buzzy-purple`
+                    }`}
                   >
-                    <X className="w-4 h-4" />
+                    {option.isCorrect && <Check className="w-4 h-4" />}
                   </button>
-                )}
-              </div>
-            ))}
-          </div>
+                  <input
+                    type="text"
+                    value={option.text}
+                    onChange={(e) => updateOption(idx, { text: e.target.value })}
+                    placeholder={option.isCorrect ? `Correct answer` : `Wrong answer`}
+                    className="input-buzzy flex-1"
+                  />
+                  {options.length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => removeOption(idx)}
+                      className="p-2 text-red-500 hover:bg-red-50 rounded-lg"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
 
-          <button
-            type="button"
-            onClick={addOption}
-            className="mt-3 text-sm text-buzzy-purple hover:underline"
-          >
-            + Add another option
-          </button>
-        </div>
+            <button
+              type="button"
+              onClick={addOption}
+              className="mt-3 text-sm text-buzzy-purple hover:underline"
+            >
+              + Add another option
+            </button>
+          </div>
+        )}
 
         {/* Explanation */}
         <div>
@@ -589,10 +1014,18 @@ function EditQuestionForm({
   onSaved: () => void
 }) {
   const [questionText, setQuestionText] = useState(question.question_text)
-  const [questionType, setQuestionType] = useState<`single` | `multi`>(
-    question.question_type as `single` | `multi`
+  const [questionType, setQuestionType] = useState<QuestionTypeId>(
+    question.question_type as QuestionTypeId
   )
   const [explanation, setExplanation] = useState(question.explanation || ``)
+  const [acceptedAnswers, setAcceptedAnswers] = useState(
+    question.accepted_answers.length > 0 ? question.accepted_answers : [``]
+  )
+  const [numeric, setNumeric] = useState<NumericAnswerData>({
+    answer: question.numeric_answer !== null ? String(question.numeric_answer) : ``,
+    scoring: question.numeric_scoring as NumericScoring,
+    tolerance: String(question.numeric_tolerance),
+  })
   const [options, setOptions] = useState(
     question.options.map((o) => ({
       id: o.id,
@@ -600,9 +1033,39 @@ function EditQuestionForm({
       isCorrect: o.is_correct,
     }))
   )
+  const [orderItems, setOrderItems] = useState(
+    question.question_type === `ordering`
+      ? getOrderedItems(question.options).map((o) => o.option_text)
+      : [``, ``, ``]
+  )
+  const [pairs, setPairs] = useState<PairDraft[]>(
+    question.pairs.length > 0
+      ? question.pairs.map((p) => ({ left: p.left_text, right: p.right_text }))
+      : [
+          { left: ``, right: `` },
+          { left: ``, right: `` },
+          { left: ``, right: `` },
+        ]
+  )
+  const [regions, setRegions] = useState<HotspotRect[]>(question.hotspot_regions)
+  const [pickedImage, setPickedImage] = useState<PickedImage | null>(null)
+  const [poll, setPoll] = useState<PollData>({
+    source: question.poll_source as PollSource,
+    scoring: question.poll_scoring as PollScoring,
+    choices:
+      question.question_type === `poll` && question.options.length > 0
+        ? question.options.map((o) => o.option_text)
+        : [``, ``, ``],
+  })
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState(``)
 
+  const imageSrc = pickedImage
+    ? pickedImage.dataUrl
+    : question.image_data
+      ? `data:${question.image_mime_type};base64,${question.image_data}`
+      : null
+
   const addOption = () => {
     setOptions([...options, { id: 0, text: ``, isCorrect: false }])
   }
@@ -620,14 +1083,58 @@ function EditQuestionForm({
     e.preventDefault()
     setError(``)
 
+    const isText = questionType === `text`
+    const isNumeric = questionType === `numeric`
+    const isOrdering = questionType === `ordering`
+    const isMatching = questionType === `matching`
+    const isHotspot = questionType === `hotspot`
+    const isPoll = questionType === `poll`
+    const isMultipleChoice = hasAnswerOptions(questionType)
+    const validAnswers = acceptedAnswers.map((a) => a.trim()).filter(Boolean)
+    const validItems = orderItems.map((item) => item.trim()).filter(Boolean)
     const validOptions = options.filter((o) => o.text.trim())
-    if (validOptions.length < 2) {
+
+    if (isText && validAnswers.length === 0) {
+      setError(`At least one accepted answer required`)
+      return
+    }
+
+    const numericError = isNumeric ? getNumericAnswerError(numeric) : null
+    if (numericError) {
+      setError(numericError)
+      return
+    }
+
+    if (isOrdering && validItems.length < MIN_ORDER_ITEMS) {
+      setError(`At least ${MIN_ORDER_ITEMS} items required`)
+      return
+    }
+
+    const pairsError = isMatching ? getPairsError(pairs) : null
+    if (pairsError) {
+      setError(pairsError)
+      return
+    }
+
+    const hotspotError = isHotspot ? getHotspotError(imageSrc !== null, regions) : null
+    if (hotspotError) {
+      setError(hotspotError)
+      return
+    }
+
+    const pollError = isPoll ? getPollError(poll) : null
+    if (pollError) {
+      setError(pollError)
+      return
+    }
+
+    if (isMultipleChoice && validOptions.length < 2) {
       setError(`At least 2 options required`)
       return
     }
 
     const hasCorrect = validOptions.some((o) => o.isCorrect)
-    if (!hasCorrect) {
+    if (isMultipleChoice && !hasCorrect) {
       setError(`At least one correct answer required`)
       return
     }
@@ -640,12 +1147,40 @@ function EditQuestionForm({
         question_text: questionText,
         question_type: questionType,
         explanation: explanation || null,
-        options: validOptions.map((o, idx) => ({
-          option_text: o.text,
-          is_correct: o.isCorrect,
-          display_order: idx,
-        })),
+        accepted_answers: isText ? validAnswers : [],
+        numeric_answer: isNumeric ? Number(numeric.answer) : null,
+        numeric_scoring: numeric.scoring,
+        numeric_tolerance: Number(numeric.tolerance) || 0,
+        hotspot_regions: isHotspot ? regions : [],
+        poll_source: poll.source,
+        poll_scoring: poll.scoring,
+        ...(isMultipleChoice
+          ? {
+              options: validOptions.map((o, idx) => ({
+                option_text: o.text,
+                is_correct: o.isCorrect,
+                display_order: idx,
+              })),
+            }
+          : isOrdering
+            ? {
+                options: validItems.map((item) => ({
+                  option_text: item,
+                  is_correct: false,
+                })),
+              }
+            : isPoll
+              ? { options: toPollOptionsInput(poll) }
+              : {}),
+        ...(isMatching ? { pairs: toPairsInput(pairs) } : {}),
       })
+      if (isHotspot && pickedImage) {
+        await trpc.questions.uploadImage.mutate({
+          questionId: question.id,
+          imageBase64: pickedImage.dataUrl,
+          mimeType: pickedImage.mimeType,
+        })
+      }
       onSaved()
     } catch (err) {
       console.error(`Failed to update question:`, err)
@@ -671,67 +1206,97 @@ function EditQuestionForm({
       </div>
 
       {/* Question type */}
-      <div className="flex gap-4">
-        <label className="flex items-center gap-2 cursor-pointer">
-          <input
-            type="radio"
-            checked={questionType === `single`}
-            onChange={() => setQuestionType(`single`)}
-            className="accent-buzzy-purple"
-          />
-          <span className="text-sm">Single answer</span>
-        </label>
-        <label className="flex items-center gap-2 cursor-pointer">
-          <input
-            type="radio"
-            checked={questionType === `multi`}
-            onChange={() => setQuestionType(`multi`)}
-            className="accent-buzzy-purple"
-          />
-          <span className="text-sm">Multiple correct</span>
-        </label>
+      <div className="flex flex-wrap gap-4">
+        {QUESTION_TYPE_CHOICES.map((choice) => (
+          <label key={choice.id} className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              checked={questionType === choice.id}
+              onChange={() => setQuestionType(choice.id)}
+              className="accent-buzzy-purple"
+            />
+            <span className="text-sm">{choice.label}</span>
+          </label>
+        ))}
       </div>
 
+      {/* Accepted answers (free text) */}
+      {questionType === `text` && (
+        <AcceptedAnswersEditor answers={acceptedAnswers} onChange={setAcceptedAnswers} />
+      )}
+
+      {/* True answer (numeric) */}
+      {questionType === `numeric` && (
+        <NumericAnswerEditor value={numeric} onChange={setNumeric} />
+      )}
+
+      {/* Items in order (ordering) */}
+      {questionType === `ordering` && (
+        <OrderedItemsEditor items={orderItems} onChange={setOrderItems} />
+      )}
+
+      {/* Pairs (matching) */}
+      {questionType === `matching` && (
+        <PairsEditor pairs={pairs} onChange={setPairs} />
+      )}
+
+      {/* Picture and correct regions (hotspot) */}
+      {questionType === `hotspot` && (
+        <HotspotEditor
+          imageSrc={imageSrc}
+          regions={regions}
+          onPickImage={setPickedImage}
+          onChange={setRegions}
+        />
+      )}
+
+      {/* Choices and scoring (poll) */}
+      {questionType === `poll` && (
+        <PollEditor value={poll} onChange={setPoll} />
+      )}
+
       {/* Options */}
-      <div className="space-y-2">
-        {options.map((option, idx) => (
-          <div key={idx} className="flex items-center gap-2">
-            <button
-              type="button"
-              onClick={() => updateOption(idx, { isCorrect: !option.isCorrect })}
-              className={`w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0 border-2 transition-colors ${
-                option.isCorrect
-                  ? `bg-state-correct border-state-correct text-white`
-                  : `border-gray-300 hover:border-buzzy-purple`
-              }`}
-            >
-              {option.isCorrect && <Check className="w-3 h-3" />}
-            </button>
-            <input
-              type="text"
-              value={option.text}
-              onChange={(e) => updateOption(idx, { text: e.target.value })}
-              className="input-buzzy flex-1 py-2"
-            />
-            {options.length > 2 && (
+      {hasAnswerOptions(questionType) && (
+        <div className="space-y-2">
+          {options.map((option, idx) => (
+            <div key={idx} className="flex items-center gap-2">
               <button
                 type="button"
-                onClick={() => removeOption(idx)}
-                className="p-1 text-red-500 hover:bg-red-50 rounded"
+                onClick={() => updateOption(idx, { isCorrect: !option.isCorrect })}
+                className={`w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0 border-2 transition-colors ${
+                  option.isCorrect
+                    ? `bg-state-correct border-state-correct text-white`
+                    : `border-gray-300 hover:border-buzzy-purple`
+                }`}
               >
-                <X className="w-4 h-4" />
+                {option.isCorrect && <Check className="w-3 h-3" />}
               </button>
-            )}
-          </div>
-        ))}
-        <button
-          type="button"
-          onClick={addOption}
-          className="text-sm text-buzzy-purple hover:underline"
-        >
-          + Add option
-        </button>
-      </div>
+              <input
+                type="text"
+                value={option.text}
+                onChange={(e) => updateOption(idx, { text: e.target.value })}
+                className="input-buzzy flex-1 py-2"
+              />
+              {options.length > 2 && (
+                <button
+                  type="button"
+                  onClick={() => removeOption(idx)}
+                  className="p-1 text-red-500 hover:bg-red-50 rounded"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={addOption}
+            className="text-sm text-buzzy-purple hover:underline"
+          >
+            + Add option
+          </button>
+        </div>
+      )}
 
       {/* Explanation */}
       <div>
@@ -760,3 +1325,455 @@ function EditQuestionForm({
     </form>
   )
 }
+
+// List editor for the answers a free-text question accepts
+function AcceptedAnswersEditor({
+  answers,
+  onChange,
+}: {
+  answers: string[]
+  onChange: (answers: string[]) => void
+}) {
+  return (
+    <div className="space-y-2">
+      {answers.map((answer, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <Check className="w-4 h-4 text-state-correct flex-shrink-0" />
+          <input
+            type="text"
+            value={answer}
+            onChange={(e) => onChange(answers.map((a, i) => (i === idx ? e.target.value : a)))}
+            placeholder={idx === 0 ? `Accepted answer` : `Another accepted spelling or name`}
+            maxLength={200}
+            className="input-buzzy flex-1 py-2"
+          />
+          {answers.length > 1 && (
+            <button
+              type="button"
+              onClick={() => onChange(answers.filter((_, i) => i !== idx))}
+              className="p-1 text-red-500 hover:bg-red-50 rounded"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...answers, ``])}
+        className="text-sm text-buzzy-purple hover:underline"
+      >
+        + Add accepted answer
+      </button>
+    </div>
+  )
+}
+
+// How a numeric question awards points, e.g. "Closest wins" or "Within ±5"
+function describeNumericScoring(question: QuestionData) {
+  return question.numeric_scoring === `tolerance`
+    ? `Within ±${question.numeric_tolerance.toLocaleString()}`
+    : `Closest wins`
+}
+
+// Editor for a numeric question's true answer and how guesses score against it
+function NumericAnswerEditor({
+  value,
+  onChange,
+}: {
+  value: NumericAnswerData
+  onChange: (value: NumericAnswerData) => void
+}) {
+  return (
+    <div className="space-y-3">
+      <input
+        type="number"
+        step="any"
+        value={value.answer}
+        onChange={(e) => onChange({ ...value, answer: e.target.value })}
+        placeholder="e.g. 412"
+        className="input-buzzy py-2"
+      />
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="radio"
+            checked={value.scoring === `closest`}
+            onChange={() => onChange({ ...value, scoring: `closest` })}
+            className="accent-buzzy-purple"
+          />
+          <span className="text-sm">Closest guess wins</span>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="radio"
+            checked={value.scoring === `tolerance`}
+            onChange={() => onChange({ ...value, scoring: `tolerance` })}
+            className="accent-buzzy-purple"
+          />
+          <span className="text-sm">Anyone within ±</span>
+        </label>
+        {value.scoring === `tolerance` && (
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={value.tolerance}
+            onChange={(e) => onChange({ ...value, tolerance: e.target.value })}
+            className="input-buzzy py-2 w-28"
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+// What a poll votes on and how it scores, e.g. "4 choices · Just for fun"
+function describePoll(question: QuestionData) {
+  const choices =
+    question.poll_source === `players`
+      ? `Vote for a player`
+      : `${question.options.length} choices`
+  const scoring =
+    question.poll_scoring === `majority` ? `Majority scores` : `Just for fun`
+  return `${choices} · ${scoring}`
+}
+
+// Editor for a poll's choices - written out, or the players in the game -
+// and whether siding with the majority scores
+function PollEditor({
+  value,
+  onChange,
+}: {
+  value: PollData
+  onChange: (value: PollData) => void
+}) {
+  const { choices } = value
+  const setChoices = (next: string[]) => onChange({ ...value, choices: next })
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="radio"
+            checked={value.source === `static`}
+            onChange={() => onChange({ ...value, source: `static` })}
+            className="accent-buzzy-purple"
+          />
+          <span className="text-sm">Written-out choices</span>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="radio"
+            checked={value.source === `players`}
+            onChange={() => onChange({ ...value, source: `players` })}
+            className="accent-buzzy-purple"
+          />
+          <span className="text-sm">The players in the game</span>
+        </label>
+      </div>
+
+      {value.source === `static` && (
+        <div className="space-y-2">
+          {choices.map((choice, idx) => (
+            <div key={idx} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={choice}
+                onChange={(e) => setChoices(choices.map((c, i) => (i === idx ? e.target.value : c)))}
+                placeholder={`Choice ${idx + 1}`}
+                maxLength={500}
+                className="input-buzzy flex-1 py-2"
+              />
+              {choices.length > MIN_POLL_CHOICES && (
+                <button
+                  type="button"
+                  onClick={() => setChoices(choices.filter((_, i) => i !== idx))}
+                  className="p-1 text-red-500 hover:bg-red-50 rounded"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          {choices.length < MAX_POLL_CHOICES && (
+            <button
+              type="button"
+              onClick={() => setChoices([...choices, ``])}
+              className="text-sm text-buzzy-purple hover:underline"
+            >
+              + Add choice
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="radio"
+            checked={value.scoring === `none`}
+            onChange={() => onChange({ ...value, scoring: `none` })}
+            className="accent-buzzy-purple"
+          />
+          <span className="text-sm">Just for fun, no points</span>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="radio"
+            checked={value.scoring === `majority`}
+            onChange={() => onChange({ ...value, scoring: `majority` })}
+            className="accent-buzzy-purple"
+          />
+          <span className="text-sm">Points for voting with the majority</span>
+        </label>
+      </div>
+    </div>
+  )
+}
+
+// List editor for an ordering question's items, kept in their correct order
+function OrderedItemsEditor({
+  items,
+  onChange,
+}: {
+  items: string[]
+  onChange: (items: string[]) => void
+}) {
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= items.length) return
+    const next = [...items]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <span className="text-sm font-bold text-buzzy-purple w-6 text-center">{idx + 1}</span>
+          <input
+            type="text"
+            value={item}
+            onChange={(e) => onChange(items.map((it, i) => (i === idx ? e.target.value : it)))}
+            placeholder={idx === 0 ? `First item` : `Next item`}
+            className="input-buzzy flex-1 py-2"
+          />
+          <button
+            type="button"
+            onClick={() => moveItem(idx, -1)}
+            disabled={idx === 0}
+            className="p-1 text-text-muted hover:text-buzzy-purple disabled:opacity-30"
+            title="Move up"
+          >
+            <ChevronUp className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => moveItem(idx, 1)}
+            disabled={idx === items.length - 1}
+            className="p-1 text-text-muted hover:text-buzzy-purple disabled:opacity-30"
+            title="Move down"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </button>
+          {items.length > MIN_ORDER_ITEMS && (
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((_, i) => i !== idx))}
+              className="p-1 text-red-500 hover:bg-red-50 rounded"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      {items.length < MAX_ORDER_ITEMS && (
+        <button
+          type="button"
+          onClick={() => onChange([...items, ``])}
+          className="text-sm text-buzzy-purple hover:underline"
+        >
+          + Add item
+        </button>
+      )}
+    </div>
+  )
+}
+
+// List editor for a matching question's pairs, left item beside its match
+function PairsEditor({
+  pairs,
+  onChange,
+}: {
+  pairs: PairDraft[]
+  onChange: (pairs: PairDraft[]) => void
+}) {
+  const updatePair = (index: number, updates: Partial<PairDraft>) => {
+    onChange(pairs.map((p, i) => (i === index ? { ...p, ...updates } : p)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {pairs.map((pair, idx) => (
+        <div key={idx} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={pair.left}
+            onChange={(e) => updatePair(idx, { left: e.target.value })}
+            placeholder={idx === 0 ? `e.g. Grandma` : `Left item`}
+            maxLength={200}
+            className="input-buzzy flex-1 py-2"
+          />
+          <ArrowLeftRight className="w-4 h-4 text-buzzy-purple flex-shrink-0" />
+          <input
+            type="text"
+            value={pair.right}
+            onChange={(e) => updatePair(idx, { right: e.target.value })}
+            placeholder={idx === 0 ? `e.g. Dublin` : `Its match`}
+            maxLength={200}
+            className="input-buzzy flex-1 py-2"
+          />
+          {pairs.length > MIN_PAIRS && (
+            <button
+              type="button"
+              onClick={() => onChange(pairs.filter((_, i) => i !== idx))}
+              className="p-1 text-red-500 hover:bg-red-50 rounded"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      {pairs.length < MAX_PAIRS && (
+        <button
+          type="button"
+          onClick={() => onChange([...pairs, { left: ``, right: `` }])}
+          className="text-sm text-buzzy-purple hover:underline"
+        >
+          + Add pair
+        </button>
+      )}
+    </div>
+  )
+}
+
+// A correct region drawn over a hotspot question's image
+function RegionBox({ region }: { region: HotspotRect }) {
+  return (
+    <div
+      className="absolute border-2 border-state-correct bg-state-correct/20 rounded pointer-events-none"
+      style={{
+        left: `${region.x * 100}%`,
+        top: `${region.y * 100}%`,
+        width: `${region.width * 100}%`,
+        height: `${region.height * 100}%`,
+      }}
+    />
+  )
+}
+
+// Picture picker for a hotspot question, with its correct regions drawn by
+// dragging across the picture
+function HotspotEditor({
+  imageSrc,
+  regions,
+  onPickImage,
+  onChange,
+}: {
+  imageSrc: string | null
+  regions: HotspotRect[]
+  onPickImage: (image: PickedImage) => void
+  onChange: (regions: HotspotRect[]) => void
+}) {
+  const [dragStart, setDragStart] = useState<HotspotPoint | null>(null)
+  const [dragEnd, setDragEnd] = useState<HotspotPoint | null>(null)
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    const reader = new FileReader()
+    reader.onload = () => {
+      onPickImage({ dataUrl: reader.result as string, mimeType: file.type })
+      // Regions drawn on the old picture won't line up with the new one
+      onChange([])
+    }
+    reader.readAsDataURL(file)
+  }
+
+  const pointFrom = (e: React.PointerEvent<HTMLDivElement>) =>
+    getPointOnElement(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect())
+
+  const finishDrag = () => {
+    const region = dragStart && dragEnd ? getDraggedRegion(dragStart, dragEnd) : null
+    if (region && regions.length < MAX_REGIONS) {
+      onChange([...regions, region])
+    }
+    setDragStart(null)
+    setDragEnd(null)
+  }
+
+  const draft = dragStart && dragEnd ? getDraggedRegion(dragStart, dragEnd) : null
+
+  return (
+    <div className="space-y-3">
+      {imageSrc && (
+        <div
+          className="relative max-w-md cursor-crosshair select-none touch-none"
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId)
+            setDragStart(pointFrom(e))
+            setDragEnd(pointFrom(e))
+          }}
+          onPointerMove={(e) => dragStart && setDragEnd(pointFrom(e))}
+          onPointerUp={finishDrag}
+        >
+          <img
+            src={imageSrc}
+            alt="Question image"
+            draggable={false}
+            className="w-full h-auto rounded-xl border border-gray-200"
+          />
+          {regions.map((region, idx) => (
+            <RegionBox key={idx} region={region} />
+          ))}
+          {draft && (
+            <div
+              className="absolute border-2 border-dashed border-buzzy-purple bg-buzzy-purple/10 rounded pointer-events-none"
+              style={{
+                left: `${draft.x * 100}%`,
+                top: `${draft.y * 100}%`,
+                width: `${draft.width * 100}%`,
+                height: `${draft.height * 100}%`,
+              }}
+            />
+          )}
+        </div>
+      )}
+
+      {regions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {regions.map((_, idx) => (
+            <button
+              key={idx}
+              type="button"
+              onClick={() => onChange(regions.filter((_, i) => i !== idx))}
+              className="btn-sm px-3 py-1 rounded-lg bg-state-correct/10 text-state-correct hover:bg-red-50 hover:text-red-500 flex items-center gap-1"
+            >
+              Region {idx + 1}
+              <X className="w-3 h-3" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <label className="inline-flex items-center gap-2 text-sm text-buzzy-purple hover:underline cursor-pointer">
+        <ImageIcon className="w-4 h-4" />
+        {imageSrc ? `Replace picture` : `Choose a picture`}
+        <input type="file" accept="image/*" onChange={handleFile} className="hidden" />
+      </label>
+    </div>
+  )
+}
@@ -6,11 +6,28 @@ import {
   questionBanksCollection,
   questionsCollection,
   answerOptionsCollection,
+  answerPairsCollection,
   usedQuestionsCollection,
   responsesCollection,
+  teamsCollection,
+  sessionRoundsCollection,
+  answerKeyCorrectionsCollection,
+  buzzesCollection,
 } from "@/lib/collections"
 import { trpc } from "@/lib/trpc-client"
-import { useMemo, useState } from "react"
+import { getScoringStrategy, hasAnswerOptions, STREAK_BONUS_THRESHOLD } from "@/lib/scoring"
+import { calculateTeamScores, teamModeLabels, type TeamMode } from "@/lib/teams"
+import { celebrateWinners } from "@/lib/confetti"
+import { AUTOPILOT_OPTIONS } from "@/lib/autopilot"
+import { getBuzzTurns, type BuzzTurn } from "@/lib/buzzer"
+import { countOptionPicks, findPopularWrongOption } from "@/lib/answer-distribution"
+import { countVotes, findMajorityChoices, getPollChoice } from "@/lib/polls"
+import {
+  getPointOnElement,
+  type HotspotPoint,
+  type HotspotRect,
+} from "@/lib/hotspots"
+import { useEffect, useMemo, useState } from "react"
 import { QRCodeSVG } from "qrcode.react"
 import {
   ArrowLeft,
@@ -23,32 +40,112 @@ import {
   Check,
   Crown,
   Trophy,
+  Plus,
+  Trash2,
+  Wrench,
+  Pause,
+  Ban,
+  Bot,
+  ChevronUp,
+  ChevronDown,
+  Zap,
 } from "lucide-react"
 
 interface SessionData {
   id: number
   slug: string
   status: string
+  current_round_id: number | null
   current_question_id: number | null
   round_started_at: string | null
   round_duration_seconds: number
-  winner_player_id: string | null
+  playlist_question_ids: number[]
+  question_count: number | null
+  deck_seed: string | null
+  autopilot_seconds: number
+  autopilot_due_at: Date | null
+  speed_bonus_max: number
+  scoring_strategy: string
+  streak_bonus_points: number
+  team_mode: string
+  buzzer_mode: boolean
+  host_player_id: string | null
+  tied_player_ids: string[]
+  tied_team_ids: number[]
+  winner_player_ids: string[]
+  winner_team_ids: number[]
   bank_id: number
 }
 
 interface PlayerData {
   id: string
   session_id: number
+  team_id: number | null
   display_name: string
   score: number
   is_connected: boolean
 }
 
+interface TeamData {
+  id: number
+  session_id: number
+  name: string
+  captain_player_id: string | null
+}
+
+interface RoundData {
+  id: number
+  session_id: number
+  round_order: number
+  name: string
+  bank_id: number
+  question_count: number
+  round_duration_seconds: number
+}
+
 interface QuestionData {
   id: number
   question_text: string
   question_type: string
-  options: { id: number; option_text: string; is_correct: boolean }[]
+  accepted_answers: string[]
+  numeric_answer: number | null
+  numeric_scoring: string
+  numeric_tolerance: number
+  image_data: string | null
+  image_mime_type: string | null
+  hotspot_regions: HotspotRect[]
+  poll_source: string
+  poll_scoring: string
+  options: {
+    id: number
+    option_text: string
+    is_correct: boolean
+    correct_position: number | null
+  }[]
+}
+
+interface ResponseData {
+  id: number
+  player_id: string
+  text_answer: string | null
+  numeric_guess: number | null
+  is_correct: boolean
+  override_accepted: boolean
+}
+
+interface BuzzData {
+  id: number
+  player_id: string
+  buzzed_at: Date
+  answered_at: Date | null
+}
+
+interface CorrectionData {
+  id: number
+  question_id: number
+  correct_option_ids: number[]
+  responses_rescored: number
+  corrected_at: Date
 }
 
 export const Route = createFileRoute(`/admin/sessions/$sessionId`)({
@@ -62,6 +159,11 @@ export const Route = createFileRoute(`/admin/sessions/$sessionId`)({
       answerOptionsCollection.preload(),
       usedQuestionsCollection.preload(),
       responsesCollection.preload(),
+      teamsCollection.preload(),
+      sessionRoundsCollection.preload(),
+      answerKeyCorrectionsCollection.preload(),
+      answerPairsCollection.preload(),
+      buzzesCollection.preload(),
     ])
   },
 })
@@ -86,17 +188,34 @@ function SessionControlPage() {
   )
   const players = (playersData || []) as PlayerData[]
 
-  // Load bank name via Electric
+  // Real-time teams sync via Electric SQL
+  const { data: teamsData } = useLiveQuery((q) =>
+    q.from({ teams: teamsCollection })
+      .where(({ teams }) => eq(teams.session_id, sessionId))
+  )
+  const teams = (teamsData || []) as TeamData[]
+
+  // Real-time rounds sync via Electric SQL (multi-bank sessions)
+  const { data: roundsData } = useLiveQuery((q) =>
+    q.from({ rounds: sessionRoundsCollection })
+      .where(({ rounds }) => eq(rounds.session_id, sessionId))
+  )
+  const rounds = useMemo(
+    () => [...((roundsData || []) as RoundData[])].sort((a, b) => a.round_order - b.round_order),
+    [roundsData]
+  )
+  const currentRound = rounds.find((r) => r.id === session?.current_round_id) ?? null
+
+  // Load bank names via Electric
   const { data: banksData } = useLiveQuery((q) =>
     q.from({ banks: questionBanksCollection })
-      .where(({ banks }) => eq(banks.id, bankId))
   )
-  const bankName = banksData?.[0]?.name || null
+  const allBanks = banksData || []
+  const bankName = allBanks.find((b) => b.id === bankId)?.name || null
 
-  // Load all questions for this bank via Electric
+  // Load all questions via Electric (rounds may draw from several banks)
   const { data: questionsData } = useLiveQuery((q) =>
     q.from({ questions: questionsCollection })
-      .where(({ questions }) => eq(questions.bank_id, bankId))
   )
   const allQuestions = questionsData || []
 
@@ -106,6 +225,12 @@ function SessionControlPage() {
   )
   const allOptions = optionsData || []
 
+  // Load all matching pairs via Electric
+  const { data: pairsData } = useLiveQuery((q) =>
+    q.from({ pairs: answerPairsCollection })
+  )
+  const allPairs = pairsData || []
+
   // Load used questions for this session via Electric
   const { data: usedQuestionsData } = useLiveQuery((q) =>
     q.from({ usedQuestions: usedQuestionsCollection })
@@ -120,6 +245,23 @@ function SessionControlPage() {
   )
   const responses = responsesData || []
 
+  // Load the buzz queue for this session via Electric (buzzer mode)
+  const { data: buzzesData } = useLiveQuery((q) =>
+    q.from({ buzzes: buzzesCollection })
+      .where(({ buzzes }) => eq(buzzes.session_id, sessionId))
+  )
+  const buzzTurns = useMemo(
+    () => getBuzzTurns((buzzesData || []).filter((b) => b.question_id === session?.current_question_id)),
+    [buzzesData, session?.current_question_id]
+  )
+
+  // Load answer key corrections for this session via Electric (audit trail)
+  const { data: correctionsData } = useLiveQuery((q) =>
+    q.from({ corrections: answerKeyCorrectionsCollection })
+      .where(({ corrections }) => eq(corrections.session_id, sessionId))
+  )
+  const corrections = (correctionsData || []) as CorrectionData[]
+
   // Compute current question with options
   const currentQuestion: QuestionData | null = useMemo(() => {
     if (!session?.current_question_id) return null
@@ -131,38 +273,168 @@ function SessionControlPage() {
     return { ...question, options }
   }, [session?.current_question_id, allQuestions, allOptions])
 
-  // Compute questions remaining
-  const questionsRemaining = useMemo(() => {
-    const total = allQuestions.length
-    const used = usedQuestions.length
-    return { total, used, remaining: total - used }
-  }, [allQuestions.length, usedQuestions.length])
+  // Pairs of the current question when it's a matching question
+  const currentPairs = useMemo(
+    () =>
+      allPairs
+        .filter((p) => p.question_id === session?.current_question_id)
+        .sort((a, b) => a.display_order - b.display_order),
+    [session?.current_question_id, allPairs]
+  )
+
+  // Questions asked so far, in order (their answer keys can be corrected
+  // unless they were voided or have no options to pick). A playing host
+  // doesn't get to see the key of the question they are still answering.
+  const isHostAnswering = !!session?.host_player_id && session.status !== `revealing`
+  const askedQuestions: QuestionData[] = useMemo(() => {
+    return [...usedQuestions]
+      .filter((used) => !used.voided_at)
+      .filter((used) => !(isHostAnswering && used.question_id === session?.current_question_id))
+      .sort((a, b) => a.question_order - b.question_order)
+      .map((used) => allQuestions.find((q) => q.id === used.question_id))
+      .filter((q) => q !== undefined)
+      .filter((q) => hasAnswerOptions(q.question_type))
+      .map((question) => ({
+        ...question,
+        options: allOptions
+          .filter((o) => o.question_id === question.id)
+          .sort((a, b) => a.display_order - b.display_order),
+      }))
+  }, [usedQuestions, allQuestions, allOptions, isHostAnswering, session?.current_question_id])
+
+  // Question progress ("Question 7 of 10"), refreshed as the game moves on
+  const playlistLength = session?.playlist_question_ids.length ?? 0
+  const [questionsRemaining, setQuestionsRemaining] = useState({ total: 0, used: 0, remaining: 0 })
+  useEffect(() => {
+    if (!session) return
+    trpc.game.getRemainingQuestionsCount
+      .query({ sessionId: session.id })
+      .then(setQuestionsRemaining)
+      .catch(() => {
+        // Keep the last known progress
+      })
+  }, [session?.id, session?.status, session?.current_question_id, session?.question_count])
+
+  // Players sharing the lead (tied state and sudden death) and the winners
+  const tiedPlayers = players.filter((p) => session?.tied_player_ids.includes(p.id))
+  const tiedTeams = teams.filter((t) => session?.tied_team_ids.includes(t.id))
+  const winners = players.filter((p) => session?.winner_player_ids.includes(p.id))
+
+  // Celebrate every winner when the game ends
+  const hasWinners = session?.status === `ended` && winners.length > 0
+  useEffect(() => {
+    if (hasWinners) celebrateWinners(winners.length)
+  }, [hasWinners])
+
+  // Progress through the current round
+  const roundProgress = useMemo(() => {
+    if (!currentRound) return null
+    const used = usedQuestions.filter((u) => u.round_id === currentRound.id && !u.voided_at).length
+    const nextRound = rounds.find((r) => r.round_order > currentRound.round_order) ?? null
+    return { used, isComplete: used >= currentRound.question_count, nextRound }
+  }, [currentRound, rounds, usedQuestions])
 
   // Compute round stats from responses
+  // Polls have no right answer, so they count the votes instead
   const roundStats = useMemo(() => {
     if (session?.status !== `revealing` || !session.current_question_id) return null
     const questionResponses = responses.filter((r) => r.question_id === session.current_question_id)
-    if (questionResponses.length === 0) return { percentCorrect: 0 }
+    const voteCount = currentQuestion?.question_type === `poll` ? questionResponses.length : null
+    if (questionResponses.length === 0) return { percentCorrect: 0, voteCount }
     const correctCount = questionResponses.filter((r) => r.points_earned > 0).length
-    return { percentCorrect: Math.round((correctCount / questionResponses.length) * 100) }
-  }, [session?.status, session?.current_question_id, responses])
+    return { percentCorrect: Math.round((correctCount / questionResponses.length) * 100), voteCount }
+  }, [session?.status, session?.current_question_id, currentQuestion?.question_type, responses])
+
+  // Aggregate team scores (team games only)
+  const isTeamGame = session?.team_mode !== undefined && session.team_mode !== `off`
+  const teamScores = useMemo(() => {
+    if (!isTeamGame || !session) return []
+    return calculateTeamScores(teams, players, session.team_mode)
+  }, [isTeamGame, session?.team_mode, teams, players])
 
   const [isActionLoading, setIsActionLoading] = useState(false)
   const [copied, setCopied] = useState(false)
+  const [newTeamName, setNewTeamName] = useState(``)
+  const [actionError, setActionError] = useState(``)
+  const [hostName, setHostName] = useState(``)
+  const [hostSelection, setHostSelection] = useState<number[]>([])
+  const [hostTextAnswer, setHostTextAnswer] = useState(``)
+  const [hostGuess, setHostGuess] = useState(``)
+  const [hostPairMatches, setHostPairMatches] = useState<{ left_id: number; right_id: number }[]>([])
+  const [hostTap, setHostTap] = useState<HotspotPoint | null>(null)
+  const [hostVotedPlayerId, setHostVotedPlayerId] = useState<string | null>(null)
+
+  // The host's own player record and answer, when the host plays too
+  const hostPlayer = players.find((p) => p.id === session?.host_player_id) ?? null
+  const hostResponse = responses.find(
+    (r) => r.player_id === hostPlayer?.id && r.question_id === session?.current_question_id
+  )
+  const hostTeam = teams.find((t) => t.id === hostPlayer?.team_id)
+  const hostIsInPlay =
+    hostPlayer !== null &&
+    session?.status === `active` &&
+    (session.team_mode !== `captain` || hostTeam?.captain_player_id === hostPlayer.id) &&
+    (session.tied_player_ids.length === 0 || session.tied_player_ids.includes(hostPlayer.id))
+  // In buzzer mode the host also buzzes in and waits for their turn
+  const hostBuzzTurn = buzzTurns.find((b) => b.player_id === hostPlayer?.id)?.turn ?? null
+  const hostCanBuzz = hostIsInPlay && !!session?.buzzer_mode && hostBuzzTurn === null
+  const hostCanAnswer =
+    hostIsInPlay &&
+    !hostResponse &&
+    (!session?.buzzer_mode || hostBuzzTurn === `answering`)
+
+  // Start each question with a clean selection
+  useEffect(() => {
+    setHostSelection([])
+    setHostTextAnswer(``)
+    setHostGuess(``)
+    setHostPairMatches([])
+    setHostTap(null)
+    setHostVotedPlayerId(null)
+  }, [session?.current_question_id])
 
   const gameUrl = typeof window !== `undefined` ? `${window.location.origin}/game/${session?.slug}` : ``
 
   const handleStartGame = async () => {
     if (!session) return
     setIsActionLoading(true)
+    setActionError(``)
     try {
       await trpc.game.startGame.mutate({ sessionId: session.id })
       // Electric will sync automatically
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to start game`)
     } finally {
       setIsActionLoading(false)
     }
   }
 
+  const handleAddTeam = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!session || !newTeamName.trim()) return
+    setActionError(``)
+    try {
+      await trpc.teams.create.mutate({ sessionId: session.id, name: newTeamName.trim() })
+      setNewTeamName(``)
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to add team`)
+    }
+  }
+
+  const handleDeleteTeam = async (teamId: number) => {
+    await trpc.teams.delete.mutate({ id: teamId })
+  }
+
+  const handleAssignPlayer = async (playerId: string, teamId: number | null) => {
+    await trpc.teams.assignPlayer.mutate({ playerId, teamId })
+  }
+
+  const handleSetCaptain = async (teamId: number, playerId: string) => {
+    await trpc.teams.setCaptain.mutate({ teamId, playerId })
+  }
+
   const handleNextQuestion = async () => {
     if (!session) return
     setIsActionLoading(true)
@@ -174,6 +446,34 @@ function SessionControlPage() {
     }
   }
 
+  const handleDeclareCoWinners = async () => {
+    if (!session) return
+    setIsActionLoading(true)
+    setActionError(``)
+    try {
+      await trpc.game.declareCoWinners.mutate({ sessionId: session.id })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to declare co-winners`)
+    } finally {
+      setIsActionLoading(false)
+    }
+  }
+
+  const handleStartTiebreaker = async () => {
+    if (!session) return
+    setIsActionLoading(true)
+    setActionError(``)
+    try {
+      await trpc.game.startTiebreaker.mutate({ sessionId: session.id })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to start tiebreaker`)
+    } finally {
+      setIsActionLoading(false)
+    }
+  }
+
   const handleForceReveal = async () => {
     if (!session) return
     setIsActionLoading(true)
@@ -185,6 +485,182 @@ function SessionControlPage() {
     }
   }
 
+  const handlePauseGame = async () => {
+    if (!session) return
+    setIsActionLoading(true)
+    setActionError(``)
+    try {
+      await trpc.game.pauseGame.mutate({ sessionId: session.id })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to pause game`)
+    } finally {
+      setIsActionLoading(false)
+    }
+  }
+
+  const handleResumeGame = async () => {
+    if (!session) return
+    setIsActionLoading(true)
+    setActionError(``)
+    try {
+      await trpc.game.resumeGame.mutate({ sessionId: session.id })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to resume game`)
+    } finally {
+      setIsActionLoading(false)
+    }
+  }
+
+  const handleJoinAsHost = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!session || !hostName.trim()) return
+    setActionError(``)
+    try {
+      await trpc.players.joinAsHost.mutate({ sessionId: session.id, displayName: hostName.trim() })
+      setHostName(``)
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to join as a player`)
+    }
+  }
+
+  const handleLeaveAsHost = async () => {
+    if (!session) return
+    setActionError(``)
+    try {
+      await trpc.players.leaveAsHost.mutate({ sessionId: session.id })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to stop playing`)
+    }
+  }
+
+  const toggleHostOption = (optionId: number) => {
+    if (!hostCanAnswer) return
+    if (currentQuestion?.question_type === `single`) {
+      setHostSelection([optionId])
+    } else {
+      setHostSelection((prev) =>
+        prev.includes(optionId) ? prev.filter((id) => id !== optionId) : [...prev, optionId]
+      )
+    }
+  }
+
+  const isTextQuestion = currentQuestion?.question_type === `text`
+  const isNumericQuestion = currentQuestion?.question_type === `numeric`
+  const isOrderingQuestion = currentQuestion?.question_type === `ordering`
+  const isMatchingQuestion = currentQuestion?.question_type === `matching`
+  const isHotspotQuestion = currentQuestion?.question_type === `hotspot`
+  const isPollQuestion = currentQuestion?.question_type === `poll`
+  const isPlayerPoll = isPollQuestion && currentQuestion.poll_source === `players`
+  // The host's order for an ordering question, starting from the shown order
+  const hostOrder =
+    isOrderingQuestion && hostSelection.length !== currentQuestion.options.length
+      ? currentQuestion.options.map((o) => o.id)
+      : hostSelection
+  const hostHasAnswer = isTextQuestion
+    ? hostTextAnswer.trim().length > 0
+    : isNumericQuestion
+      ? hostGuess.trim() !== `` && Number.isFinite(Number(hostGuess))
+      : isMatchingQuestion
+        ? hostPairMatches.length === currentPairs.length
+        : isHotspotQuestion
+          ? hostTap !== null
+          : isPlayerPoll
+            ? hostVotedPlayerId !== null
+            : hostOrder.length > 0
+
+  // Vote in a poll, for one of its options or one of the players
+  const voteHostPoll = (choiceId: string) => {
+    if (!hostCanAnswer) return
+    if (isPlayerPoll) {
+      setHostVotedPlayerId(choiceId)
+    } else {
+      setHostSelection([Number(choiceId)])
+    }
+  }
+
+  // Match a left-hand item to a right-hand one, freeing up whatever either
+  // was matched with before
+  const matchHostPair = (leftId: number, rightId: number | null) => {
+    if (!hostCanAnswer) return
+    const remaining = hostPairMatches.filter((m) => m.left_id !== leftId && m.right_id !== rightId)
+    setHostPairMatches(rightId === null ? remaining : [...remaining, { left_id: leftId, right_id: rightId }])
+  }
+
+  const moveHostOrderItem = (index: number, offset: number) => {
+    if (!hostCanAnswer) return
+    const target = index + offset
+    if (target < 0 || target >= hostOrder.length) return
+    const next = [...hostOrder]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setHostSelection(next)
+  }
+
+  const handleHostSubmit = async () => {
+    if (!session || !hostPlayer || !session.current_question_id || !hostHasAnswer) return
+    setIsActionLoading(true)
+    setActionError(``)
+    try {
+      await trpc.game.submitAnswer.mutate({
+        playerId: hostPlayer.id,
+        sessionId: session.id,
+        questionId: session.current_question_id,
+        ...(isTextQuestion
+          ? { textAnswer: hostTextAnswer }
+          : isNumericQuestion
+            ? { numericGuess: Number(hostGuess) }
+            : isMatchingQuestion
+              ? { pairMatches: hostPairMatches }
+              : isHotspotQuestion && hostTap
+                ? { tapX: hostTap.x, tapY: hostTap.y }
+                : isPlayerPoll && hostVotedPlayerId
+                  ? { votedPlayerId: hostVotedPlayerId }
+                  : { selectedOptionIds: hostOrder }),
+      })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to submit answer`)
+    } finally {
+      setIsActionLoading(false)
+    }
+  }
+
+  const handleHostBuzz = async () => {
+    if (!session || !hostPlayer || !session.current_question_id) return
+    setIsActionLoading(true)
+    setActionError(``)
+    try {
+      await trpc.game.buzz.mutate({
+        playerId: hostPlayer.id,
+        sessionId: session.id,
+        questionId: session.current_question_id,
+      })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to buzz in`)
+    } finally {
+      setIsActionLoading(false)
+    }
+  }
+
+  const handleVoidQuestion = async () => {
+    if (!session) return
+    if (!confirm(`Void this question? All answers to it are discarded and their points taken back.`)) return
+    setIsActionLoading(true)
+    setActionError(``)
+    try {
+      await trpc.game.voidQuestion.mutate({ sessionId: session.id })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setActionError(error.message || `Failed to void question`)
+    } finally {
+      setIsActionLoading(false)
+    }
+  }
+
   const handleEndGame = async () => {
     if (!session) return
     if (!confirm(`Are you sure you want to end the game?`)) return
@@ -273,12 +749,147 @@ function SessionControlPage() {
                   }`}
                 >
                   {player.display_name}
+                  {player.id === session.host_player_id && ` (you)`}
                 </span>
               ))}
             </div>
           )}
         </div>
 
+        {/* Host plays too */}
+        <div className="card-buzzy">
+          <h3 className="text-xl font-bold text-text-dark mb-1">Play Too</h3>
+          {hostPlayer ? (
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-text-muted">
+                You're playing as <span className="font-semibold text-buzzy-purple">{hostPlayer.display_name}</span>.
+                Answer on this screen - correct answers stay hidden until each reveal.
+              </p>
+              <button onClick={handleLeaveAsHost} className="btn-secondary btn-sm flex-shrink-0">
+                Stop Playing
+              </button>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-text-muted mb-4">
+                Join the game yourself and answer from this screen.
+              </p>
+              <form onSubmit={handleJoinAsHost} className="flex gap-2">
+                <input
+                  type="text"
+                  value={hostName}
+                  onChange={(e) => setHostName(e.target.value)}
+                  placeholder="Your name"
+                  minLength={3}
+                  maxLength={50}
+                  className="input-buzzy flex-1"
+                />
+                <button type="submit" disabled={hostName.trim().length < 3} className="btn-primary btn-sm">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Join
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+
+        {/* Teams */}
+        {isTeamGame && (
+          <div className="card-buzzy">
+            <h3 className="text-xl font-bold text-text-dark mb-1">Teams</h3>
+            <p className="text-sm text-text-muted mb-4">
+              {teamModeLabels[session.team_mode as TeamMode]}
+            </p>
+
+            <form onSubmit={handleAddTeam} className="flex gap-2 mb-4">
+              <input
+                type="text"
+                placeholder="Team name"
+                value={newTeamName}
+                onChange={(e) => setNewTeamName(e.target.value)}
+                className="input-buzzy flex-1"
+                maxLength={50}
+              />
+              <button type="submit" disabled={!newTeamName.trim()} className="btn-secondary btn-sm">
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </button>
+            </form>
+
+            <div className="space-y-3">
+              {teams.map((team) => {
+                const members = players.filter((p) => p.team_id === team.id)
+                return (
+                  <div key={team.id} className="p-3 rounded-xl bg-gray-50">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-semibold text-text-dark">{team.name}</span>
+                      <button
+                        onClick={() => handleDeleteTeam(team.id)}
+                        className="p-1 rounded-lg hover:bg-gray-200 text-text-muted"
+                        aria-label={`Delete ${team.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {members.length === 0 ? (
+                      <p className="text-sm text-text-muted">No players yet</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2">
+                        {members.map((member) => (
+                          <button
+                            key={member.id}
+                            onClick={() => handleSetCaptain(team.id, member.id)}
+                            title="Make captain"
+                            className={`px-3 py-1 rounded-full text-sm font-medium ${
+                              team.captain_player_id === member.id
+                                ? `bg-buzzy-purple text-white`
+                                : `bg-buzzy-purple/10 text-buzzy-purple`
+                            }`}
+                          >
+                            {team.captain_player_id === member.id && <Crown className="w-3 h-3 inline mr-1" />}
+                            {member.display_name}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            {players.length > 0 && teams.length > 0 && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm font-medium text-text-dark">Assign players</p>
+                {players.map((player) => (
+                  <div key={player.id} className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-text-dark">{player.display_name}</span>
+                    <select
+                      value={player.team_id ?? ``}
+                      onChange={(e) =>
+                        handleAssignPlayer(player.id, e.target.value ? Number(e.target.value) : null)
+                      }
+                      className="input-buzzy py-1 w-auto"
+                    >
+                      <option value="">No team</option>
+                      {teams.map((team) => (
+                        <option key={team.id} value={team.id}>
+                          {team.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {actionError && (
+          <div className="p-4 rounded-xl bg-red-50 border-2 border-red-200">
+            <p className="text-red-700 text-sm font-medium">{actionError}</p>
+          </div>
+        )}
+
         {/* Start button */}
         <button
           onClick={handleStartGame}
@@ -290,27 +901,48 @@ function SessionControlPage() {
         </button>
 
         <p className="text-center text-text-muted text-sm">
-          {questionsRemaining.total} questions available
+          {playlistLength > 0
+            ? `Playlist of ${playlistLength} questions`
+            : rounds.length > 0
+              ? `${rounds.length} rounds · ${questionsRemaining.total} questions`
+              : `${questionsRemaining.total} questions`}
+          {` · ${getScoringStrategy(session.scoring_strategy).label} scoring`}
+          {session.buzzer_mode && ` · Buzzer mode`}
+          {session.speed_bonus_max > 0 && ` · Speed bonus up to +${session.speed_bonus_max}`}
+          {session.streak_bonus_points > 0 && ` · Streak bonus +${session.streak_bonus_points}`}
         </p>
       </div>
     )
   }
 
   // Active/Revealing state
-  if (session.status === `active` || session.status === `revealing`) {
+  if (session.status === `active` || session.status === `paused` || session.status === `revealing`) {
     const isRevealing = session.status === `revealing`
+    const isPaused = session.status === `paused`
+    const isTiebreaker = session.tied_player_ids.length > 0
 
     return (
       <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
         {/* Header */}
         <div className="flex items-center justify-between">
           <div>
-            <span className={isRevealing ? `badge-revealing` : `badge-active`}>
-              {isRevealing ? `Revealing Answer` : `Question Active`}
+            <span className={isRevealing ? `badge-revealing` : isPaused ? `badge-lobby` : `badge-active`}>
+              {isRevealing ? `Revealing Answer` : isPaused ? `Paused` : `Question Active`}
             </span>
-            <p className="text-text-muted text-sm mt-1">
-              Question {questionsRemaining.used} of {questionsRemaining.total}
-            </p>
+            {isTiebreaker ? (
+              <p className="text-buzzy-orange text-sm font-semibold mt-1">
+                Sudden death:{` `}
+                {tiedTeams.length > 0
+                  ? tiedTeams.map((t) => `Team ${t.name}`).join(` vs `)
+                  : tiedPlayers.map((p) => p.display_name).join(` vs `)}
+              </p>
+            ) : (
+              <p className="text-text-muted text-sm mt-1">
+                Question {questionsRemaining.used} of {questionsRemaining.total}
+                {currentRound && roundProgress &&
+                  ` · Round ${currentRound.round_order}: ${currentRound.name} (${roundProgress.used} of ${currentRound.question_count})`}
+              </p>
+            )}
           </div>
           <button
             onClick={handleEndGame}
@@ -326,36 +958,351 @@ function SessionControlPage() {
         {currentQuestion && (
           <div className="card-buzzy">
             <p className="text-sm text-text-muted mb-2">
-              {currentQuestion.question_type === `multi` ? `Multi-select` : `Single answer`}
+              {currentQuestion.question_type === `multi`
+                ? `Multi-select`
+                : isTextQuestion
+                  ? `Free text`
+                  : isNumericQuestion
+                    ? currentQuestion.numeric_scoring === `tolerance`
+                      ? `Numeric (within ±${currentQuestion.numeric_tolerance.toLocaleString()})`
+                      : `Numeric (closest wins)`
+                    : isOrderingQuestion
+                      ? `Put in order`
+                      : isMatchingQuestion
+                        ? `Match pairs`
+                        : isHotspotQuestion
+                          ? `Tap the picture`
+                          : isPollQuestion
+                            ? currentQuestion.poll_scoring === `majority`
+                              ? `Poll (majority scores)`
+                              : `Poll (just for fun)`
+                            : `Single answer`}
             </p>
             <h2 className="text-xl font-bold text-text-dark mb-4">
               {currentQuestion.question_text}
             </h2>
 
+            {/* Free-text: the host types an answer, and at the reveal reviews everyone's */}
+            {isTextQuestion && hostPlayer && !isRevealing && (
+              <input
+                type="text"
+                value={hostResponse?.text_answer ?? hostTextAnswer}
+                onChange={(e) => setHostTextAnswer(e.target.value)}
+                disabled={!hostCanAnswer}
+                maxLength={200}
+                placeholder="Type your answer..."
+                className="input-buzzy"
+              />
+            )}
+
+            {isNumericQuestion && hostPlayer && !isRevealing && (
+              <input
+                type="number"
+                inputMode="decimal"
+                step="any"
+                value={hostResponse?.numeric_guess ?? hostGuess}
+                onChange={(e) => setHostGuess(e.target.value)}
+                disabled={!hostCanAnswer}
+                placeholder="Your best guess..."
+                className="input-buzzy"
+              />
+            )}
+
+            {isNumericQuestion && isRevealing && currentQuestion.numeric_answer !== null && (
+              <NumericGuessList
+                answer={currentQuestion.numeric_answer}
+                responses={responses.filter((r) => r.question_id === currentQuestion.id)}
+                players={players}
+                hostPlayerId={session.host_player_id}
+              />
+            )}
+
+            {isTextQuestion && isRevealing && (
+              <TextAnswerReview
+                acceptedAnswers={currentQuestion.accepted_answers}
+                responses={responses.filter((r) => r.question_id === currentQuestion.id)}
+                players={players}
+                hostPlayerId={session.host_player_id}
+              />
+            )}
+
+            {/* Hotspot: the host can tap the picture to play, and the reveal shows the correct regions and everyone's taps */}
+            {isHotspotQuestion && currentQuestion.image_data && (
+              <HotspotPicture
+                src={`data:${currentQuestion.image_mime_type};base64,${currentQuestion.image_data}`}
+                tap={
+                  hostResponse?.tap_x != null && hostResponse.tap_y != null
+                    ? { x: hostResponse.tap_x, y: hostResponse.tap_y }
+                    : hostTap
+                }
+                onTap={hostCanAnswer ? setHostTap : undefined}
+                regions={isRevealing ? currentQuestion.hotspot_regions : []}
+                heatTaps={
+                  isRevealing
+                    ? responses
+                        .filter((r) => r.question_id === currentQuestion.id && r.tap_x !== null && r.tap_y !== null)
+                        .map((r) => ({ x: r.tap_x!, y: r.tap_y! }))
+                    : []
+                }
+              />
+            )}
+
+            {/* Matching: the host can pick a match for each item to play, and the reveal shows the right pairs */}
+            {isMatchingQuestion && (
+              <div className="space-y-2">
+                {currentPairs.map((pair) => {
+                  const matchedId = (hostResponse?.pair_matches ?? hostPairMatches).find(
+                    (m) => m.left_id === pair.id
+                  )?.right_id
+                  return (
+                    <div
+                      key={pair.id}
+                      className={`flex items-center gap-3 p-4 rounded-xl border-2 ${
+                        isRevealing
+                          ? `bg-state-correct/10 border-state-correct text-state-correct`
+                          : `bg-gray-50 border-gray-200 text-text-dark`
+                      }`}
+                    >
+                      <span className="flex-1 font-medium">{pair.left_text}</span>
+                      {isRevealing ? (
+                        <span className="flex-1">{pair.right_text}</span>
+                      ) : (
+                        <select
+                          value={matchedId ?? ``}
+                          onChange={(e) => matchHostPair(pair.id, e.target.value ? Number(e.target.value) : null)}
+                          disabled={!hostCanAnswer}
+                          className="input-buzzy flex-1 py-2"
+                        >
+                          <option value="">Match with...</option>
+                          {[...currentPairs]
+                            .sort((a, b) => a.right_text.localeCompare(b.right_text))
+                            .map((right) => (
+                              <option key={right.right_id} value={right.right_id}>
+                                {right.right_text}
+                              </option>
+                            ))}
+                        </select>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            {/* Ordering: the host can reorder the items to play, and the reveal shows the correct order */}
+            {isOrderingQuestion && (
+              <ol className="space-y-2">
+                {(isRevealing
+                  ? [...currentQuestion.options]
+                      .sort((a, b) => (a.correct_position ?? 0) - (b.correct_position ?? 0))
+                      .map((o) => o.id)
+                  : (hostResponse?.selected_option_ids ?? hostOrder)
+                ).map((optionId, idx, order) => (
+                  <li
+                    key={optionId}
+                    className={`flex items-center gap-3 p-4 rounded-xl border-2 ${
+                      isRevealing
+                        ? `bg-state-correct/10 border-state-correct text-state-correct`
+                        : `bg-gray-50 border-gray-200 text-text-dark`
+                    }`}
+                  >
+                    <span className="font-bold w-6 text-center">{idx + 1}</span>
+                    <span className="flex-1">
+                      {currentQuestion.options.find((o) => o.id === optionId)?.option_text}
+                    </span>
+                    {hostCanAnswer && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => moveHostOrderItem(idx, -1)}
+                          disabled={idx === 0}
+                          className="p-1 text-text-muted hover:text-buzzy-purple disabled:opacity-30"
+                          title="Move up"
+                        >
+                          <ChevronUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveHostOrderItem(idx, 1)}
+                          disabled={idx === order.length - 1}
+                          className="p-1 text-text-muted hover:text-buzzy-purple disabled:opacity-30"
+                          title="Move down"
+                        >
+                          <ChevronDown className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            {/* Poll: the host can vote to play, and the reveal shows how everyone voted */}
+            {isPollQuestion && !isRevealing && (
+              <div className="space-y-2">
+                {(isPlayerPoll
+                  ? players.map((p) => ({ id: p.id, label: p.display_name }))
+                  : currentQuestion.options.map((o) => ({ id: String(o.id), label: o.option_text }))
+                ).map((choice) => {
+                  const isHostPick = isPlayerPoll
+                    ? (hostResponse?.voted_player_id ?? hostVotedPlayerId) === choice.id
+                    : (hostResponse?.selected_option_ids ?? hostSelection).includes(Number(choice.id))
+                  return (
+                    <button
+                      key={choice.id}
+                      type="button"
+                      onClick={() => voteHostPoll(choice.id)}
+                      disabled={!hostCanAnswer}
+                      className={`w-full text-left p-4 rounded-xl border-2 ${
+                        isHostPick
+                          ? `bg-buzzy-purple/10 border-buzzy-purple text-buzzy-purple`
+                          : `bg-gray-50 border-gray-200 text-text-dark`
+                      }`}
+                    >
+                      {choice.label}
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+            {isPollQuestion && isRevealing && (
+              <PollResults
+                choices={
+                  isPlayerPoll
+                    ? players.map((p) => ({ id: p.id, label: p.display_name }))
+                    : currentQuestion.options.map((o) => ({ id: String(o.id), label: o.option_text }))
+                }
+                votes={responses
+                  .filter((r) => r.question_id === currentQuestion.id)
+                  .map(getPollChoice)
+                  .filter((choice): choice is string => choice !== null)}
+              />
+            )}
+
+            {/* Correct answers stay hidden until the reveal, so a playing host plays fair */}
+            {!isOrderingQuestion && !isMatchingQuestion && !isPollQuestion && (
+              <div className="space-y-2">
+                {currentQuestion.options.map((option) => {
+                  const isHostPick = (hostResponse?.selected_option_ids ?? hostSelection).includes(option.id)
+                  return (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => toggleHostOption(option.id)}
+                      disabled={!hostCanAnswer}
+                      className={`w-full text-left p-4 rounded-xl border-2 ${
+                        isRevealing && option.is_correct
+                          ? `bg-state-correct/10 border-state-correct text-state-correct`
+                          : isHostPick
+                            ? `bg-buzzy-purple/10 border-buzzy-purple text-buzzy-purple`
+                            : `bg-gray-50 border-gray-200 text-text-dark`
+                      }`}
+                    >
+                      {option.option_text}
+                      {isRevealing && option.is_correct && (
+                        <Check className="w-5 h-5 inline ml-2" />
+                      )}
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+
+            {/* How everyone answered, updating as responses sync */}
+            {isRevealing && hasAnswerOptions(currentQuestion.question_type) && (
+              <AnswerDistribution
+                options={currentQuestion.options}
+                responses={responses.filter((r) => r.question_id === currentQuestion.id)}
+              />
+            )}
+
+            {/* Buzz queue, in the order the server received the buzzes */}
+            {session.buzzer_mode && (
+              <BuzzQueue turns={buzzTurns} players={players} isRevealing={isRevealing} />
+            )}
+
+            {/* The host's own answer */}
+            {hostPlayer && !isRevealing && (
+              <div className="mt-4">
+                {hostCanBuzz ? (
+                  <button
+                    onClick={handleHostBuzz}
+                    disabled={isActionLoading}
+                    className="btn-primary w-full"
+                  >
+                    <Zap className="w-4 h-4 mr-2" />
+                    Buzz In
+                  </button>
+                ) : hostCanAnswer ? (
+                  <button
+                    onClick={handleHostSubmit}
+                    disabled={isActionLoading || !hostHasAnswer}
+                    className="btn-primary w-full"
+                  >
+                    Lock In My Answer
+                  </button>
+                ) : (
+                  <p className="text-sm text-text-muted text-center">
+                    {hostResponse
+                      ? `Your answer is locked in.`
+                      : hostBuzzTurn === `waiting`
+                        ? `You're in the buzz queue.`
+                        : `You're sitting this one out.`}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {hostPlayer && isRevealing && hostResponse && (
+              <p className="mt-4 text-sm font-semibold text-buzzy-purple text-center">
+                You earned {hostResponse.points_earned > 0 ? `+` : ``}
+                {hostResponse.points_earned} point{Math.abs(hostResponse.points_earned) !== 1 ? `s` : ``}
+              </p>
+            )}
+
+            {isRevealing && roundStats && (
+              <div className="mt-4 p-4 rounded-xl bg-buzzy-teal/10 text-center">
+                {roundStats.voteCount !== null ? (
+                  <>
+                    <p className="text-3xl font-bold text-buzzy-teal">{roundStats.voteCount}</p>
+                    <p className="text-sm text-text-muted">vote{roundStats.voteCount !== 1 ? `s` : ``} cast</p>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-3xl font-bold text-buzzy-teal">{roundStats.percentCorrect}%</p>
+                    <p className="text-sm text-text-muted">of players got it right</p>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Team Scoreboard */}
+        {isTeamGame && (
+          <div className="card-buzzy">
+            <h3 className="text-lg font-bold text-text-dark mb-4">Team Scores</h3>
             <div className="space-y-2">
-              {currentQuestion.options.map((option) => (
+              {teamScores.map((teamScore, idx) => (
                 <div
-                  key={option.id}
-                  className={`p-4 rounded-xl border-2 ${
-                    isRevealing && option.is_correct
-                      ? `bg-state-correct/10 border-state-correct text-state-correct`
-                      : `bg-gray-50 border-gray-200 text-text-dark`
+                  key={teamScore.teamId}
+                  className={`flex items-center justify-between p-3 rounded-xl ${
+                    idx === 0 ? `bg-buzzy-yellow/20` : `bg-gray-50`
                   }`}
                 >
-                  {option.option_text}
-                  {isRevealing && option.is_correct && (
-                    <Check className="w-5 h-5 inline ml-2" />
-                  )}
+                  <div className="flex items-center gap-3">
+                    {idx === 0 && <Crown className="w-5 h-5 text-buzzy-yellow" />}
+                    <span className="font-medium text-text-dark">
+                      {teams.find((t) => t.id === teamScore.teamId)?.name}
+                    </span>
+                    <span className="text-xs text-text-muted">
+                      ({teamScore.memberCount} player{teamScore.memberCount !== 1 ? `s` : ``})
+                    </span>
+                  </div>
+                  <span className="font-bold text-buzzy-purple">{teamScore.score}</span>
                 </div>
               ))}
             </div>
-
-            {isRevealing && roundStats && (
-              <div className="mt-4 p-4 rounded-xl bg-buzzy-teal/10 text-center">
-                <p className="text-3xl font-bold text-buzzy-teal">{roundStats.percentCorrect}%</p>
-                <p className="text-sm text-text-muted">of players got it right</p>
-              </div>
-            )}
           </div>
         )}
 
@@ -376,6 +1323,7 @@ function SessionControlPage() {
                     {idx === 0 && <Crown className="w-5 h-5 text-buzzy-yellow" />}
                     <span className={`font-medium ${!player.is_connected ? `text-gray-400` : `text-text-dark`}`}>
                       {player.display_name}
+                      {player.id === session.host_player_id && ` (you)`}
                     </span>
                     {!player.is_connected && (
                       <span className="text-xs text-gray-400">(disconnected)</span>
@@ -387,9 +1335,44 @@ function SessionControlPage() {
           </div>
         </div>
 
+        {actionError && (
+          <p className="text-red-600 text-sm text-center">{actionError}</p>
+        )}
+
         {/* Controls */}
         <div className="flex gap-4">
-          {!isRevealing && (
+          {isPaused && (
+            <button
+              onClick={handleResumeGame}
+              disabled={isActionLoading}
+              className="btn-primary flex-1"
+            >
+              <Play className="w-5 h-5 mr-2" />
+              {isActionLoading ? `...` : `Resume`}
+            </button>
+          )}
+
+          <button
+            onClick={handleVoidQuestion}
+            disabled={isActionLoading}
+            className="btn-secondary flex-1"
+          >
+            <Ban className="w-5 h-5 mr-2" />
+            {isActionLoading ? `...` : `Void Question`}
+          </button>
+
+          {!isRevealing && !isPaused && (
+            <button
+              onClick={handlePauseGame}
+              disabled={isActionLoading}
+              className="btn-secondary flex-1"
+            >
+              <Pause className="w-5 h-5 mr-2" />
+              {isActionLoading ? `...` : `Pause`}
+            </button>
+          )}
+
+          {!isRevealing && !isPaused && (
             <button
               onClick={handleForceReveal}
               disabled={isActionLoading}
@@ -400,24 +1383,163 @@ function SessionControlPage() {
             </button>
           )}
 
-          {isRevealing && (
+          {isRevealing && isTiebreaker && (
+            <button
+              onClick={handleEndGame}
+              disabled={isActionLoading}
+              className="btn-primary flex-1"
+            >
+              <Trophy className="w-5 h-5 mr-2" />
+              {isActionLoading ? `...` : `Check for a Winner`}
+            </button>
+          )}
+
+          {isRevealing && !isTiebreaker && (
             <button
               onClick={handleNextQuestion}
               disabled={isActionLoading || questionsRemaining.remaining === 0}
               className="btn-primary flex-1"
             >
               <SkipForward className="w-5 h-5 mr-2" />
-              {isActionLoading ? `...` : questionsRemaining.remaining === 0 ? `No More Questions` : `Next Question`}
+              {isActionLoading
+                ? `...`
+                : questionsRemaining.remaining === 0
+                  ? `Final Results Coming Up`
+                  : roundProgress?.isComplete && roundProgress.nextRound
+                    ? `Next Round`
+                    : `Next Question`}
             </button>
           )}
         </div>
+
+        <AutopilotControl session={session} />
+
+        <AnswerKeyCorrector
+          sessionId={session.id}
+          askedQuestions={askedQuestions}
+          corrections={corrections}
+          defaultQuestionId={session.current_question_id}
+        />
+      </div>
+    )
+  }
+
+  // Round transition state (between named rounds)
+  if (session.status === `intermission` && currentRound) {
+    const roundBankName = allBanks.find((b) => b.id === currentRound.bank_id)?.name
+
+    return (
+      <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <span className="badge-lobby">Between Rounds</span>
+          <button
+            onClick={handleEndGame}
+            disabled={isActionLoading}
+            className="btn-danger btn-sm"
+          >
+            <Square className="w-4 h-4 mr-2" />
+            End Game
+          </button>
+        </div>
+
+        <div className="card-buzzy text-center py-10">
+          <p className="text-sm text-text-muted mb-2">
+            Up next · Round {currentRound.round_order} of {rounds.length}
+          </p>
+          <h2 className="text-3xl font-bold text-text-dark mb-2">{currentRound.name}</h2>
+          <p className="text-text-muted">
+            {currentRound.question_count} questions
+            {roundBankName && ` from ${roundBankName}`}
+            {` · ${currentRound.round_duration_seconds}s per question`}
+          </p>
+        </div>
+
+        <button
+          onClick={handleNextQuestion}
+          disabled={isActionLoading}
+          className="btn-primary w-full text-2xl py-6"
+        >
+          <Play className="w-8 h-8 mr-3" />
+          {isActionLoading ? `Starting...` : `Start Round ${currentRound.round_order}`}
+        </button>
+
+        <AutopilotControl session={session} />
+
+        <AnswerKeyCorrector
+          sessionId={session.id}
+          askedQuestions={askedQuestions}
+          corrections={corrections}
+          defaultQuestionId={session.current_question_id}
+        />
+      </div>
+    )
+  }
+
+  // Tied state - the admin settles the tie
+  if (session.status === `tied`) {
+    return (
+      <div className="max-w-2xl mx-auto space-y-6 animate-fade-in">
+        <div className="card-buzzy text-center bg-buzzy-gradient text-white">
+          <Crown className="w-16 h-16 mx-auto mb-4 text-buzzy-yellow" />
+          <h2 className="text-3xl font-bold mb-2">It's a Tie!</h2>
+          {tiedTeams.length > 0 ? (
+            <>
+              <p className="text-xl opacity-90">
+                {tiedTeams.map((t) => `Team ${t.name}`).join(` & `)}
+              </p>
+              <p className="opacity-90 mt-1">
+                {teamScores.find((t) => t.teamId === tiedTeams[0].id)?.score ?? 0} points each
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="text-xl opacity-90">
+                {tiedPlayers.map((p) => p.display_name).join(` & `)}
+              </p>
+              {tiedPlayers[0] && (
+                <p className="opacity-90 mt-1">{tiedPlayers[0].score} points each</p>
+              )}
+            </>
+          )}
+        </div>
+
+        {actionError && (
+          <div className="p-4 rounded-xl bg-red-50 border-2 border-red-200">
+            <p className="text-red-700 text-sm font-medium">{actionError}</p>
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <button
+            onClick={handleDeclareCoWinners}
+            disabled={isActionLoading}
+            className="btn-secondary flex-1"
+          >
+            <Trophy className="w-5 h-5 mr-2" />
+            Declare Co-Winners
+          </button>
+          <button
+            onClick={handleStartTiebreaker}
+            disabled={isActionLoading}
+            className="btn-primary flex-1"
+          >
+            <Play className="w-5 h-5 mr-2" />
+            {isActionLoading ? `...` : `Sudden-Death Tiebreaker`}
+          </button>
+        </div>
+
+        <p className="text-center text-text-muted text-sm">
+          In sudden death only the tied {tiedTeams.length > 0 ? `teams` : `players`} answer, one question at a time, until one of them pulls ahead.
+        </p>
       </div>
     )
   }
 
   // Ended state
   if (session.status === `ended`) {
-    const winner = players.find((p) => p.id === session.winner_player_id)
+    const winner = winners[0]
+    const winningTeams = teams.filter((t) => session.winner_team_ids.includes(t.id))
+    const winningTeamScore = teamScores.find((t) => t.teamId === winningTeams[0]?.id)
     const sortedPlayers = [...players].sort((a, b) => b.score - a.score)
 
     return (
@@ -428,15 +1550,36 @@ function SessionControlPage() {
         </a>
 
         {/* Winner */}
-        <div className="card-buzzy text-center bg-buzzy-gradient text-white">
-          <Crown className="w-16 h-16 mx-auto mb-4 text-buzzy-yellow" />
-          <h2 className="text-3xl font-bold mb-2">
-            {winner?.display_name || `No Winner`} Wins!
-          </h2>
-          {winner && (
-            <p className="text-2xl opacity-90">{winner.score} points</p>
-          )}
-        </div>
+        {winningTeams.length > 0 ? (
+          <div className="card-buzzy text-center bg-buzzy-gradient text-white">
+            <Crown className="w-16 h-16 mx-auto mb-4 text-buzzy-yellow" />
+            <h2 className="text-3xl font-bold mb-2">
+              {winningTeams.map((t) => `Team ${t.name}`).join(` & `)} Win{winningTeams.length > 1 ? `` : `s`}!
+            </h2>
+            {winningTeams.length > 1 && <p className="opacity-90 mb-1">Co-winners</p>}
+            {winningTeamScore && (
+              <p className="text-2xl opacity-90">{winningTeamScore.score} points</p>
+            )}
+            {winner && (
+              <p className="opacity-90 mt-2">
+                Top player{winners.length > 1 ? `s` : ``}: {winners.map((w) => w.display_name).join(` & `)} ({winner.score} pts)
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="card-buzzy text-center bg-buzzy-gradient text-white">
+            <Crown className="w-16 h-16 mx-auto mb-4 text-buzzy-yellow" />
+            <h2 className="text-3xl font-bold mb-2">
+              {winners.length > 1
+                ? `${winners.map((w) => w.display_name).join(` & `)} Win!`
+                : `${winner?.display_name || `No Winner`} Wins!`}
+            </h2>
+            {winners.length > 1 && <p className="opacity-90 mb-1">Co-winners</p>}
+            {winner && (
+              <p className="text-2xl opacity-90">{winner.score} points</p>
+            )}
+          </div>
+        )}
 
         {/* Final Standings */}
         <div className="card-buzzy">
@@ -466,6 +1609,24 @@ function SessionControlPage() {
           </div>
         </div>
 
+        {/* Scoring rules used for this game */}
+        <div className="card-buzzy">
+          <h3 className="text-lg font-bold text-text-dark mb-1">
+            Scoring: {getScoringStrategy(session.scoring_strategy).label}
+          </h3>
+          <p className="text-sm text-text-muted">
+            {getScoringStrategy(session.scoring_strategy).description}
+            {session.speed_bonus_max > 0 && ` Fast correct answers earned up to +${session.speed_bonus_max} bonus points.`}
+            {session.streak_bonus_points > 0 && ` Answers on a streak of ${STREAK_BONUS_THRESHOLD}+ earned +${session.streak_bonus_points} each.`}
+          </p>
+          {session.deck_seed && session.playlist_question_ids.length === 0 && (
+            <p className="text-sm text-text-muted mt-3">
+              Shuffle seed: <code className="font-mono text-text-dark">{session.deck_seed}</code>
+              {` - use it for a rematch with the same questions in the same order.`}
+            </p>
+          )}
+        </div>
+
         <a href="/admin/sessions/new" className="btn-primary w-full inline-block text-center">
           Start New Game
         </a>
@@ -475,3 +1636,588 @@ function SessionControlPage() {
 
   return null
 }
+
+// Fix the answer key of a question that was already asked. The server
+// rescores every response and player total, and Electric syncs the new
+// scores to everyone.
+function AnswerKeyCorrector({
+  sessionId,
+  askedQuestions,
+  corrections,
+  defaultQuestionId,
+}: {
+  sessionId: number
+  askedQuestions: QuestionData[]
+  corrections: CorrectionData[]
+  defaultQuestionId: number | null
+}) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [questionId, setQuestionId] = useState<number | null>(null)
+  const [correctOptionIds, setCorrectOptionIds] = useState<number[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState(``)
+
+  const question = askedQuestions.find((q) => q.id === questionId) ?? null
+
+  const selectQuestion = (id: number) => {
+    const selected = askedQuestions.find((q) => q.id === id)
+    setQuestionId(id)
+    setCorrectOptionIds(selected?.options.filter((o) => o.is_correct).map((o) => o.id) ?? [])
+    setError(``)
+  }
+
+  const open = () => {
+    const current = askedQuestions.find((q) => q.id === defaultQuestionId)
+    const id = (current ?? askedQuestions[askedQuestions.length - 1])?.id
+    if (id !== undefined) selectQuestion(id)
+    setIsOpen(true)
+  }
+
+  const toggleOption = (optionId: number) => {
+    if (question?.question_type === `single`) {
+      setCorrectOptionIds([optionId])
+    } else {
+      setCorrectOptionIds((ids) =>
+        ids.includes(optionId) ? ids.filter((id) => id !== optionId) : [...ids, optionId]
+      )
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!question) return
+    if (correctOptionIds.length === 0) {
+      setError(`At least one correct answer required`)
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(``)
+    try {
+      await trpc.game.correctAnswerKey.mutate({
+        sessionId,
+        questionId: question.id,
+        correctOptionIds,
+      })
+      setIsOpen(false)
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setError(error.message || `Failed to correct answer key`)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (askedQuestions.length === 0) return null
+
+  return (
+    <div className="card-buzzy">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-text-dark">Answer Key</h3>
+        {!isOpen && (
+          <button onClick={open} className="btn-secondary btn-sm">
+            <Wrench className="w-4 h-4 mr-2" />
+            Fix an Answer Key
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="space-y-4 mt-4">
+          <select
+            value={questionId ?? ``}
+            onChange={(e) => selectQuestion(Number(e.target.value))}
+            className="input-buzzy"
+          >
+            {askedQuestions.map((q, idx) => (
+              <option key={q.id} value={q.id}>
+                Q{idx + 1}: {q.question_text}
+              </option>
+            ))}
+          </select>
+
+          {question && (
+            <div className="space-y-2">
+              {question.options.map((option) => {
+                const isCorrect = correctOptionIds.includes(option.id)
+                return (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => toggleOption(option.id)}
+                    className={`w-full flex items-center gap-3 p-3 rounded-xl border-2 text-left transition-colors ${
+                      isCorrect
+                        ? `bg-state-correct/10 border-state-correct text-state-correct`
+                        : `bg-gray-50 border-gray-200 text-text-dark hover:border-buzzy-purple`
+                    }`}
+                  >
+                    <span
+                      className={`w-6 h-6 rounded-full flex items-center justify-center flex-shrink-0 border-2 ${
+                        isCorrect ? `bg-state-correct border-state-correct text-white` : `border-gray-300`
+                      }`}
+                    >
+                      {isCorrect && <Check className="w-3 h-3" />}
+                    </span>
+                    {option.option_text}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          <p className="text-xs text-text-muted">
+            Every answer to this question is rescored and player totals update for everyone.
+            The fix is saved to the question bank too.
+          </p>
+
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+
+          <div className="flex gap-2">
+            <button onClick={handleSubmit} disabled={isSubmitting} className="btn-primary btn-sm">
+              {isSubmitting ? `Rescoring...` : `Save & Rescore`}
+            </button>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="btn-sm px-4 py-2 rounded-xl font-bold text-text-muted hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Audit trail */}
+      {corrections.length > 0 && (
+        <div className="mt-4 space-y-1">
+          {[...corrections]
+            .sort((a, b) => a.corrected_at.getTime() - b.corrected_at.getTime())
+            .map((correction) => {
+              const corrected = askedQuestions.find((q) => q.id === correction.question_id)
+              const answers = corrected?.options
+                .filter((o) => correction.correct_option_ids.includes(o.id))
+                .map((o) => o.option_text)
+                .join(`, `)
+              return (
+                <p key={correction.id} className="text-sm text-text-muted">
+                  {correction.corrected_at.toLocaleTimeString()} · "{corrected?.question_text}" now {answers} ·{` `}
+                  {correction.responses_rescored} answer{correction.responses_rescored !== 1 ? `s` : ``} rescored
+                </p>
+              )
+            })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Everyone's guess at a numeric question at the reveal, closest first, with
+// the guesses that scored highlighted
+function NumericGuessList({
+  answer,
+  responses,
+  players,
+  hostPlayerId,
+}: {
+  answer: number
+  responses: ResponseData[]
+  players: PlayerData[]
+  hostPlayerId: string | null
+}) {
+  const guesses = responses
+    .filter((r) => r.numeric_guess !== null)
+    .sort((a, b) => Math.abs(a.numeric_guess! - answer) - Math.abs(b.numeric_guess! - answer))
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 rounded-xl bg-state-correct/10 border-2 border-state-correct text-center">
+        <p className="text-sm text-text-muted">The answer</p>
+        <p className="text-2xl font-bold text-state-correct">{answer.toLocaleString()}</p>
+      </div>
+
+      {guesses.length === 0 ? (
+        <p className="text-sm text-text-muted text-center">Nobody guessed this one.</p>
+      ) : (
+        <div className="space-y-2">
+          {guesses.map((response) => {
+            const player = players.find((p) => p.id === response.player_id)
+            return (
+              <div
+                key={response.id}
+                className={`flex items-center justify-between gap-3 p-3 rounded-xl ${
+                  response.is_correct ? `bg-state-correct/10` : `bg-gray-50`
+                }`}
+              >
+                <span className="text-sm text-text-dark">
+                  {player?.display_name ?? `Player`}
+                  {response.player_id === hostPlayerId && ` (you)`}
+                </span>
+                <span className={`font-medium ${response.is_correct ? `text-state-correct` : `text-text-dark`}`}>
+                  {response.numeric_guess!.toLocaleString()}
+                  <span className="text-xs text-text-muted ml-2">
+                    ({Math.abs(response.numeric_guess! - answer).toLocaleString()} off)
+                  </span>
+                </span>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Everyone's typed answer to a free-text question at the reveal. Answers the
+// fuzzy matching rejected can be accepted by hand (a misspelling it didn't
+// catch, an alternative name), and the server rescores them.
+function TextAnswerReview({
+  acceptedAnswers,
+  responses,
+  players,
+  hostPlayerId,
+}: {
+  acceptedAnswers: string[]
+  responses: ResponseData[]
+  players: PlayerData[]
+  hostPlayerId: string | null
+}) {
+  const [acceptingId, setAcceptingId] = useState<number | null>(null)
+  const [error, setError] = useState(``)
+
+  const handleAccept = async (responseId: number) => {
+    setAcceptingId(responseId)
+    setError(``)
+    try {
+      await trpc.game.acceptTextAnswer.mutate({ responseId })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setError(error.message || `Failed to accept answer`)
+    } finally {
+      setAcceptingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 rounded-xl bg-state-correct/10 border-2 border-state-correct">
+        <p className="text-sm text-text-muted">Accepted answers</p>
+        <p className="font-semibold text-state-correct">{acceptedAnswers.join(` · `)}</p>
+      </div>
+
+      {responses.length === 0 ? (
+        <p className="text-sm text-text-muted text-center">Nobody answered this one.</p>
+      ) : (
+        <div className="space-y-2">
+          {responses.map((response) => {
+            const player = players.find((p) => p.id === response.player_id)
+            return (
+              <div
+                key={response.id}
+                className={`flex items-center justify-between gap-3 p-3 rounded-xl ${
+                  response.is_correct ? `bg-state-correct/10` : `bg-gray-50`
+                }`}
+              >
+                <div className="min-w-0">
+                  <p className="text-xs text-text-muted">
+                    {player?.display_name ?? `Player`}
+                    {response.player_id === hostPlayerId && ` (you)`}
+                  </p>
+                  <p className={`font-medium truncate ${response.is_correct ? `text-state-correct` : `text-text-dark`}`}>
+                    {response.text_answer}
+                  </p>
+                </div>
+                {response.is_correct ? (
+                  <span className="text-xs text-state-correct flex-shrink-0">
+                    {response.override_accepted ? `Accepted by you` : <Check className="w-5 h-5" />}
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleAccept(response.id)}
+                    disabled={acceptingId !== null}
+                    className="btn-secondary btn-sm flex-shrink-0"
+                  >
+                    {acceptingId === response.id ? `...` : `Accept`}
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+    </div>
+  )
+}
+
+// Autopilot setting for a live game, with a countdown while it waits to move
+// on. Switching it off lets the host take over.
+function AutopilotControl({ session }: { session: SessionData }) {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const [error, setError] = useState(``)
+
+  useEffect(() => {
+    const dueAt = session.autopilot_due_at
+    if (!dueAt) {
+      setSecondsLeft(null)
+      return
+    }
+
+    const update = () => setSecondsLeft(Math.max(0, Math.ceil((dueAt.getTime() - Date.now()) / 1000)))
+    update()
+    const interval = setInterval(update, 500)
+    return () => clearInterval(interval)
+  }, [session.autopilot_due_at])
+
+  const handleChange = async (autopilotSeconds: number) => {
+    setError(``)
+    try {
+      await trpc.game.setAutopilot.mutate({ sessionId: session.id, autopilotSeconds })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setError(error.message || `Failed to change autopilot`)
+    }
+  }
+
+  // Keep a custom discussion time selectable if it isn't one of the presets
+  const options = AUTOPILOT_OPTIONS.some((o) => o.seconds === session.autopilot_seconds)
+    ? AUTOPILOT_OPTIONS
+    : [...AUTOPILOT_OPTIONS, { seconds: session.autopilot_seconds, label: `${session.autopilot_seconds} seconds of discussion` }]
+
+  return (
+    <div className="card-buzzy">
+      <div className="flex items-center gap-3">
+        <Bot className="w-5 h-5 text-buzzy-purple flex-shrink-0" />
+        <h3 className="text-lg font-bold text-text-dark flex-1">Autopilot</h3>
+        <select
+          value={session.autopilot_seconds}
+          onChange={(e) => handleChange(Number(e.target.value))}
+          className="input-buzzy w-auto py-2"
+        >
+          {options.map((option) => (
+            <option key={option.seconds} value={option.seconds}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {secondsLeft !== null && (
+        <p className="text-sm text-text-muted mt-2">
+          Moving on in {secondsLeft}s. Switch autopilot off to take over.
+        </p>
+      )}
+
+      {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+    </div>
+  )
+}
+
+// How many players picked each option, as a bar chart for the room to talk
+// over after the reveal. Counts only, never names.
+function AnswerDistribution({
+  options,
+  responses,
+}: {
+  options: { id: number; option_text: string; is_correct: boolean }[]
+  responses: { selected_option_ids: number[] }[]
+}) {
+  const picks = countOptionPicks(
+    options.map((o) => o.id),
+    responses
+  )
+  const popularWrongId = findPopularWrongOption(
+    picks,
+    options.filter((o) => o.is_correct).map((o) => o.id)
+  )
+  const mostPicks = Math.max(1, ...picks.map((p) => p.count))
+
+  return (
+    <div className="mt-4 p-4 rounded-xl bg-gray-50 border-2 border-gray-200">
+      <p className="text-sm font-semibold text-text-dark mb-3">How everyone answered</p>
+      <div className="space-y-3">
+        {options.map((option, idx) => {
+          const { count } = picks[idx]
+          return (
+            <div key={option.id}>
+              <div className="flex items-center justify-between gap-3 mb-1 text-sm">
+                <span className={option.is_correct ? `font-semibold text-state-correct` : `text-text-dark`}>
+                  {option.option_text}
+                  {option.id === popularWrongId && (
+                    <span className="text-state-wrong font-normal"> · most popular wrong answer</span>
+                  )}
+                </span>
+                <span className="font-bold text-text-muted">{count}</span>
+              </div>
+              <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+                <div
+                  className={`h-full rounded-full transition-all ${
+                    option.is_correct
+                      ? `bg-state-correct`
+                      : option.id === popularWrongId
+                        ? `bg-state-wrong`
+                        : `bg-gray-400`
+                  }`}
+                  style={{ width: `${(count / mostPicks) * 100}%` }}
+                />
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+// How a poll's votes split between its choices, with the most popular
+// choice(s) highlighted
+function PollResults({
+  choices,
+  votes,
+}: {
+  choices: { id: string; label: string }[]
+  votes: string[]
+}) {
+  const counts = countVotes(
+    choices.map((c) => c.id),
+    votes
+  )
+  const majority = findMajorityChoices(votes)
+  const mostVotes = Math.max(1, ...counts.map((c) => c.count))
+
+  return (
+    <div className="space-y-2">
+      {choices.map((choice, idx) => {
+        const { count } = counts[idx]
+        const isMajority = majority.includes(choice.id)
+        return (
+          <div
+            key={choice.id}
+            className={`p-4 rounded-xl border-2 ${
+              isMajority ? `bg-buzzy-purple/10 border-buzzy-purple` : `bg-gray-50 border-gray-200`
+            }`}
+          >
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <span className={`font-medium ${isMajority ? `text-buzzy-purple` : `text-text-dark`}`}>
+                {choice.label}
+              </span>
+              <span className="text-sm font-bold text-text-muted">
+                {count} vote{count !== 1 ? `s` : ``}
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+              <div
+                className={`h-full rounded-full ${isMajority ? `bg-buzzy-purple` : `bg-gray-400`}`}
+                style={{ width: `${(count / mostVotes) * 100}%` }}
+              />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// A hotspot question's picture. The host can tap it to play (when `onTap` is
+// given); at the reveal it shows the correct regions and a heat map of where
+// everyone tapped.
+function HotspotPicture({
+  src,
+  tap,
+  onTap,
+  regions,
+  heatTaps,
+}: {
+  src: string
+  tap: HotspotPoint | null
+  onTap?: (tap: HotspotPoint) => void
+  regions: HotspotRect[]
+  heatTaps: HotspotPoint[]
+}) {
+  return (
+    <div
+      className={`relative max-w-xl rounded-xl overflow-hidden select-none ${onTap ? `cursor-crosshair` : ``}`}
+      onClick={(e) =>
+        onTap?.(getPointOnElement(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect()))
+      }
+    >
+      <img src={src} alt="Question" draggable={false} className="w-full h-auto" />
+      {heatTaps.map((point, idx) => (
+        <span
+          key={idx}
+          className="absolute w-10 h-10 -ml-5 -mt-5 rounded-full bg-orange-500/30 blur-sm pointer-events-none"
+          style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+        />
+      ))}
+      {regions.map((region, idx) => (
+        <span
+          key={idx}
+          className="absolute border-2 border-state-correct bg-state-correct/20 rounded pointer-events-none"
+          style={{
+            left: `${region.x * 100}%`,
+            top: `${region.y * 100}%`,
+            width: `${region.width * 100}%`,
+            height: `${region.height * 100}%`,
+          }}
+        />
+      ))}
+      {tap && (
+        <span
+          className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-buzzy-purple shadow pointer-events-none"
+          style={{ left: `${tap.x * 100}%`, top: `${tap.y * 100}%` }}
+        />
+      )}
+    </div>
+  )
+}
+
+const buzzTurnLabels: Record<BuzzTurn, string> = {
+  answered: `Answered`,
+  answering: `Answering`,
+  waiting: `Waiting`,
+}
+
+// Live buzz queue for buzzer mode, with how far behind the first buzz each
+// one landed (by the server's clock)
+function BuzzQueue({
+  turns,
+  players,
+  isRevealing,
+}: {
+  turns: (BuzzData & { turn: BuzzTurn })[]
+  players: PlayerData[]
+  isRevealing: boolean
+}) {
+  const firstAt = turns[0]?.buzzed_at.getTime() ?? 0
+
+  return (
+    <div className="mt-4">
+      <h4 className="text-sm font-semibold text-text-dark mb-2">Buzz queue</h4>
+      {turns.length === 0 ? (
+        <p className="text-sm text-text-muted">Nobody has buzzed in yet.</p>
+      ) : (
+        <ol className="space-y-2">
+          {turns.map((buzz, idx) => (
+            <li
+              key={buzz.id}
+              className={`flex items-center gap-3 px-3 py-2 rounded-xl ${
+                buzz.turn === `answering` && !isRevealing
+                  ? `bg-buzzy-purple/10 border-2 border-buzzy-purple`
+                  : `bg-gray-50 border-2 border-transparent`
+              }`}
+            >
+              <span className="font-bold w-6 text-center text-buzzy-purple">{idx + 1}</span>
+              <span className="flex-1 font-medium text-text-dark">
+                {players.find((p) => p.id === buzz.player_id)?.display_name ?? `Unknown player`}
+              </span>
+              <span className="text-xs text-text-muted">
+                {idx === 0 ? `First` : `+${((buzz.buzzed_at.getTime() - firstAt) / 1000).toFixed(2)}s`}
+              </span>
+              <span className="text-xs font-semibold text-text-muted w-20 text-right">
+                {isRevealing && buzz.turn !== `answered` ? `Missed out` : buzzTurnLabels[buzz.turn]}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -1,14 +1,40 @@
 import { createFileRoute, useNavigate } from "@tanstack/react-router"
-import { useLiveQuery } from "@tanstack/react-db"
-import { questionBanksCollection } from "@/lib/collections"
+import { useLiveQuery, eq } from "@tanstack/react-db"
+import { questionBanksCollection, questionsCollection } from "@/lib/collections"
 import { trpc } from "@/lib/trpc-client"
+import {
+  SCORING_STRATEGY_IDS,
+  STREAK_BONUS_THRESHOLD,
+  scoringStrategies,
+  type ScoringStrategyId,
+} from "@/lib/scoring"
+import { TEAM_MODES, teamModeLabels, type TeamMode } from "@/lib/teams"
+import { AUTOPILOT_OPTIONS } from "@/lib/autopilot"
 import { useEffect, useState } from "react"
-import { ArrowLeft, Gamepad2 } from "lucide-react"
+import {
+  ArrowLeft,
+  ChevronDown,
+  ChevronUp,
+  Gamepad2,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react"
+
+interface RoundDraft {
+  name: string
+  bankId: number
+  questionCount: number
+  roundDurationSeconds: number
+}
 
 export const Route = createFileRoute(`/admin/sessions/new`)({
   component: NewSessionPage,
   loader: async () => {
-    await questionBanksCollection.preload()
+    await Promise.all([
+      questionBanksCollection.preload(),
+      questionsCollection.preload(),
+    ])
   },
 })
 
@@ -25,8 +51,28 @@ function NewSessionPage() {
   const [slug, setSlug] = useState(``)
   const [selectedBankId, setSelectedBankId] = useState<number | null>(null)
   const [roundDuration, setRoundDuration] = useState(30)
+  const [questionCount, setQuestionCount] = useState<number | null>(10)
+  const [speedBonusMax, setSpeedBonusMax] = useState(0)
+  const [autopilotSeconds, setAutopilotSeconds] = useState(0)
+  const [scoringStrategy, setScoringStrategy] = useState<ScoringStrategyId>(`classic`)
+  const [streakBonusPoints, setStreakBonusPoints] = useState(0)
+  const [teamMode, setTeamMode] = useState<TeamMode>(`off`)
+  const [buzzerMode, setBuzzerMode] = useState(false)
+  const [rounds, setRounds] = useState<RoundDraft[]>([])
+  const [orderMode, setOrderMode] = useState<`random` | `playlist`>(`random`)
+  const [playlist, setPlaylist] = useState<number[]>([])
+  const [deckSeed, setDeckSeed] = useState(``)
   const [error, setError] = useState(``)
 
+  // Load the selected bank's questions for building a playlist
+  const { data: questionsData } = useLiveQuery(
+    (q) =>
+      q.from({ questions: questionsCollection })
+        .where(({ questions }) => eq(questions.bank_id, selectedBankId ?? -1)),
+    [selectedBankId]
+  )
+  const bankQuestions = questionsData || []
+
   // Set default bank when banks load
   useEffect(() => {
     if (banks.length > 0 && selectedBankId === null) {
@@ -40,6 +86,40 @@ function NewSessionPage() {
     setSlug(sanitized)
   }
 
+  const addRound = () => {
+    setRounds([
+      ...rounds,
+      {
+        name: `Round ${rounds.length + 1}`,
+        bankId: selectedBankId ?? banks[0].id,
+        questionCount: 5,
+        roundDurationSeconds: roundDuration,
+      },
+    ])
+  }
+
+  const updateRound = (index: number, changes: Partial<RoundDraft>) => {
+    setRounds(rounds.map((r, i) => (i === index ? { ...r, ...changes } : r)))
+  }
+
+  const removeRound = (index: number) => {
+    setRounds(rounds.filter((_, i) => i !== index))
+  }
+
+  const handleBankChange = (bankId: number) => {
+    setSelectedBankId(bankId)
+    // Playlists are built from a single bank
+    setPlaylist([])
+  }
+
+  const moveInPlaylist = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= playlist.length) return
+    const next = [...playlist]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setPlaylist(next)
+  }
+
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!selectedBankId || !slug.trim()) return
@@ -52,6 +132,18 @@ function NewSessionPage() {
         slug,
         bankId: selectedBankId,
         roundDurationSeconds: roundDuration,
+        questionCount:
+          orderMode === `random` && rounds.length === 0 ? questionCount : null,
+        speedBonusMax,
+        autopilotSeconds,
+        scoringStrategy,
+        streakBonusPoints,
+        teamMode,
+        buzzerMode,
+        rounds,
+        playlistQuestionIds:
+          orderMode === `playlist` && rounds.length === 0 ? playlist : [],
+        deckSeed: deckSeed.trim() || undefined,
       })
 
       // Navigate to the session control page
@@ -129,43 +221,381 @@ function NewSessionPage() {
             </p>
           </div>
 
-          {/* Question Bank */}
+          {/* Rounds */}
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              Rounds
+            </label>
+            {rounds.length > 0 && (
+              <div className="space-y-3 mb-3">
+                {rounds.map((round, index) => (
+                  <div key={index} className="p-3 rounded-xl bg-gray-50 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-buzzy-purple">{index + 1}.</span>
+                      <input
+                        type="text"
+                        value={round.name}
+                        onChange={(e) => updateRound(index, { name: e.target.value })}
+                        className="input-buzzy flex-1"
+                        required
+                        maxLength={100}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeRound(index)}
+                        className="p-2 text-text-muted hover:text-red-500"
+                        title="Remove round"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <select
+                      value={round.bankId}
+                      onChange={(e) => updateRound(index, { bankId: Number(e.target.value) })}
+                      className="input-buzzy"
+                    >
+                      {banks.map((bank) => (
+                        <option key={bank.id} value={bank.id}>
+                          {bank.name}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="flex gap-2">
+                      <label className="flex-1 text-xs text-text-muted">
+                        Questions
+                        <input
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={round.questionCount}
+                          onChange={(e) => updateRound(index, { questionCount: Number(e.target.value) })}
+                          className="input-buzzy mt-1"
+                          required
+                        />
+                      </label>
+                      <label className="flex-1 text-xs text-text-muted">
+                        Seconds per question
+                        <input
+                          type="number"
+                          min={10}
+                          max={120}
+                          value={round.roundDurationSeconds}
+                          onChange={(e) => updateRound(index, { roundDurationSeconds: Number(e.target.value) })}
+                          className="input-buzzy mt-1"
+                          required
+                        />
+                      </label>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={addRound}
+              disabled={orderMode === `playlist`}
+              className="btn-secondary w-full flex items-center justify-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add Round
+            </button>
+            <p className="text-xs text-text-muted mt-2">
+              {orderMode === `playlist`
+                ? `Rounds aren't available with a playlist.`
+                : rounds.length === 0
+                  ? `Optional. Split the game into named rounds, each with its own question bank, length, and timer.`
+                  : `Rounds are played in order, with a break screen between them.`}
+            </p>
+          </div>
+
+          {rounds.length === 0 && (
+            <>
+            {/* Question Bank */}
+            <div>
+              <label className="block text-sm font-medium text-text-dark mb-2">
+                Question Bank
+              </label>
+              <select
+                value={selectedBankId || ``}
+                onChange={(e) => handleBankChange(Number(e.target.value))}
+                className="input-buzzy"
+                required
+              >
+                {banks.map((bank) => (
+                  <option key={bank.id} value={bank.id}>
+                    {bank.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Question Order */}
+            <div>
+              <label className="block text-sm font-medium text-text-dark mb-2">
+                Question Order
+              </label>
+              <select
+                value={orderMode}
+                onChange={(e) => setOrderMode(e.target.value as `random` | `playlist`)}
+                className="input-buzzy"
+              >
+                <option value="random">Random - draw questions at random</option>
+                <option value="playlist">Playlist - ask questions in the order I choose</option>
+              </select>
+
+              {orderMode === `playlist` && (
+                <div className="mt-3 space-y-3">
+                  {playlist.length > 0 && (
+                    <ol className="space-y-2">
+                      {playlist.map((questionId, index) => (
+                        <li key={questionId} className="flex items-center gap-2 p-2 rounded-xl bg-buzzy-purple/10">
+                          <span className="text-sm font-bold text-buzzy-purple w-6 text-center">{index + 1}</span>
+                          <span className="flex-1 text-sm text-text-dark">
+                            {bankQuestions.find((q) => q.id === questionId)?.question_text}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => moveInPlaylist(index, -1)}
+                            disabled={index === 0}
+                            className="p-1 text-text-muted hover:text-buzzy-purple disabled:opacity-30"
+                            title="Move up"
+                          >
+                            <ChevronUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveInPlaylist(index, 1)}
+                            disabled={index === playlist.length - 1}
+                            className="p-1 text-text-muted hover:text-buzzy-purple disabled:opacity-30"
+                            title="Move down"
+                          >
+                            <ChevronDown className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setPlaylist(playlist.filter((id) => id !== questionId))}
+                            className="p-1 text-text-muted hover:text-red-500"
+                            title="Remove from playlist"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+
+                  <div className="max-h-60 overflow-y-auto space-y-1">
+                    {bankQuestions
+                      .filter((q) => !playlist.includes(q.id))
+                      .map((question) => (
+                        <button
+                          key={question.id}
+                          type="button"
+                          onClick={() => setPlaylist([...playlist, question.id])}
+                          className="w-full flex items-center gap-2 p-2 rounded-xl bg-gray-50 hover:bg-gray-100 text-left text-sm text-text-dark"
+                        >
+                          <Plus className="w-4 h-4 text-buzzy-purple shrink-0" />
+                          {question.question_text}
+                        </button>
+                      ))}
+                  </div>
+
+                  <p className="text-xs text-text-muted">
+                    {playlist.length === 0
+                      ? `Add questions in the order you want them asked.`
+                      : `The game asks these ${playlist.length} questions in order.`}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Game Length */}
+            {orderMode === `random` && (
+              <div>
+                <label className="block text-sm font-medium text-text-dark mb-2">
+                  Number of Questions
+                </label>
+                <select
+                  value={questionCount ?? ``}
+                  onChange={(e) => setQuestionCount(e.target.value ? Number(e.target.value) : null)}
+                  className="input-buzzy"
+                >
+                  {[5, 10, 15, 20, 25, 30].map((count) => (
+                    <option key={count} value={count}>
+                      {count} questions
+                    </option>
+                  ))}
+                  <option value="">Every question in the bank</option>
+                </select>
+                <p className="text-xs text-text-muted mt-2">
+                  The game ends on its own after the last answer is revealed.
+                </p>
+              </div>
+            )}
+
+            {/* Round Duration */}
+            <div>
+              <label className="block text-sm font-medium text-text-dark mb-2">
+                Time per Question: {roundDuration} seconds
+              </label>
+              <input
+                type="range"
+                min={10}
+                max={120}
+                step={5}
+                value={roundDuration}
+                onChange={(e) => setRoundDuration(Number(e.target.value))}
+                className="w-full accent-buzzy-purple"
+              />
+              <div className="flex justify-between text-xs text-text-muted mt-1">
+                <span>10s (Fast)</span>
+                <span>120s (Relaxed)</span>
+              </div>
+            </div>
+            </>
+          )}
+
+          {/* Deck Seed */}
+          {(orderMode === `random` || rounds.length > 0) && (
+            <div>
+              <label className="block text-sm font-medium text-text-dark mb-2">
+                Shuffle Seed (optional)
+              </label>
+              <input
+                type="text"
+                placeholder="Leave blank for a fresh shuffle"
+                value={deckSeed}
+                onChange={(e) => setDeckSeed(e.target.value)}
+                className="input-buzzy"
+                maxLength={50}
+              />
+              <p className="text-xs text-text-muted mt-2">
+                Enter the seed from a previous game to replay its questions in the same order.
+              </p>
+            </div>
+          )}
+
+          {/* Teams */}
           <div>
             <label className="block text-sm font-medium text-text-dark mb-2">
-              Question Bank
+              Teams
             </label>
             <select
-              value={selectedBankId || ``}
-              onChange={(e) => setSelectedBankId(Number(e.target.value))}
+              value={teamMode}
+              onChange={(e) => setTeamMode(e.target.value as TeamMode)}
               className="input-buzzy"
-              required
             >
-              {banks.map((bank) => (
-                <option key={bank.id} value={bank.id}>
-                  {bank.name}
+              {TEAM_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {teamModeLabels[mode]}
                 </option>
               ))}
             </select>
+            <p className="text-xs text-text-muted mt-2">
+              Set up teams in the lobby. Players pick a team when they join, or you can assign them.
+            </p>
           </div>
 
-          {/* Round Duration */}
+          {/* Buzzer */}
           <div>
             <label className="block text-sm font-medium text-text-dark mb-2">
-              Time per Question: {roundDuration} seconds
+              Answering
             </label>
-            <input
-              type="range"
-              min={10}
-              max={120}
-              step={5}
-              value={roundDuration}
-              onChange={(e) => setRoundDuration(Number(e.target.value))}
-              className="w-full accent-buzzy-purple"
-            />
-            <div className="flex justify-between text-xs text-text-muted mt-1">
-              <span>10s (Fast)</span>
-              <span>120s (Relaxed)</span>
-            </div>
+            <select
+              value={buzzerMode ? `buzzer` : `everyone`}
+              onChange={(e) => setBuzzerMode(e.target.value === `buzzer`)}
+              className="input-buzzy"
+            >
+              <option value="everyone">Everyone answers every question</option>
+              <option value="buzzer">Buzzer - first to buzz answers</option>
+            </select>
+            <p className="text-xs text-text-muted mt-2">
+              With buzzers, players race to buzz in and answer one at a time in buzz order. A wrong
+              answer passes the turn to the next buzzer. The server decides who was first.
+            </p>
+          </div>
+
+          {/* Scoring Strategy */}
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              Scoring
+            </label>
+            <select
+              value={scoringStrategy}
+              onChange={(e) => setScoringStrategy(e.target.value as ScoringStrategyId)}
+              className="input-buzzy"
+            >
+              {SCORING_STRATEGY_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {scoringStrategies[id].label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-text-muted mt-2">
+              {scoringStrategies[scoringStrategy].description}
+            </p>
+          </div>
+
+          {/* Speed Bonus */}
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              Speed Bonus
+            </label>
+            <select
+              value={speedBonusMax}
+              onChange={(e) => setSpeedBonusMax(Number(e.target.value))}
+              className="input-buzzy"
+            >
+              <option value={0}>Off - every correct answer scores the same</option>
+              <option value={3}>Up to +3 for fast answers</option>
+              <option value={5}>Up to +5 for fast answers</option>
+              <option value={10}>Up to +10 for fast answers</option>
+            </select>
+            <p className="text-xs text-text-muted mt-2">
+              Correct answers earn extra points the earlier they come in. Turn it off for a relaxed game.
+            </p>
+          </div>
+
+          {/* Streak Bonus */}
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              Streak Bonus
+            </label>
+            <select
+              value={streakBonusPoints}
+              onChange={(e) => setStreakBonusPoints(Number(e.target.value))}
+              className="input-buzzy"
+            >
+              <option value={0}>Off</option>
+              <option value={1}>+1 per answer while on a streak</option>
+              <option value={2}>+2 per answer while on a streak</option>
+              <option value={3}>+3 per answer while on a streak</option>
+            </select>
+            <p className="text-xs text-text-muted mt-2">
+              Bonus points for every correct answer once a player has {STREAK_BONUS_THRESHOLD} or more in a row.
+            </p>
+          </div>
+
+          {/* Autopilot */}
+          <div>
+            <label className="block text-sm font-medium text-text-dark mb-2">
+              Autopilot
+            </label>
+            <select
+              value={autopilotSeconds}
+              onChange={(e) => setAutopilotSeconds(Number(e.target.value))}
+              className="input-buzzy"
+            >
+              {AUTOPILOT_OPTIONS.map((option) => (
+                <option key={option.seconds} value={option.seconds}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-text-muted mt-2">
+              Moves on to the next question by itself after each reveal, even if this screen goes to sleep.
+              You can still take over at any time.
+            </p>
           </div>
 
           {error && (
@@ -174,7 +604,15 @@ function NewSessionPage() {
             </div>
           )}
 
-          <button type="submit" disabled={isCreating || !slug.trim()} className="btn-primary w-full">
+          <button
+            type="submit"
+            disabled={
+              isCreating ||
+              !slug.trim() ||
+              (orderMode === `playlist` && rounds.length === 0 && playlist.length === 0)
+            }
+            className="btn-primary w-full"
+          >
             {isCreating ? `Creating...` : `Create Game`}
           </button>
         </form>
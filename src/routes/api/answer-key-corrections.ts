@@ -0,0 +1,34 @@
+import { createFileRoute } from "@tanstack/react-router"
+import { auth, isAdmin } from "@/lib/auth"
+import { prepareElectricUrl, proxyElectricRequest } from "@/lib/electric-proxy"
+
+const serve = async ({ request }: { request: Request }) => {
+  const session = await auth.api.getSession({ headers: request.headers })
+  if (!session || !isAdmin(session.user.email)) {
+    return new Response(JSON.stringify({ error: `Unauthorized` }), {
+      status: 401,
+      headers: { "content-type": `application/json` },
+    })
+  }
+
+  const url = new URL(request.url)
+  const sessionId = url.searchParams.get(`session_id`)
+
+  const originUrl = prepareElectricUrl(request.url)
+  originUrl.searchParams.set(`table`, `answer_key_corrections`)
+
+  // Filter by session_id if provided
+  if (sessionId) {
+    originUrl.searchParams.set(`where`, `session_id = ${sessionId}`)
+  }
+
+  return proxyElectricRequest(originUrl)
+}
+
+export const Route = createFileRoute(`/api/answer-key-corrections`)({
+  server: {
+    handlers: {
+      GET: serve,
+    },
+  },
+})
@@ -0,0 +1,31 @@
+import { createFileRoute } from "@tanstack/react-router"
+import { prepareElectricUrl, proxyElectricRequest } from "@/lib/electric-proxy"
+import { PLAYER_ANSWER_OPTION_COLUMNS } from "@/lib/answer-keys"
+
+// What players see of the answer_options table: everything but the answer
+// key, which they get from game.getAnswerKeys once the question is revealed
+const serve = async ({ request }: { request: Request }) => {
+  const url = new URL(request.url)
+  const questionId = url.searchParams.get(`question_id`)
+
+  const originUrl = prepareElectricUrl(request.url)
+  originUrl.searchParams.set(`table`, `answer_options`)
+  originUrl.searchParams.set(`columns`, PLAYER_ANSWER_OPTION_COLUMNS.join(`,`))
+
+  // Filter by question_id if provided, passed as a shape parameter so it can't
+  // widen the filter
+  if (questionId) {
+    originUrl.searchParams.set(`where`, `question_id = $1`)
+    originUrl.searchParams.set(`params[1]`, questionId)
+  }
+
+  return proxyElectricRequest(originUrl)
+}
+
+export const Route = createFileRoute(`/api/player-answer-options`)({
+  server: {
+    handlers: {
+      GET: serve,
+    },
+  },
+})
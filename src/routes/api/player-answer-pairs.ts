@@ -0,0 +1,32 @@
+import { createFileRoute } from "@tanstack/react-router"
+import { prepareElectricUrl, proxyElectricRequest } from "@/lib/electric-proxy"
+import { PLAYER_ANSWER_PAIR_COLUMNS } from "@/lib/matching"
+
+// What players see of the answer_pairs table: the left-hand items. The
+// right-hand ones come from the question's matching_choices, under IDs of
+// their own, and which goes where from game.getAnswerKeys once it's revealed
+const serve = async ({ request }: { request: Request }) => {
+  const url = new URL(request.url)
+  const questionId = url.searchParams.get(`question_id`)
+
+  const originUrl = prepareElectricUrl(request.url)
+  originUrl.searchParams.set(`table`, `answer_pairs`)
+  originUrl.searchParams.set(`columns`, PLAYER_ANSWER_PAIR_COLUMNS.join(`,`))
+
+  // Filter by question_id if provided, passed as a shape parameter so it can't
+  // widen the filter
+  if (questionId) {
+    originUrl.searchParams.set(`where`, `question_id = $1`)
+    originUrl.searchParams.set(`params[1]`, questionId)
+  }
+
+  return proxyElectricRequest(originUrl)
+}
+
+export const Route = createFileRoute(`/api/player-answer-pairs`)({
+  server: {
+    handlers: {
+      GET: serve,
+    },
+  },
+})
@@ -0,0 +1,31 @@
+import { createFileRoute } from "@tanstack/react-router"
+import { prepareElectricUrl, proxyElectricRequest } from "@/lib/electric-proxy"
+import { PLAYER_QUESTION_COLUMNS } from "@/lib/answer-keys"
+
+// What players see of the questions table: everything but the answer key,
+// which they get from game.getAnswerKeys once the question is revealed
+const serve = async ({ request }: { request: Request }) => {
+  const url = new URL(request.url)
+  const bankId = url.searchParams.get(`bank_id`)
+
+  const originUrl = prepareElectricUrl(request.url)
+  originUrl.searchParams.set(`table`, `questions`)
+  originUrl.searchParams.set(`columns`, PLAYER_QUESTION_COLUMNS.join(`,`))
+
+  // Filter by bank_id if provided, passed as a shape parameter so it can't
+  // widen the filter
+  if (bankId) {
+    originUrl.searchParams.set(`where`, `bank_id = $1`)
+    originUrl.searchParams.set(`params[1]`, bankId)
+  }
+
+  return proxyElectricRequest(originUrl)
+}
+
+export const Route = createFileRoute(`/api/player-questions`)({
+  server: {
+    handlers: {
+      GET: serve,
+    },
+  },
+})
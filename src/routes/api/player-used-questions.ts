@@ -0,0 +1,31 @@
+import { createFileRoute } from "@tanstack/react-router"
+import { prepareElectricUrl, proxyElectricRequest } from "@/lib/electric-proxy"
+import { PLAYER_USED_QUESTION_COLUMNS } from "@/lib/answer-keys"
+
+// What players see of the used_questions table: which questions were asked,
+// without their answer keys. Those come from game.getAnswerKeys
+const serve = async ({ request }: { request: Request }) => {
+  const url = new URL(request.url)
+  const sessionId = url.searchParams.get(`session_id`)
+
+  const originUrl = prepareElectricUrl(request.url)
+  originUrl.searchParams.set(`table`, `used_questions`)
+  originUrl.searchParams.set(`columns`, PLAYER_USED_QUESTION_COLUMNS.join(`,`))
+
+  // Filter by session_id if provided, passed as a shape parameter so it can't
+  // widen the filter
+  if (sessionId) {
+    originUrl.searchParams.set(`where`, `session_id = $1`)
+    originUrl.searchParams.set(`params[1]`, sessionId)
+  }
+
+  return proxyElectricRequest(originUrl)
+}
+
+export const Route = createFileRoute(`/api/player-used-questions`)({
+  server: {
+    handlers: {
+      GET: serve,
+    },
+  },
+})
@@ -1,25 +1,33 @@
 import { createFileRoute } from "@tanstack/react-router"
-import { prepareElectricUrl, proxyElectricRequest } from "@/lib/electric-proxy"
+import { auth, isAdmin } from "@/lib/auth"
+import { db } from "@/db/connection"
+import { proxyElectricRequest } from "@/lib/electric-proxy"
+import { PLAYER_SECRET_HEADER, verifyPlayerSecret } from "@/lib/player-secrets"
+import { prepareResponsesShapeUrl } from "@/lib/responses-shape"
 
+// The admin syncs every response; players only their own, with their secret
 const serve = async ({ request }: { request: Request }) => {
-  const url = new URL(request.url)
-  const sessionId = url.searchParams.get(`session_id`)
-  const questionId = url.searchParams.get(`question_id`)
+  const session = await auth.api.getSession({ headers: request.headers })
+  const isAdminRequest = !!session && isAdmin(session.user.email)
+  const verifiedPlayerId = isAdminRequest
+    ? null
+    : await verifyPlayerSecret(
+        db,
+        new URL(request.url).searchParams.get(`player_id`),
+        request.headers.get(PLAYER_SECRET_HEADER)
+      )
 
-  const originUrl = prepareElectricUrl(request.url)
-  originUrl.searchParams.set(`table`, `player_responses`)
+  const originUrl = prepareResponsesShapeUrl(
+    request.url,
+    isAdminRequest,
+    verifiedPlayerId
+  )
 
-  // Build filter conditions
-  const conditions: string[] = []
-  if (sessionId) {
-    conditions.push(`session_id = ${sessionId}`)
-  }
-  if (questionId) {
-    conditions.push(`question_id = ${questionId}`)
-  }
-
-  if (conditions.length > 0) {
-    originUrl.searchParams.set(`where`, conditions.join(` AND `))
+  if (!originUrl) {
+    return new Response(JSON.stringify({ error: `Unauthorized` }), {
+      status: 401,
+      headers: { "content-type": `application/json` },
+    })
   }
 
   return proxyElectricRequest(originUrl)
@@ -6,6 +6,7 @@ import { questionsRouter } from "@/lib/trpc/questions"
 import { sessionsRouter } from "@/lib/trpc/sessions"
 import { playersRouter } from "@/lib/trpc/players"
 import { gameRouter } from "@/lib/trpc/game"
+import { teamsRouter } from "@/lib/trpc/teams"
 import { db } from "@/db/connection"
 import { auth } from "@/lib/auth"
 
@@ -15,6 +16,7 @@ export const appRouter = router({
   sessions: sessionsRouter,
   players: playersRouter,
   game: gameRouter,
+  teams: teamsRouter,
 })
 
 export type AppRouter = typeof appRouter
@@ -1,7 +1,16 @@
 import { createFileRoute } from "@tanstack/react-router"
+import { auth, isAdmin } from "@/lib/auth"
 import { prepareElectricUrl, proxyElectricRequest } from "@/lib/electric-proxy"
 
 const serve = async ({ request }: { request: Request }) => {
+  const session = await auth.api.getSession({ headers: request.headers })
+  if (!session || !isAdmin(session.user.email)) {
+    return new Response(JSON.stringify({ error: `Unauthorized` }), {
+      status: 401,
+      headers: { "content-type": `application/json` },
+    })
+  }
+
   const url = new URL(request.url)
   const sessionId = url.searchParams.get(`session_id`)
 
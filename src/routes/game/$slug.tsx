@@ -3,18 +3,47 @@ import { useLiveQuery, eq } from "@tanstack/react-db"
 import {
   sessionsCollection,
   playersCollection,
-  responsesCollection,
-  questionsCollection,
-  answerOptionsCollection,
-  usedQuestionsCollection,
+  getPlayerResponsesCollection,
+  playerQuestionsCollection,
+  playerAnswerOptionsCollection,
+  playerAnswerPairsCollection,
+  playerUsedQuestionsCollection,
   playerSessionsCollection,
+  teamsCollection,
+  sessionRoundsCollection,
+  buzzesCollection,
 } from "@/lib/collections"
 
 // Temp ID counter for optimistic response inserts
 let tempResponseId = -1
 import { trpc } from "@/lib/trpc-client"
+import { countStreak, getScoringStrategy, hasAnswerOptions } from "@/lib/scoring"
+import { calculateTeamScores } from "@/lib/teams"
+import { celebrateWinners } from "@/lib/confetti"
+import { getRemainingRoundMs } from "@/lib/round-timer"
+import type { GuessBucket } from "@/lib/numeric-answers"
+import {
+  getPointOnElement,
+  type HotspotPoint,
+  type HotspotRect,
+} from "@/lib/hotspots"
+import { getBuzzTurns } from "@/lib/buzzer"
+import { findPopularWrongOption, type OptionPicks } from "@/lib/answer-distribution"
+import { isUnscoredPoll } from "@/lib/polls"
+import { applyAnswerKey, applyQuestionKey } from "@/lib/answer-keys"
 import { useEffect, useState, useMemo } from "react"
-import { Zap, Users, Check, X, Crown, Trophy, Gamepad2 } from "lucide-react"
+import {
+  Zap,
+  Users,
+  Check,
+  X,
+  Crown,
+  Trophy,
+  Gamepad2,
+  Pause,
+  ChevronUp,
+  ChevronDown,
+} from "lucide-react"
 
 // Types for Electric data (dates are parsed as Date objects)
 interface SessionData {
@@ -23,10 +52,22 @@ interface SessionData {
   bank_id: number
   admin_id: string
   status: string
+  current_round_id: number | null
   current_question_id: number | null
   round_started_at: Date | null
   round_duration_seconds: number
-  winner_player_id: string | null
+  paused_at: Date | null
+  autopilot_due_at: Date | null
+  deck_question_ids: number[]
+  speed_bonus_max: number
+  scoring_strategy: string
+  streak_bonus_points: number
+  team_mode: string
+  buzzer_mode: boolean
+  tied_player_ids: string[]
+  tied_team_ids: number[]
+  winner_player_ids: string[]
+  winner_team_ids: number[]
   created_at: Date
   ended_at: Date | null
   bankName?: string | null
@@ -35,6 +76,7 @@ interface SessionData {
 interface PlayerData {
   id: string
   session_id: number
+  team_id: number | null
   display_name: string
   score: number
   is_connected: boolean
@@ -42,14 +84,47 @@ interface PlayerData {
   last_seen_at: Date
 }
 
+interface TeamData {
+  id: number
+  session_id: number
+  name: string
+  captain_player_id: string | null
+}
+
+interface RoundData {
+  id: number
+  session_id: number
+  round_order: number
+  name: string
+  question_count: number
+}
+
 interface AnswerOptionData {
   id: number
   question_id: number
   option_text: string
   is_correct: boolean
+  correct_position: number | null
   display_order: number
 }
 
+interface AnswerPairData {
+  id: number
+  question_id: number
+  left_text: string
+  display_order: number
+}
+
+interface MatchingChoiceData {
+  id: number
+  text: string
+}
+
+interface PairMatchData {
+  left_id: number
+  right_id: number
+}
+
 interface QuestionData {
   id: number
   question_text: string
@@ -57,7 +132,15 @@ interface QuestionData {
   image_data?: string | null
   image_mime_type?: string | null
   explanation?: string | null
+  accepted_answers: string[]
+  numeric_answer: number | null
+  hotspot_regions: HotspotRect[]
+  poll_source: string
+  poll_scoring: string
   options: AnswerOptionData[]
+  pairs: AnswerPairData[] // Matching questions: left-hand items in order
+  choices: MatchingChoiceData[] // Matching questions: right-hand items, shuffled
+  pair_matches: PairMatchData[] // Matching questions: the right matches, once revealed
   roundStartedAt: Date | null
   roundDurationSeconds: number
 }
@@ -88,11 +171,14 @@ export const Route = createFileRoute(`/game/$slug`)({
     await Promise.all([
       sessionsCollection.preload(),
       playersCollection.preload(),
-      responsesCollection.preload(),
-      questionsCollection.preload(),
-      answerOptionsCollection.preload(),
-      usedQuestionsCollection.preload(),
+      playerQuestionsCollection.preload(),
+      playerAnswerOptionsCollection.preload(),
+      playerAnswerPairsCollection.preload(),
+      playerUsedQuestionsCollection.preload(),
       playerSessionsCollection.preload(),
+      teamsCollection.preload(),
+      sessionRoundsCollection.preload(),
+      buzzesCollection.preload(),
     ])
   },
 })
@@ -108,7 +194,6 @@ function PlayerGame() {
   const session = sessionsData?.[0] as SessionData | undefined
 
   const sessionId = session?.id ?? -1
-  const bankId = session?.bank_id ?? -1
 
   // Real-time players sync via Electric SQL
   const { data: playersData } = useLiveQuery((q) =>
@@ -117,29 +202,49 @@ function PlayerGame() {
   )
   const players = (playersData || []) as PlayerData[]
 
-  // Real-time responses sync for current session
-  const { data: responsesData } = useLiveQuery((q) =>
-    q.from({ responses: responsesCollection })
-      .where(({ responses }) => eq(responses.session_id, sessionId))
+  // Real-time teams sync via Electric SQL
+  const { data: teamsData } = useLiveQuery((q) =>
+    q.from({ teams: teamsCollection })
+      .where(({ teams }) => eq(teams.session_id, sessionId))
   )
-  const responses = responsesData || []
+  const teams = (teamsData || []) as TeamData[]
+
+  // Real-time buzz queue (buzzer mode)
+  const { data: buzzesData } = useLiveQuery((q) =>
+    q.from({ buzzes: buzzesCollection })
+      .where(({ buzzes }) => eq(buzzes.session_id, sessionId))
+  )
+  const buzzes = buzzesData || []
+
+  // Real-time rounds sync (multi-bank sessions played in named rounds)
+  const { data: roundsData } = useLiveQuery((q) =>
+    q.from({ rounds: sessionRoundsCollection })
+      .where(({ rounds }) => eq(rounds.session_id, sessionId))
+  )
+  const rounds = (roundsData || []) as RoundData[]
+  const currentRound = rounds.find((r) => r.id === session?.current_round_id) ?? null
 
-  // Load all questions for this bank via Electric
+  // Load all questions via Electric (rounds may draw from several banks).
+  // Players only sync questions and options without their answers.
   const { data: questionsData } = useLiveQuery((q) =>
-    q.from({ questions: questionsCollection })
-      .where(({ questions }) => eq(questions.bank_id, bankId))
+    q.from({ questions: playerQuestionsCollection })
   )
-  const allQuestions = questionsData || []
 
   // Load all answer options via Electric
   const { data: optionsData } = useLiveQuery((q) =>
-    q.from({ options: answerOptionsCollection })
+    q.from({ options: playerAnswerOptionsCollection })
   )
-  const allOptions = optionsData || []
+
+  // Load the left-hand items of all matching questions via Electric (the
+  // right-hand items come with the question, under IDs of their own)
+  const { data: pairsData } = useLiveQuery((q) =>
+    q.from({ pairs: playerAnswerPairsCollection })
+  )
+  const allPairs = pairsData || []
 
   // Load used questions for history (which questions were asked in this session)
   const { data: usedQuestionsData } = useLiveQuery((q) =>
-    q.from({ used: usedQuestionsCollection })
+    q.from({ used: playerUsedQuestionsCollection })
       .where(({ used }) => eq(used.session_id, sessionId))
   )
   const usedQuestions = usedQuestionsData || []
@@ -150,6 +255,65 @@ function PlayerGame() {
       .where(({ ps }) => eq(ps.sessionId, sessionId))
   )
   const storedPlayerId = storedPlayerSessions?.[0]?.playerId
+  const storedPlayerSecret = storedPlayerSessions?.[0]?.playerSecret
+
+  // Answer keys of the questions this session has revealed, which only its
+  // players can fetch. Refreshed at each reveal and at the end of the game,
+  // and as scores change so corrected answer keys show up too.
+  const [answerKeys, setAnswerKeys] = useState<
+    Awaited<ReturnType<typeof trpc.game.getAnswerKeys.query>>
+  >([])
+  const scores = players.map((p) => p.score).join()
+  useEffect(() => {
+    if (!storedPlayerId || !storedPlayerSecret) {
+      setAnswerKeys([])
+      return
+    }
+    trpc.game.getAnswerKeys
+      .query({ playerId: storedPlayerId, playerSecret: storedPlayerSecret })
+      .then(setAnswerKeys)
+      .catch(() => {
+        // Keep the last known keys
+      })
+  }, [storedPlayerId, storedPlayerSecret, session?.status, session?.current_question_id, scores])
+
+  // Fill in the answers of the questions this session has revealed. The rest
+  // stay blank: nothing marked correct, no accepted answers or explanation.
+  const allQuestions = useMemo(() => {
+    const keys = new Map(answerKeys.map((k) => [k.question_id, k.answer_key]))
+    return (questionsData || []).map((question) =>
+      applyQuestionKey(question, keys.get(question.id) ?? null)
+    )
+  }, [questionsData, answerKeys])
+  const allOptions = useMemo(() => {
+    const keys = new Map(answerKeys.map((k) => [k.question_id, k.answer_key]))
+    return allQuestions.flatMap((question) =>
+      applyAnswerKey(
+        question.question_type,
+        (optionsData || []).filter((o) => o.question_id === question.id),
+        keys.get(question.id) ?? null
+      )
+    )
+  }, [allQuestions, optionsData, answerKeys])
+
+  // Real-time sync of this player's own responses, proven with their secret.
+  // Nobody else's answers are synced: how everyone did comes from the round
+  // stats at the reveal.
+  const { data: responsesData } = useLiveQuery(
+    (q) =>
+      storedPlayerId && storedPlayerSecret
+        ? q
+            .from({
+              responses: getPlayerResponsesCollection(
+                storedPlayerId,
+                storedPlayerSecret
+              ),
+            })
+            .where(({ responses }) => eq(responses.session_id, sessionId))
+        : undefined,
+    [storedPlayerId, storedPlayerSecret, sessionId]
+  )
+  const responses = responsesData || []
 
   // Find the current player from the players list using stored ID
   const currentPlayer = useMemo(() => {
@@ -157,6 +321,37 @@ function PlayerGame() {
     return players.find((p) => p.id === storedPlayerId) || null
   }, [storedPlayerId, players])
 
+  // Current player's team, and whether they can answer for it
+  const isTeamGame = session?.team_mode !== undefined && session.team_mode !== `off`
+  const myTeam = useMemo(() => {
+    if (!currentPlayer?.team_id) return null
+    return teams.find((t) => t.id === currentPlayer.team_id) || null
+  }, [currentPlayer?.team_id, teams])
+  const captain = players.find((p) => p.id === myTeam?.captain_player_id) || null
+
+  // During a sudden-death tiebreaker only the tied players answer
+  const tiedPlayers = players.filter((p) => session?.tied_player_ids.includes(p.id))
+  const isTiebreaker = session?.status !== `tied` && tiedPlayers.length > 0
+  const isInTiebreaker = tiedPlayers.some((p) => p.id === currentPlayer?.id)
+
+  const isEligible =
+    (session?.team_mode !== `captain` || captain?.id === currentPlayer?.id) &&
+    (!isTiebreaker || isInTiebreaker)
+
+  // In buzzer mode players answer one at a time, in the order they buzzed in
+  const isBuzzerGame = session?.buzzer_mode === true
+  const buzzTurns = useMemo(
+    () => getBuzzTurns(buzzes.filter((b) => b.question_id === session?.current_question_id)),
+    [buzzes, session?.current_question_id]
+  )
+  const myBuzzIndex = buzzTurns.findIndex((b) => b.player_id === currentPlayer?.id)
+  const myBuzzTurn = myBuzzIndex >= 0 ? buzzTurns[myBuzzIndex].turn : null
+  const answeringBuzzer = players.find(
+    (p) => p.id === buzzTurns.find((b) => b.turn === `answering`)?.player_id
+  )
+
+  const canAnswer = isEligible && (!isBuzzerGame || myBuzzTurn === `answering`)
+
   // Compute current question with options and round timing
   // Options are shuffled per-player using a seeded random for fairness
   const currentQuestion: QuestionData | null = useMemo(() => {
@@ -175,28 +370,98 @@ function PlayerGame() {
     const shuffleSeed = `${session.id}-${question.id}-${storedPlayerId || `anon`}`
     const options = seededShuffle(sortedOptions, shuffleSeed)
 
+    // Matching questions keep the left-hand column in order and shuffle the
+    // right-hand one, so the rows don't line up with the answer
+    const pairs = allPairs
+      .filter((p) => p.question_id === question.id)
+      .sort((a, b) => a.display_order - b.display_order)
+    const choices = seededShuffle(question.matching_choices, `${shuffleSeed}-right`)
+
     return {
       ...question,
       options,
+      pairs,
+      choices,
       roundStartedAt: session.round_started_at,
       roundDurationSeconds: session.round_duration_seconds,
     }
-  }, [session?.current_question_id, session?.id, session?.round_started_at, session?.round_duration_seconds, allQuestions, allOptions, storedPlayerId])
-
-  // Compute round stats from responses
-  const roundStats = useMemo(() => {
-    if (session?.status !== `revealing` || !session.current_question_id) return null
-    const questionResponses = responses.filter((r) => r.question_id === session.current_question_id)
-    if (questionResponses.length === 0) return { percentCorrect: 0 }
-    const correctCount = questionResponses.filter((r) => r.points_earned > 0).length
-    return { percentCorrect: Math.round((correctCount / questionResponses.length) * 100) }
-  }, [session?.status, session?.current_question_id, responses])
-
-  // Get winner from players list
-  const winner = useMemo(() => {
-    if (session?.status !== `ended` || !session.winner_player_id) return null
-    return players.find((p) => p.id === session.winner_player_id) || null
-  }, [session?.status, session?.winner_player_id, players])
+  }, [session?.current_question_id, session?.id, session?.round_started_at, session?.round_duration_seconds, allQuestions, allOptions, allPairs, storedPlayerId])
+
+  // How everyone did on the revealed question, as counts from the server.
+  // Players don't sync each other's responses, so the stats are polled while
+  // the question is revealed to pick up late responses as they sync, and
+  // refreshed as scores change so host overrides and corrected answer keys
+  // show up straight away.
+  const [roundStats, setRoundStats] =
+    useState<Awaited<ReturnType<typeof trpc.game.getRoundStats.query>>>(null)
+  useEffect(() => {
+    if (session?.status !== `revealing` || !session.current_question_id) {
+      setRoundStats(null)
+      return
+    }
+
+    const input = { sessionId: session.id, questionId: session.current_question_id }
+    const refresh = () => {
+      trpc.game.getRoundStats
+        .query(input)
+        .then(setRoundStats)
+        .catch(() => {
+          // Keep the last known stats
+        })
+    }
+    refresh()
+    const interval = setInterval(refresh, 3000)
+
+    return () => clearInterval(interval)
+  }, [session?.id, session?.status, session?.current_question_id, scores])
+
+  // Current player's run of consecutive correct answers. The active question
+  // only counts once it's revealed, so an unanswered one doesn't break it yet.
+  // Voided questions and polls played just for fun don't count at all.
+  const streak = useMemo(() => {
+    if (!currentPlayer) return 0
+    const askedIds = [...usedQuestions]
+      .filter((u) => !u.voided_at)
+      .filter((u) => {
+        const question = allQuestions.find((q) => q.id === u.question_id)
+        return !question || !isUnscoredPoll(question)
+      })
+      .sort((a, b) => a.question_order - b.question_order)
+      .map((u) => u.question_id)
+      .filter(
+        (id) =>
+          !((session?.status === `active` || session?.status === `paused`) && id === session.current_question_id)
+      )
+    const correctIds = new Set(
+      responses
+        .filter((r) => r.player_id === currentPlayer.id && r.is_correct)
+        .map((r) => r.question_id)
+    )
+    return countStreak(askedIds, correctIds)
+  }, [currentPlayer?.id, usedQuestions, allQuestions, responses, session?.status, session?.current_question_id])
+
+  // Get winners (several when co-winners were declared) from players list
+  const winners = useMemo(() => {
+    if (session?.status !== `ended`) return []
+    return players.filter((p) => session.winner_player_ids.includes(p.id))
+  }, [session?.status, session?.winner_player_ids, players])
+
+  // Celebrate every winner when the game ends
+  useEffect(() => {
+    if (winners.length > 0) celebrateWinners(winners.length)
+  }, [winners.length])
+
+  // Winning teams and their score (team games only, several for co-winners)
+  const winningTeams = useMemo(() => {
+    if (session?.status !== `ended` || session.winner_team_ids.length === 0) return []
+    const teamScores = calculateTeamScores(teams, players, session.team_mode)
+    return teams
+      .filter((t) => session.winner_team_ids.includes(t.id))
+      .map((team) => ({
+        ...team,
+        score: teamScores.find((t) => t.teamId === team.id)?.score ?? 0,
+      }))
+  }, [session?.status, session?.winner_team_ids, session?.team_mode, teams, players])
 
   // Build game history for ended state
   const gameHistory = useMemo(() => {
@@ -215,7 +480,7 @@ function PlayerGame() {
 
       // Find this player's response
       const playerResp = responses.find(
-        (r) => r.question_id === question.id
+        (r) => r.player_id === currentPlayer?.id && r.question_id === question.id
       )
 
       return {
@@ -225,7 +490,23 @@ function PlayerGame() {
         explanation: question.explanation,
         options,
         playerSelectedIds: (playerResp?.selected_option_ids || []) as number[],
+        playerTextAnswer: playerResp?.text_answer ?? null,
+        acceptedAnswers: question.accepted_answers,
+        playerNumericGuess: playerResp?.numeric_guess ?? null,
+        numericAnswer: question.numeric_answer,
+        pairs: allPairs
+          .filter((p) => p.question_id === question.id)
+          .sort((a, b) => a.display_order - b.display_order),
+        choices: question.matching_choices,
+        correctPairMatches: question.pair_matches,
+        playerPairMatches: playerResp?.pair_matches ?? [],
+        isHotspotHit: playerResp?.tap_x != null && playerResp.is_correct,
+        isUnscoredPoll: isUnscoredPoll(question),
+        playerVote: playerResp?.voted_player_id
+          ? (players.find((p) => p.id === playerResp.voted_player_id)?.display_name ?? null)
+          : (options.find((o) => playerResp?.selected_option_ids.includes(o.id))?.option_text ?? null),
         pointsEarned: playerResp?.points_earned || 0,
+        isVoided: used.voided_at !== null,
       }
     }).filter(Boolean) as Array<{
       questionId: number
@@ -234,27 +515,60 @@ function PlayerGame() {
       explanation: string | null
       options: AnswerOptionData[]
       playerSelectedIds: number[]
+      playerTextAnswer: string | null
+      acceptedAnswers: string[]
+      playerNumericGuess: number | null
+      numericAnswer: number | null
+      pairs: AnswerPairData[]
+      choices: MatchingChoiceData[]
+      correctPairMatches: PairMatchData[]
+      playerPairMatches: PairMatchData[]
+      isHotspotHit: boolean
+      isUnscoredPoll: boolean
+      playerVote: string | null
       pointsEarned: number
+      isVoided: boolean
     }>
-  }, [session?.status, usedQuestions, allQuestions, allOptions, responses])
+  }, [session?.status, usedQuestions, allQuestions, allOptions, allPairs, responses, players, currentPlayer?.id])
 
   const [selectedOptions, setSelectedOptions] = useState<number[]>([])
+  const [textAnswer, setTextAnswer] = useState(``)
+  const [numericGuess, setNumericGuess] = useState(``)
+  const [pairMatches, setPairMatches] = useState<PairMatchData[]>([])
+  const [activeLeftId, setActiveLeftId] = useState<number | null>(null)
+  const [tap, setTap] = useState<HotspotPoint | null>(null)
+  const [votedPlayerId, setVotedPlayerId] = useState<string | null>(null)
   const [hasSubmitted, setHasSubmitted] = useState(false)
-  const [playerResponse, setPlayerResponse] = useState<{ points_earned: number } | null>(null)
+  const [playerResponse, setPlayerResponse] = useState<{
+    points_earned: number
+    speed_bonus: number
+    streak_bonus: number
+    is_correct: boolean
+    override_accepted: boolean
+  } | null>(null)
   const [timeRemaining, setTimeRemaining] = useState(30)
   const [error, setError] = useState(``)
   const [displayName, setDisplayName] = useState(``)
   const [isJoining, setIsJoining] = useState(false)
   const [prevQuestionId, setPrevQuestionId] = useState<number | null>(null)
   const [hasCalledRejoin, setHasCalledRejoin] = useState(false)
+  const [isBuzzing, setIsBuzzing] = useState(false)
 
-  // Notify server when a returning player is detected (for connected status)
+  // Notify server when a returning player is detected (for connected status).
+  // Players who joined before secrets were handed out get theirs here
   useEffect(() => {
     if (!session || !currentPlayer || hasCalledRejoin) return
 
     trpc.players.rejoin.mutate({
       playerId: currentPlayer.id,
+      playerSecret: storedPlayerSecret,
       sessionId: session.id,
+    }).then((result) => {
+      if (result.secret !== storedPlayerSecret) {
+        playerSessionsCollection.update(session.id, (draft) => {
+          draft.playerSecret = result.secret
+        })
+      }
     }).catch(() => {
       // Ignore rejoin errors
     })
@@ -269,6 +583,12 @@ function PlayerGame() {
       // Reset state for new question
       if (prevQuestionId !== null && session.status === `active`) {
         setSelectedOptions([])
+        setTextAnswer(``)
+        setNumericGuess(``)
+        setPairMatches([])
+        setActiveLeftId(null)
+        setTap(null)
+        setVotedPlayerId(null)
         setHasSubmitted(false)
         setPlayerResponse(null)
       }
@@ -290,26 +610,76 @@ function PlayerGame() {
       // Update with real points from server (synced via Electric)
       if (myResponse.id > 0) {
         // Real response (not optimistic) - has actual points
-        setPlayerResponse({ points_earned: myResponse.points_earned })
+        setPlayerResponse({
+          points_earned: myResponse.points_earned,
+          speed_bonus: myResponse.speed_bonus,
+          streak_bonus: myResponse.streak_bonus,
+          is_correct: myResponse.is_correct,
+          override_accepted: myResponse.override_accepted,
+        })
         setSelectedOptions(myResponse.selected_option_ids as number[])
+        setTextAnswer(myResponse.text_answer ?? ``)
+        setNumericGuess(myResponse.numeric_guess !== null ? String(myResponse.numeric_guess) : ``)
+        setPairMatches(myResponse.pair_matches)
+        setTap(
+          myResponse.tap_x !== null && myResponse.tap_y !== null
+            ? { x: myResponse.tap_x, y: myResponse.tap_y }
+            : null
+        )
+        setVotedPlayerId(myResponse.voted_player_id)
       }
     }
   }, [responses, session?.current_question_id, currentPlayer?.id])
 
-  // Timer countdown
+  // Timer countdown (frozen while the game is paused)
   useEffect(() => {
+    if (session?.status === `paused`) {
+      setTimeRemaining(Math.ceil(getRemainingRoundMs(session) / 1000))
+      return
+    }
+
     if (!session || session.status !== `active` || !currentQuestion?.roundStartedAt) return
 
     const endTime = currentQuestion.roundStartedAt.getTime() + currentQuestion.roundDurationSeconds * 1000
 
+    // Once the countdown hits zero, nudge the server about once a second so
+    // the round is revealed even if its server-side timer was lost
+    let lastTickAt = 0
+
     const interval = setInterval(() => {
-      const remaining = Math.max(0, Math.ceil((endTime - Date.now()) / 1000))
+      const now = Date.now()
+      const remaining = Math.max(0, Math.ceil((endTime - now) / 1000))
       setTimeRemaining(remaining)
+
+      if (remaining === 0 && now - lastTickAt >= 1000) {
+        lastTickAt = now
+        trpc.game.tick.mutate({ sessionId: session.id }).catch(() => {
+          // Ignore tick errors - the next one will retry
+        })
+      }
     }, 100)
 
     return () => clearInterval(interval)
   }, [session, currentQuestion])
 
+  // After the final (or a sudden-death) answer is revealed the game ends on
+  // its own, and on autopilot it moves on by itself. Nudge the server every
+  // few seconds in case its timer was lost.
+  const isFinalReveal =
+    session?.status === `revealing` && (session.deck_question_ids.length === 0 || isTiebreaker)
+  const isOnAutopilot = !!session?.autopilot_due_at
+  useEffect(() => {
+    if (!session || !(isFinalReveal || isOnAutopilot)) return
+
+    const interval = setInterval(() => {
+      trpc.game.tick.mutate({ sessionId: session.id }).catch(() => {
+        // Ignore tick errors - the next one will retry
+      })
+    }, 3000)
+
+    return () => clearInterval(interval)
+  }, [session?.id, isFinalReveal, isOnAutopilot])
+
   // Join game
   const handleJoin = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -323,12 +693,14 @@ function PlayerGame() {
         sessionId: session.id,
         displayName,
         playerId: storedPlayerId || undefined,
+        playerSecret: storedPlayerSecret,
       })
 
-      // Save player ID to localStorage collection for rejoin support
+      // Save player ID and secret to localStorage collection for rejoin support
       playerSessionsCollection.insert({
         sessionId: session.id,
         playerId: result.player.id,
+        playerSecret: result.secret,
       })
       // Player will sync via Electric and currentPlayer will update automatically
     } catch (err: unknown) {
@@ -340,26 +712,69 @@ function PlayerGame() {
   }
 
   // Submit answer - optimistic insert, server calculates points
+  const isTextQuestion = currentQuestion?.question_type === `text`
+  const isNumericQuestion = currentQuestion?.question_type === `numeric`
+  const isOrderingQuestion = currentQuestion?.question_type === `ordering`
+  const isMatchingQuestion = currentQuestion?.question_type === `matching`
+  const isHotspotQuestion = currentQuestion?.question_type === `hotspot`
+  const isPollQuestion = currentQuestion?.question_type === `poll`
+  const isPlayerPoll = isPollQuestion && currentQuestion.poll_source === `players`
+  // Ordering answers start from the player's shuffled order until they move
+  // something (or their submitted order syncs back)
+  const playerOrder =
+    isOrderingQuestion && selectedOptions.length !== currentQuestion.options.length
+      ? currentQuestion.options.map((o) => o.id)
+      : selectedOptions
+  const hasAnswer = isTextQuestion
+    ? textAnswer.trim().length > 0
+    : isNumericQuestion
+      ? numericGuess.trim() !== `` && Number.isFinite(Number(numericGuess))
+      : isMatchingQuestion
+        ? pairMatches.length === currentQuestion.pairs.length
+        : isHotspotQuestion
+          ? tap !== null
+          : isPlayerPoll
+            ? votedPlayerId !== null
+            : playerOrder.length > 0
   const handleSubmitAnswer = async () => {
-    if (!session || !currentQuestion || !currentPlayer || selectedOptions.length === 0) return
+    if (!session || !currentQuestion || !currentPlayer || !storedPlayerSecret || !hasAnswer) return
 
     setHasSubmitted(true)
 
     try {
       // Optimistic insert - points_earned starts at 0, server calculates actual points
       // The onInsert handler calls tRPC and Electric syncs back the real response
-      responsesCollection.insert({
+      getPlayerResponsesCollection(currentPlayer.id, storedPlayerSecret).insert({
         id: tempResponseId--,
         player_id: currentPlayer.id,
         session_id: session.id,
         question_id: currentQuestion.id,
-        selected_option_ids: selectedOptions,
+        selected_option_ids:
+          isTextQuestion || isNumericQuestion || isMatchingQuestion || isHotspotQuestion || isPlayerPoll
+            ? []
+            : playerOrder,
+        text_answer: isTextQuestion ? textAnswer.trim() : null,
+        numeric_guess: isNumericQuestion ? Number(numericGuess) : null,
+        pair_matches: isMatchingQuestion ? pairMatches : [],
+        tap_x: isHotspotQuestion ? tap!.x : null,
+        tap_y: isHotspotQuestion ? tap!.y : null,
+        voted_player_id: isPlayerPoll ? votedPlayerId : null,
+        override_accepted: false,
         points_earned: 0, // Server will calculate actual points
+        speed_bonus: 0,
+        streak_bonus: 0,
+        is_correct: false,
         submitted_at: new Date(),
       })
 
       // Points will sync back via Electric - for now show "submitted" state
-      setPlayerResponse({ points_earned: 0 })
+      setPlayerResponse({
+        points_earned: 0,
+        speed_bonus: 0,
+        streak_bonus: 0,
+        is_correct: false,
+        override_accepted: false,
+      })
     } catch (err: unknown) {
       const error = err as { message?: string }
       setError(error.message || `Failed to submit answer`)
@@ -367,11 +782,49 @@ function PlayerGame() {
     }
   }
 
+  // Buzz in (buzzer mode). The server decides the order, so there's nothing
+  // optimistic to show until the buzz syncs back
+  const handleBuzz = async () => {
+    if (!session?.current_question_id || !currentPlayer) return
+
+    setIsBuzzing(true)
+    setError(``)
+    try {
+      await trpc.game.buzz.mutate({
+        playerId: currentPlayer.id,
+        playerSecret: storedPlayerSecret,
+        sessionId: session.id,
+        questionId: session.current_question_id,
+      })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setError(error.message || `Failed to buzz in`)
+    } finally {
+      setIsBuzzing(false)
+    }
+  }
+
+  // Pick a team in the lobby
+  const handlePickTeam = async (teamId: number) => {
+    if (!currentPlayer) return
+    setError(``)
+    try {
+      await trpc.teams.pick.mutate({
+        playerId: currentPlayer.id,
+        playerSecret: storedPlayerSecret,
+        teamId,
+      })
+    } catch (err: unknown) {
+      const error = err as { message?: string }
+      setError(error.message || `Failed to join team`)
+    }
+  }
+
   // Toggle option selection
   const toggleOption = (optionId: number) => {
-    if (hasSubmitted || session?.status !== `active`) return
+    if (hasSubmitted || !canAnswer || session?.status !== `active`) return
 
-    if (currentQuestion?.question_type === `single`) {
+    if (currentQuestion?.question_type === `single` || currentQuestion?.question_type === `poll`) {
       setSelectedOptions([optionId])
     } else {
       setSelectedOptions((prev) =>
@@ -380,6 +833,53 @@ function PlayerGame() {
     }
   }
 
+  // Move an item of an ordering question up or down the player's order
+  const moveOrderItem = (index: number, offset: number) => {
+    if (hasSubmitted || !canAnswer || session?.status !== `active`) return
+
+    const target = index + offset
+    if (target < 0 || target >= playerOrder.length) return
+    const next = [...playerOrder]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setSelectedOptions(next)
+  }
+
+  // Tap-to-pair for matching questions: tap a left-hand item, then the
+  // right-hand item that goes with it. Tapping a matched item unpairs it.
+  const canPair = !hasSubmitted && canAnswer && session?.status === `active`
+  const tapLeftItem = (leftId: number) => {
+    if (!canPair) return
+    setPairMatches((prev) => prev.filter((m) => m.left_id !== leftId))
+    setActiveLeftId((prev) => (prev === leftId ? null : leftId))
+  }
+  const tapRightItem = (rightId: number) => {
+    if (!canPair) return
+    const remaining = pairMatches.filter((m) => m.right_id !== rightId)
+    if (activeLeftId === null) {
+      setPairMatches(remaining)
+      return
+    }
+    setPairMatches([...remaining, { left_id: activeLeftId, right_id: rightId }])
+    setActiveLeftId(null)
+  }
+
+  // A poll's choices - its own options, or the session's players - keyed the
+  // way votes are counted, and the player's own vote
+  const pollChoices = isPlayerPoll
+    ? players.map((p) => ({ id: p.id, label: p.display_name }))
+    : isPollQuestion
+      ? currentQuestion.options.map((o) => ({ id: String(o.id), label: o.option_text }))
+      : []
+  const myVote = isPlayerPoll ? votedPlayerId : selectedOptions.length > 0 ? String(selectedOptions[0]) : null
+  const vote = (choiceId: string) => {
+    if (hasSubmitted || !canAnswer || session?.status !== `active`) return
+    if (isPlayerPoll) {
+      setVotedPlayerId(choiceId)
+    } else {
+      setSelectedOptions([Number(choiceId)])
+    }
+  }
+
   if (sessionsLoading) {
     return (
       <div className="min-h-screen bg-buzzy-gradient flex items-center justify-center">
@@ -494,6 +994,33 @@ function PlayerGame() {
             <p className="text-text-muted">Waiting for the host to start the game...</p>
           </div>
 
+          {isTeamGame && teams.length > 0 && (
+            <div className="mb-6">
+              <p className="text-sm text-text-muted mb-2">
+                {myTeam ? `Your team:` : `Pick your team:`}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {teams.map((team) => (
+                  <button
+                    key={team.id}
+                    onClick={() => handlePickTeam(team.id)}
+                    className={`px-3 py-3 rounded-xl font-semibold ${
+                      team.id === myTeam?.id
+                        ? `bg-buzzy-purple text-white`
+                        : `bg-buzzy-purple/10 text-buzzy-purple`
+                    }`}
+                  >
+                    {team.name}
+                    {team.captain_player_id === currentPlayer.id && (
+                      <Crown className="w-4 h-4 inline ml-1" />
+                    )}
+                  </button>
+                ))}
+              </div>
+              {error && <p className="text-red-700 text-sm mt-2">{error}</p>}
+            </div>
+          )}
+
           <div className="space-y-2">
             <p className="text-sm text-text-muted">Players ready:</p>
             <div className="flex flex-wrap justify-center gap-2">
@@ -516,12 +1043,55 @@ function PlayerGame() {
     )
   }
 
+  // Between rounds - round transition screen
+  if (session?.status === `intermission` && currentPlayer) {
+    return (
+      <div className="min-h-screen bg-buzzy-gradient flex items-center justify-center p-4">
+        <div className="card-buzzy max-w-md w-full text-center animate-bounce-in">
+          {currentRound && (
+            <>
+              <p className="text-sm font-semibold text-buzzy-purple uppercase tracking-wide mb-2">
+                Round {currentRound.round_order} of {rounds.length}
+              </p>
+              <h1 className="text-3xl font-bold text-text-dark mb-2">{currentRound.name}</h1>
+              <p className="text-text-muted mb-6">{currentRound.question_count} questions</p>
+            </>
+          )}
+
+          <div className="p-4 rounded-xl bg-buzzy-gradient-soft mb-6">
+            <p className="text-text-muted">Get ready! The host will start the round shortly...</p>
+          </div>
+
+          <p className="text-sm text-text-muted">Your score</p>
+          <p className="text-4xl font-bold text-buzzy-purple">{currentPlayer.score}</p>
+        </div>
+      </div>
+    )
+  }
+
   // Active game - question screen
-  if ((session?.status === `active` || session?.status === `revealing`) && currentQuestion) {
+  if (
+    (session?.status === `active` || session?.status === `paused` || session?.status === `revealing`) &&
+    currentQuestion
+  ) {
     const isRevealing = session.status === `revealing`
+    const isPaused = session.status === `paused`
 
     return (
       <div className="min-h-screen bg-buzzy-gradient-soft flex flex-col">
+        {/* Paused overlay - the countdown stays frozen until the host resumes */}
+        {isPaused && (
+          <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4 animate-fade-in">
+            <div className="card-buzzy text-center max-w-sm w-full">
+              <Pause className="w-12 h-12 text-buzzy-purple mx-auto mb-3" />
+              <h2 className="text-2xl font-bold text-text-dark mb-2">Game Paused</h2>
+              <p className="text-text-muted">
+                The timer is frozen at {timeRemaining}s. Hang tight until the host resumes!
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Header */}
         <div className="bg-white shadow-md px-4 py-3">
           <div className="max-w-2xl mx-auto flex items-center justify-between">
@@ -529,7 +1099,14 @@ function PlayerGame() {
               <div className="avatar-buzzy text-sm">{currentPlayer?.display_name[0]}</div>
               <div>
                 <p className="font-semibold text-text-dark">{currentPlayer?.display_name}</p>
-                <p className="text-sm text-text-muted">Score: {currentPlayer?.score || 0}</p>
+                <p className="text-sm text-text-muted">
+                  Score: {currentPlayer?.score || 0}
+                  {myTeam && ` · ${myTeam.name}`}
+                  {currentRound && ` · ${currentRound.name}`}
+                </p>
+                {streak >= 2 && (
+                  <p className="text-sm font-semibold text-buzzy-orange">🔥 {streak} in a row</p>
+                )}
               </div>
             </div>
 
@@ -558,8 +1135,17 @@ function PlayerGame() {
 
             {isRevealing && roundStats && (
               <div className="text-right">
-                <p className="text-2xl font-bold text-buzzy-teal">{roundStats.percentCorrect}%</p>
-                <p className="text-xs text-text-muted">got it right</p>
+                {roundStats.votes !== null ? (
+                  <>
+                    <p className="text-2xl font-bold text-buzzy-teal">{roundStats.totalResponses}</p>
+                    <p className="text-xs text-text-muted">vote{roundStats.totalResponses !== 1 ? `s` : ``}</p>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-2xl font-bold text-buzzy-teal">{roundStats.percentCorrect}%</p>
+                    <p className="text-xs text-text-muted">got it right</p>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -568,7 +1154,7 @@ function PlayerGame() {
         {/* Question */}
         <div className="flex-1 p-4 max-w-2xl mx-auto w-full">
           <div className="card-buzzy mb-6 animate-slide-down">
-            {currentQuestion.image_data && (
+            {currentQuestion.image_data && !isHotspotQuestion && (
               <div className="mb-4 rounded-xl overflow-hidden">
                 <img
                   src={`data:${currentQuestion.image_mime_type};base64,${currentQuestion.image_data}`}
@@ -583,58 +1169,326 @@ function PlayerGame() {
             {currentQuestion.question_type === `multi` && (
               <p className="text-sm text-buzzy-purple mt-2 font-medium">Select all that apply</p>
             )}
+            {isOrderingQuestion && (
+              <p className="text-sm text-buzzy-purple mt-2 font-medium">Put these in the right order</p>
+            )}
+            {isMatchingQuestion && (
+              <p className="text-sm text-buzzy-purple mt-2 font-medium">Tap an item on the left, then its match on the right</p>
+            )}
+            {isHotspotQuestion && (
+              <p className="text-sm text-buzzy-purple mt-2 font-medium">Tap the right spot on the picture</p>
+            )}
+            {isPollQuestion && (
+              <p className="text-sm text-buzzy-purple mt-2 font-medium">
+                {currentQuestion.poll_scoring === `majority`
+                  ? `No right answer - vote with the majority to score`
+                  : `No right answer - just vote!`}
+              </p>
+            )}
           </div>
 
+          {/* Poll: vote, then see how everyone voted at the reveal */}
+          {isPollQuestion && !isRevealing && (
+            <div className="space-y-3">
+              {pollChoices.map((choice, idx) => (
+                <button
+                  key={choice.id}
+                  onClick={() => vote(choice.id)}
+                  disabled={hasSubmitted || !canAnswer}
+                  className={`${myVote === choice.id ? `answer-option-selected` : `answer-option-default`} animate-slide-up stagger-${Math.min(idx + 1, 6)}`}
+                  style={{ animationFillMode: `both` }}
+                >
+                  <span>{choice.label}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {isPollQuestion && isRevealing && roundStats?.votes && (
+            <PollResults
+              choices={pollChoices}
+              votes={roundStats.votes}
+              myVote={hasSubmitted ? myVote : null}
+            />
+          )}
+
+          {/* Hotspot: tap the picture. At the reveal, the correct regions and where everyone tapped */}
+          {isHotspotQuestion && currentQuestion.image_data && (
+            <div className="space-y-3">
+              <HotspotPicture
+                src={`data:${currentQuestion.image_mime_type};base64,${currentQuestion.image_data}`}
+                tap={tap}
+                onTap={
+                  !hasSubmitted && !isRevealing && canAnswer && session.status === `active` ? setTap : undefined
+                }
+                regions={isRevealing ? currentQuestion.hotspot_regions : []}
+                heatTaps={(isRevealing && roundStats?.taps) || []}
+              />
+              {isRevealing && (
+                <p className="text-sm text-text-muted text-center">
+                  Green boxes are correct. The glow shows where everyone tapped.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Free-text answer, graded by the server against the accepted answers */}
+          {isTextQuestion && (
+            <div className="space-y-3">
+              <input
+                type="text"
+                value={textAnswer}
+                onChange={(e) => setTextAnswer(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === `Enter` && timeRemaining > 0 && !isPaused) handleSubmitAnswer()
+                }}
+                disabled={hasSubmitted || isRevealing || !canAnswer}
+                maxLength={200}
+                placeholder="Type your answer..."
+                className={`input-buzzy text-lg ${
+                  isRevealing && playerResponse
+                    ? playerResponse.is_correct
+                      ? `border-state-correct text-state-correct`
+                      : `border-state-wrong text-state-wrong`
+                    : ``
+                }`}
+              />
+              {isRevealing && (
+                <div className="p-4 rounded-xl bg-state-correct/10 border-2 border-state-correct/20">
+                  <p className="text-sm text-text-muted mb-1">Accepted answers</p>
+                  <p className="font-semibold text-state-correct">
+                    {currentQuestion.accepted_answers.join(` · `)}
+                  </p>
+                  {playerResponse?.override_accepted && (
+                    <p className="text-sm text-text-muted mt-2">The host accepted your answer</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Numeric guess. At the reveal, the true answer and how everyone's guesses spread out */}
+          {isNumericQuestion && (
+            <div className="space-y-3">
+              <input
+                type="number"
+                inputMode="decimal"
+                step="any"
+                value={numericGuess}
+                onChange={(e) => setNumericGuess(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === `Enter` && timeRemaining > 0 && !isPaused) handleSubmitAnswer()
+                }}
+                disabled={hasSubmitted || isRevealing || !canAnswer}
+                placeholder="Your best guess..."
+                className="input-buzzy text-lg"
+              />
+              {isRevealing && currentQuestion.numeric_answer !== null && (
+                <GuessSpread
+                  answer={currentQuestion.numeric_answer}
+                  buckets={roundStats?.guessBuckets ?? []}
+                  myGuess={numericGuess === `` ? null : Number(numericGuess)}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Matching: pair up the two columns, then see which pairs were right at the reveal */}
+          {isMatchingQuestion && !isRevealing && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-3">
+                {currentQuestion.pairs.map((pair, idx) => {
+                  const isMatched = pairMatches.some((m) => m.left_id === pair.id)
+                  return (
+                    <button
+                      key={pair.id}
+                      onClick={() => tapLeftItem(pair.id)}
+                      disabled={!canPair}
+                      className={activeLeftId === pair.id ? `answer-option-selected` : `answer-option-default`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <PairBadge number={isMatched || activeLeftId === pair.id ? idx + 1 : null} />
+                        <span className="text-base">{pair.left_text}</span>
+                      </div>
+                    </button>
+                  )
+                })}
+              </div>
+              <div className="space-y-3">
+                {currentQuestion.choices.map((choice) => {
+                  const match = pairMatches.find((m) => m.right_id === choice.id)
+                  const leftIndex = currentQuestion.pairs.findIndex((p) => p.id === match?.left_id)
+                  return (
+                    <button
+                      key={choice.id}
+                      onClick={() => tapRightItem(choice.id)}
+                      disabled={!canPair}
+                      className="answer-option-default"
+                    >
+                      <div className="flex items-center gap-2">
+                        <PairBadge number={match ? leftIndex + 1 : null} />
+                        <span className="text-base">{choice.text}</span>
+                      </div>
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+          {isMatchingQuestion && isRevealing && (
+            <PairBreakdown
+              pairs={currentQuestion.pairs}
+              choices={currentQuestion.choices}
+              correctMatches={currentQuestion.pair_matches}
+              matches={pairMatches}
+            />
+          )}
+
+          {/* Ordering: move items into place, then compare with the correct order at the reveal */}
+          {isOrderingQuestion && !isRevealing && (
+            <ol className="space-y-3">
+              {playerOrder.map((optionId, idx) => {
+                const option = currentQuestion.options.find((o) => o.id === optionId)
+                const isLocked = hasSubmitted || !canAnswer
+
+                return (
+                  <li key={optionId} className="answer-option-default flex items-center gap-3">
+                    <span className="font-bold w-6 text-center">{idx + 1}</span>
+                    <span className="flex-1">{option?.option_text}</span>
+                    <button
+                      type="button"
+                      onClick={() => moveOrderItem(idx, -1)}
+                      disabled={isLocked || idx === 0}
+                      className="p-1 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-5 h-5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveOrderItem(idx, 1)}
+                      disabled={isLocked || idx === playerOrder.length - 1}
+                      className="p-1 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-5 h-5" />
+                    </button>
+                  </li>
+                )
+              })}
+            </ol>
+          )}
+          {isOrderingQuestion && isRevealing && (
+            <OrderComparison options={currentQuestion.options} playerOrder={playerOrder} />
+          )}
+
           {/* Answer options */}
-          <div className="space-y-3">
-            {currentQuestion.options.map((option, idx) => {
-              const isSelected = selectedOptions.includes(option.id)
-              let optionClass = `answer-option-default`
-
-              if (isRevealing) {
-                if (option.is_correct) {
-                  optionClass = `answer-option-correct`
-                } else if (isSelected && !option.is_correct) {
-                  optionClass = `answer-option-wrong`
+          {!isOrderingQuestion && !isPollQuestion && (
+            <div className="space-y-3">
+              {currentQuestion.options.map((option, idx) => {
+                const isSelected = selectedOptions.includes(option.id)
+                let optionClass = `answer-option-default`
+
+                if (isRevealing) {
+                  if (option.is_correct) {
+                    optionClass = `answer-option-correct`
+                  } else if (isSelected && !option.is_correct) {
+                    optionClass = `answer-option-wrong`
+                  }
+                } else if (isSelected) {
+                  optionClass = `answer-option-selected`
                 }
-              } else if (isSelected) {
-                optionClass = `answer-option-selected`
-              }
 
-              return (
+                return (
+                  <button
+                    key={option.id}
+                    onClick={() => toggleOption(option.id)}
+                    disabled={hasSubmitted || isRevealing}
+                    className={`${optionClass} animate-slide-up stagger-${idx + 1}`}
+                    style={{ animationFillMode: `both` }}
+                  >
+                    <div className="flex items-center gap-3">
+                      {currentQuestion.question_type === `multi` && (
+                        <div
+                          className={`w-6 h-6 rounded border-2 flex items-center justify-center ${
+                            isSelected ? `bg-white border-white` : `border-current`
+                          }`}
+                        >
+                          {isSelected && <Check className="w-4 h-4 text-buzzy-purple" />}
+                        </div>
+                      )}
+                      <span>{option.option_text}</span>
+                      {isRevealing && option.is_correct && <Check className="w-5 h-5 ml-auto" />}
+                    </div>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          {/* How everyone answered */}
+          {isRevealing && hasAnswerOptions(currentQuestion.question_type) && roundStats?.optionCounts && (
+            <AnswerDistribution options={currentQuestion.options} picks={roundStats.optionCounts} />
+          )}
+
+          {/* Players knocked out of the running watch the tiebreaker */}
+          {isTiebreaker && !isInTiebreaker && !isRevealing && (
+            <div className="mt-6 p-4 rounded-xl bg-buzzy-orange/10 border-2 border-buzzy-orange/20 text-center">
+              <p className="font-semibold text-buzzy-orange">Sudden death!</p>
+              <p className="text-sm text-text-muted">
+                {tiedPlayers.map((p) => p.display_name).join(` vs `)} are playing for the win
+              </p>
+            </div>
+          )}
+
+          {/* Buzzer mode: race to buzz in, then wait for your turn */}
+          {isBuzzerGame && isEligible && !hasSubmitted && !isRevealing && (
+            <div className="mt-6 text-center">
+              {myBuzzTurn === null ? (
                 <button
-                  key={option.id}
-                  onClick={() => toggleOption(option.id)}
-                  disabled={hasSubmitted || isRevealing}
-                  className={`${optionClass} animate-slide-up stagger-${idx + 1}`}
-                  style={{ animationFillMode: `both` }}
+                  onClick={handleBuzz}
+                  disabled={isBuzzing || timeRemaining === 0 || isPaused}
+                  className="w-40 h-40 rounded-full bg-state-wrong text-white text-3xl font-bold shadow-xl active:scale-95 transition-transform disabled:opacity-50 mx-auto flex flex-col items-center justify-center gap-1"
                 >
-                  <div className="flex items-center gap-3">
-                    {currentQuestion.question_type === `multi` && (
-                      <div
-                        className={`w-6 h-6 rounded border-2 flex items-center justify-center ${
-                          isSelected ? `bg-white border-white` : `border-current`
-                        }`}
-                      >
-                        {isSelected && <Check className="w-4 h-4 text-buzzy-purple" />}
-                      </div>
-                    )}
-                    <span>{option.option_text}</span>
-                    {isRevealing && option.is_correct && <Check className="w-5 h-5 ml-auto" />}
-                  </div>
+                  <Zap className="w-10 h-10" />
+                  BUZZ
                 </button>
-              )
-            })}
-          </div>
+              ) : myBuzzTurn === `answering` ? (
+                <div className="p-4 rounded-xl bg-state-correct/10 border-2 border-state-correct/20">
+                  <p className="font-semibold text-state-correct">Your turn! Answer now</p>
+                </div>
+              ) : (
+                <div className="p-4 rounded-xl bg-buzzy-purple/10 border-2 border-buzzy-purple/20">
+                  <p className="font-semibold text-buzzy-purple">You're #{myBuzzIndex + 1} in the queue</p>
+                  <p className="text-sm text-text-muted">
+                    {answeringBuzzer ? `${answeringBuzzer.display_name} is answering` : `Waiting for your turn`}
+                  </p>
+                </div>
+              )}
+              {myBuzzTurn === null && answeringBuzzer && (
+                <p className="text-sm text-text-muted mt-3">{answeringBuzzer.display_name} is answering</p>
+              )}
+              {error && <p className="text-red-700 text-sm mt-2">{error}</p>}
+            </div>
+          )}
+
+          {/* In captain mode, other members watch their captain answer */}
+          {!isEligible && !isTiebreaker && !isRevealing && (
+            <div className="mt-6 p-4 rounded-xl bg-buzzy-purple/10 border-2 border-buzzy-purple/20 text-center">
+              <p className="font-semibold text-buzzy-purple">
+                {captain ? `${captain.display_name} is answering for your team` : `Your team captain is answering`}
+              </p>
+              <p className="text-sm text-text-muted">Talk it over together!</p>
+            </div>
+          )}
 
           {/* Submit button */}
-          {!hasSubmitted && !isRevealing && (
+          {canAnswer && !hasSubmitted && !isRevealing && (
             <button
               onClick={handleSubmitAnswer}
-              disabled={selectedOptions.length === 0}
+              disabled={!hasAnswer || timeRemaining === 0 || isPaused}
               className="btn-primary w-full mt-6"
             >
-              Submit Answer
+              {timeRemaining === 0 ? `Time's Up!` : `Submit Answer`}
             </button>
           )}
 
@@ -647,8 +1501,13 @@ function PlayerGame() {
             </div>
           )}
 
-          {/* Reveal results */}
-          {isRevealing && playerResponse && (
+          {/* Reveal results. Polls just for fun have nothing to win */}
+          {isRevealing && playerResponse && isUnscoredPoll(currentQuestion) && (
+            <div className="mt-6 p-4 rounded-xl text-center bg-buzzy-purple/10 border-2 border-buzzy-purple/20">
+              <p className="font-semibold text-buzzy-purple">Thanks for voting!</p>
+            </div>
+          )}
+          {isRevealing && playerResponse && !isUnscoredPoll(currentQuestion) && (
             <div
               className={`mt-6 p-4 rounded-xl text-center ${
                 playerResponse.points_earned > 0
@@ -662,6 +1521,17 @@ function PlayerGame() {
               <p className={`font-semibold ${playerResponse.points_earned > 0 ? `text-state-correct` : `text-state-wrong`}`}>
                 {playerResponse.points_earned > 0 ? `Nice!` : `Better luck next time!`}
               </p>
+              {playerResponse.speed_bonus > 0 && (
+                <p className="text-sm text-buzzy-orange font-medium mt-1">
+                  <Zap className="w-4 h-4 inline mr-1" />
+                  Includes +{playerResponse.speed_bonus} speed bonus
+                </p>
+              )}
+              {playerResponse.streak_bonus > 0 && (
+                <p className="text-sm text-buzzy-orange font-medium mt-1">
+                  🔥 Includes +{playerResponse.streak_bonus} streak bonus
+                </p>
+              )}
             </div>
           )}
 
@@ -672,6 +1542,36 @@ function PlayerGame() {
               <p className="text-text-dark">{currentQuestion.explanation}</p>
             </div>
           )}
+
+          {isFinalReveal && (
+            <p className="mt-6 text-center font-semibold text-buzzy-purple">
+              {isTiebreaker
+                ? `Checking for a winner...`
+                : `That was the last question - final results coming up!`}
+            </p>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  // Tied for the win - waiting for the host to settle it
+  if (session?.status === `tied`) {
+    return (
+      <div className="min-h-screen bg-buzzy-gradient flex items-center justify-center p-4">
+        <div className="card-buzzy max-w-md w-full text-center animate-bounce-in">
+          <Crown className="w-16 h-16 text-buzzy-yellow mx-auto mb-2" />
+          <h1 className="text-3xl font-bold text-text-dark mb-2">It's a Tie!</h1>
+          <p className="text-xl text-buzzy-purple font-semibold mb-6">
+            {tiedPlayers.map((p) => p.display_name).join(` & `)}
+          </p>
+          <div className="p-4 rounded-xl bg-buzzy-gradient-soft">
+            <p className="text-text-muted">
+              {isInTiebreaker
+                ? `Get ready - the host may call a sudden-death tiebreaker!`
+                : `Waiting for the host to settle the tie...`}
+            </p>
+          </div>
         </div>
       </div>
     )
@@ -679,7 +1579,10 @@ function PlayerGame() {
 
   // Game ended - results with question history
   if (session?.status === `ended`) {
-    const isWinner = winner?.id === currentPlayer?.id
+    const winner = winners[0]
+    const isWinner = winningTeams.length > 0
+      ? winningTeams.some((t) => t.id === currentPlayer?.team_id)
+      : winners.some((w) => w.id === currentPlayer?.id)
 
     return (
       <div className="min-h-screen bg-buzzy-gradient-soft">
@@ -689,7 +1592,13 @@ function PlayerGame() {
             {isWinner ? (
               <>
                 <Crown className="w-16 h-16 crown-winner animate-wiggle mx-auto mb-2" />
-                <h1 className="text-3xl font-bold text-text-dark">You Won!</h1>
+                <h1 className="text-3xl font-bold text-text-dark">
+                  {winningTeams.length > 1
+                    ? `Your Team's a Co-Winner!`
+                    : winningTeams.length > 0
+                      ? `Your Team Won!`
+                      : winners.length > 1 ? `You're a Co-Winner!` : `You Won!`}
+                </h1>
               </>
             ) : (
               <>
@@ -698,9 +1607,23 @@ function PlayerGame() {
               </>
             )}
 
-            {winner && !isWinner && (
+            {winningTeams.length > 0 && (
               <p className="text-text-muted mt-2">
-                Winner: <span className="font-semibold text-buzzy-purple">{winner.display_name}</span> ({winner.score} pts)
+                {winningTeams.length > 1 ? `Co-winning teams: ` : `Winning team: `}
+                <span className="font-semibold text-buzzy-purple">
+                  {winningTeams.map((t) => t.name).join(` & `)}
+                </span>{` `}
+                ({winningTeams[0].score} pts)
+              </p>
+            )}
+
+            {winningTeams.length === 0 && winner && (winners.length > 1 || !isWinner) && (
+              <p className="text-text-muted mt-2">
+                {winners.length > 1 ? `Co-winners: ` : `Winner: `}
+                <span className="font-semibold text-buzzy-purple">
+                  {winners.map((w) => w.display_name).join(` & `)}
+                </span>{` `}
+                ({winner.score} pts)
               </p>
             )}
 
@@ -708,6 +1631,10 @@ function PlayerGame() {
               <p className="text-sm text-text-muted">Your Score</p>
               <p className="text-3xl font-bold text-text-dark">{currentPlayer?.score || 0}</p>
             </div>
+
+            <p className="text-xs text-text-muted mt-3">
+              {getScoringStrategy(session.scoring_strategy).label} scoring: {getScoringStrategy(session.scoring_strategy).description}
+            </p>
           </div>
         </div>
 
@@ -728,60 +1655,129 @@ function PlayerGame() {
                     <div className="flex-1">
                       <p className="font-semibold text-text-dark">{item.questionText}</p>
                     </div>
-                    <span
-                      className={`flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium ${
-                        gotItRight
-                          ? `bg-state-correct/10 text-state-correct`
-                          : `bg-state-wrong/10 text-state-wrong`
-                      }`}
-                    >
-                      {gotItRight ? `+${item.pointsEarned}` : item.pointsEarned}
-                    </span>
+                    {item.isVoided ? (
+                      <span className="flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-text-muted">
+                        Voided
+                      </span>
+                    ) : item.isUnscoredPoll ? (
+                      <span className="flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium bg-buzzy-purple/10 text-buzzy-purple">
+                        Poll
+                      </span>
+                    ) : (
+                      <span
+                        className={`flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium ${
+                          gotItRight
+                            ? `bg-state-correct/10 text-state-correct`
+                            : `bg-state-wrong/10 text-state-wrong`
+                        }`}
+                      >
+                        {gotItRight ? `+${item.pointsEarned}` : item.pointsEarned}
+                      </span>
+                    )}
                   </div>
 
-                  <div className="space-y-2 ml-11">
-                    {item.options.map((option) => {
-                      const wasSelected = item.playerSelectedIds.includes(option.id)
-                      const isCorrect = option.is_correct
-
-                      let bgClass = `bg-gray-50`
-                      let textClass = `text-text-muted`
-                      let icon = null
-
-                      if (isCorrect) {
-                        bgClass = `bg-state-correct/10`
-                        textClass = `text-state-correct`
-                        icon = <Check className="w-4 h-4" />
-                      } else if (wasSelected && !isCorrect) {
-                        bgClass = `bg-state-wrong/10`
-                        textClass = `text-state-wrong`
-                        icon = <X className="w-4 h-4" />
-                      }
-
-                      return (
-                        <div
-                          key={option.id}
-                          className={`flex items-center gap-2 px-3 py-2 rounded-lg ${bgClass}`}
-                        >
-                          {wasSelected && (
-                            <span className={`w-4 h-4 rounded-full border-2 flex items-center justify-center ${
-                              isCorrect ? `border-state-correct bg-state-correct` : `border-state-wrong bg-state-wrong`
-                            }`}>
-                              <span className="w-2 h-2 rounded-full bg-white" />
-                            </span>
-                          )}
-                          {!wasSelected && isCorrect && (
-                            <span className="w-4 h-4 rounded-full border-2 border-state-correct" />
-                          )}
-                          {!wasSelected && !isCorrect && (
-                            <span className="w-4 h-4" />
-                          )}
-                          <span className={`flex-1 text-sm ${textClass}`}>{option.option_text}</span>
-                          {icon}
-                        </div>
-                      )
-                    })}
-                  </div>
+                  {item.isVoided && (
+                    <p className="ml-11 text-sm text-text-muted">
+                      The host voided this question, so it didn't count for anyone.
+                    </p>
+                  )}
+
+                  {!item.isVoided && item.questionType === `numeric` && (
+                    <div className="space-y-2 ml-11 text-sm">
+                      <p className={gotItRight ? `text-state-correct` : `text-state-wrong`}>
+                        Your guess: {item.playerNumericGuess?.toLocaleString() ?? `(no answer)`}
+                      </p>
+                      <p className="text-text-muted">
+                        Answer: {item.numericAnswer?.toLocaleString()}
+                      </p>
+                    </div>
+                  )}
+
+                  {!item.isVoided && item.questionType === `text` && (
+                    <div className="space-y-2 ml-11 text-sm">
+                      <p className={gotItRight ? `text-state-correct` : `text-state-wrong`}>
+                        Your answer: {item.playerTextAnswer ?? `(no answer)`}
+                      </p>
+                      <p className="text-text-muted">
+                        Accepted: {item.acceptedAnswers.join(` · `)}
+                      </p>
+                    </div>
+                  )}
+
+                  {!item.isVoided && item.questionType === `hotspot` && (
+                    <p className={`ml-11 text-sm ${item.isHotspotHit ? `text-state-correct` : `text-state-wrong`}`}>
+                      {item.isHotspotHit ? `You tapped the right spot` : `You missed the spot`}
+                    </p>
+                  )}
+
+                  {!item.isVoided && item.questionType === `poll` && (
+                    <p className="ml-11 text-sm text-text-muted">
+                      Your vote: {item.playerVote ?? `(no vote)`}
+                    </p>
+                  )}
+
+                  {!item.isVoided && item.questionType === `matching` && (
+                    <div className="ml-11">
+                      <PairBreakdown
+                        pairs={item.pairs}
+                        choices={item.choices}
+                        correctMatches={item.correctPairMatches}
+                        matches={item.playerPairMatches}
+                      />
+                    </div>
+                  )}
+
+                  {!item.isVoided && item.questionType === `ordering` && (
+                    <div className="ml-11">
+                      <OrderComparison options={item.options} playerOrder={item.playerSelectedIds} />
+                    </div>
+                  )}
+
+                  {!item.isVoided && item.questionType !== `ordering` && item.questionType !== `poll` && (
+                    <div className="space-y-2 ml-11">
+                      {item.options.map((option) => {
+                        const wasSelected = item.playerSelectedIds.includes(option.id)
+                        const isCorrect = option.is_correct
+
+                        let bgClass = `bg-gray-50`
+                        let textClass = `text-text-muted`
+                        let icon = null
+
+                        if (isCorrect) {
+                          bgClass = `bg-state-correct/10`
+                          textClass = `text-state-correct`
+                          icon = <Check className="w-4 h-4" />
+                        } else if (wasSelected && !isCorrect) {
+                          bgClass = `bg-state-wrong/10`
+                          textClass = `text-state-wrong`
+                          icon = <X className="w-4 h-4" />
+                        }
+
+                        return (
+                          <div
+                            key={option.id}
+                            className={`flex items-center gap-2 px-3 py-2 rounded-lg ${bgClass}`}
+                          >
+                            {wasSelected && (
+                              <span className={`w-4 h-4 rounded-full border-2 flex items-center justify-center ${
+                                isCorrect ? `border-state-correct bg-state-correct` : `border-state-wrong bg-state-wrong`
+                              }`}>
+                                <span className="w-2 h-2 rounded-full bg-white" />
+                              </span>
+                            )}
+                            {!wasSelected && isCorrect && (
+                              <span className="w-4 h-4 rounded-full border-2 border-state-correct" />
+                            )}
+                            {!wasSelected && !isCorrect && (
+                              <span className="w-4 h-4" />
+                            )}
+                            <span className={`flex-1 text-sm ${textClass}`}>{option.option_text}</span>
+                            {icon}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
 
                   {item.explanation && (
                     <div className="mt-3 ml-11 p-3 rounded-lg bg-buzzy-purple/5 border border-buzzy-purple/10">
@@ -808,3 +1804,330 @@ function PlayerGame() {
 
   return null
 }
+
+// How many players picked each option, as a bar chart under the revealed
+// answer. It only ever shows counts, so nobody's answer is given away.
+function AnswerDistribution({
+  options,
+  picks,
+}: {
+  options: { id: number; option_text: string; is_correct: boolean }[]
+  picks: OptionPicks[]
+}) {
+  const popularWrongId = findPopularWrongOption(
+    picks,
+    options.filter((o) => o.is_correct).map((o) => o.id)
+  )
+  const mostPicks = Math.max(1, ...picks.map((p) => p.count))
+
+  return (
+    <div className="mt-6 p-4 rounded-xl bg-white/60 border-2 border-gray-100">
+      <p className="text-sm font-semibold text-text-dark mb-3">How everyone answered</p>
+      <div className="space-y-3">
+        {options.map((option) => {
+          const count = picks.find((p) => p.optionId === option.id)?.count ?? 0
+          return (
+            <div key={option.id}>
+              <div className="flex items-center justify-between gap-3 mb-1 text-sm">
+                <span className={option.is_correct ? `font-semibold text-state-correct` : `text-text-dark`}>
+                  {option.option_text}
+                  {option.id === popularWrongId && (
+                    <span className="text-state-wrong font-normal"> · most popular wrong answer</span>
+                  )}
+                </span>
+                <span className="font-bold text-text-muted">{count}</span>
+              </div>
+              <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+                <div
+                  className={`h-full rounded-full transition-all ${
+                    option.is_correct
+                      ? `bg-state-correct`
+                      : option.id === popularWrongId
+                        ? `bg-state-wrong`
+                        : `bg-gray-400`
+                  }`}
+                  style={{ width: `${(count / mostPicks) * 100}%` }}
+                />
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+// How a poll's votes split between its choices, with the most popular
+// choice(s) highlighted and the player's own vote marked
+function PollResults({
+  choices,
+  votes,
+  myVote,
+}: {
+  choices: { id: string; label: string }[]
+  votes: { choice: string; count: number }[]
+  myVote: string | null
+}) {
+  const countOf = (choice: string) => votes.find((v) => v.choice === choice)?.count ?? 0
+  const mostVotes = Math.max(1, ...votes.map((v) => v.count))
+
+  return (
+    <div className="space-y-2">
+      {choices.map((choice) => {
+        const count = countOf(choice.id)
+        // Choices tied for the most votes all count as the majority
+        const isMajority = count > 0 && count === mostVotes
+        return (
+          <div
+            key={choice.id}
+            className={`p-3 rounded-xl border-2 ${
+              isMajority ? `bg-buzzy-purple/10 border-buzzy-purple` : `bg-gray-50 border-transparent`
+            }`}
+          >
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <span className={`font-medium ${isMajority ? `text-buzzy-purple` : `text-text-dark`}`}>
+                {choice.label}
+                {choice.id === myVote && <span className="text-sm text-text-muted font-normal"> · your vote</span>}
+              </span>
+              <span className="text-sm font-bold text-text-muted">{count}</span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+              <div
+                className={`h-full rounded-full ${isMajority ? `bg-buzzy-purple` : `bg-gray-400`}`}
+                style={{ width: `${(count / mostVotes) * 100}%` }}
+              />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// The true answer to a numeric question next to a bar chart of how the
+// group's guesses were spread out
+function GuessSpread({
+  answer,
+  buckets,
+  myGuess,
+}: {
+  answer: number
+  buckets: GuessBucket[]
+  myGuess: number | null
+}) {
+  const maxCount = Math.max(1, ...buckets.map((b) => b.count))
+  const formatRange = (from: number, to: number) =>
+    from === to
+      ? from.toLocaleString()
+      : `${Math.round(from).toLocaleString()}-${Math.round(to).toLocaleString()}`
+
+  return (
+    <div className="p-4 rounded-xl bg-white border-2 border-gray-200">
+      <div className="text-center mb-4">
+        <p className="text-sm text-text-muted">The answer</p>
+        <p className="text-3xl font-bold text-state-correct">{answer.toLocaleString()}</p>
+        {myGuess !== null && (
+          <p className="text-sm text-text-muted">
+            You guessed {myGuess.toLocaleString()} ({Math.abs(myGuess - answer).toLocaleString()} off)
+          </p>
+        )}
+      </div>
+
+      {buckets.length > 0 && (
+        <div className="space-y-1">
+          {buckets.map((bucket, idx) => (
+            <div key={idx} className="flex items-center gap-2 text-xs">
+              <span className={`w-28 text-right ${bucket.containsAnswer ? `font-bold text-state-correct` : `text-text-muted`}`}>
+                {formatRange(bucket.from, bucket.to)}
+              </span>
+              <div className="flex-1 h-4 rounded bg-gray-100 overflow-hidden">
+                <div
+                  className={`h-full ${bucket.containsAnswer ? `bg-state-correct` : `bg-buzzy-purple/60`}`}
+                  style={{ width: `${(bucket.count / maxCount) * 100}%` }}
+                />
+              </div>
+              <span className="w-6 text-text-muted">{bucket.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// The player's order of an ordering question next to the correct order, with
+// each item marked by whether it landed in the right place
+function OrderComparison({
+  options,
+  playerOrder,
+}: {
+  options: AnswerOptionData[]
+  playerOrder: number[]
+}) {
+  const correctOrder = [...options].sort(
+    (a, b) => (a.correct_position ?? 0) - (b.correct_position ?? 0)
+  )
+  const textOf = (optionId: number) => options.find((o) => o.id === optionId)?.option_text
+
+  return (
+    <div className="grid grid-cols-2 gap-3 text-sm">
+      <div>
+        <p className="text-text-muted mb-2">Your order</p>
+        {playerOrder.length === 0 ? (
+          <p className="text-text-muted">(no answer)</p>
+        ) : (
+          <ol className="space-y-2">
+            {playerOrder.map((optionId, idx) => {
+              const inPlace = correctOrder[idx]?.id === optionId
+              return (
+                <li
+                  key={optionId}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg ${
+                    inPlace ? `bg-state-correct/10 text-state-correct` : `bg-state-wrong/10 text-state-wrong`
+                  }`}
+                >
+                  <span className="font-bold">{idx + 1}</span>
+                  <span className="flex-1">{textOf(optionId)}</span>
+                  {inPlace ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+      <div>
+        <p className="text-text-muted mb-2">Correct order</p>
+        <ol className="space-y-2">
+          {correctOrder.map((option, idx) => (
+            <li key={option.id} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-50 text-text-dark">
+              <span className="font-bold">{idx + 1}</span>
+              <span className="flex-1">{option.option_text}</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  )
+}
+
+// Numbered marker tying a matched right-hand item to its left-hand item
+function PairBadge({ number }: { number: number | null }) {
+  return (
+    <span
+      className={`w-7 h-7 rounded-full flex-shrink-0 flex items-center justify-center text-sm font-bold ${
+        number === null ? `border-2 border-dashed border-gray-300` : `bg-buzzy-purple text-white`
+      }`}
+    >
+      {number}
+    </span>
+  )
+}
+
+// Per-pair breakdown of a matching answer: what the player matched to each
+// left-hand item, and the right match wherever they missed it
+function PairBreakdown({
+  pairs,
+  choices,
+  correctMatches,
+  matches,
+}: {
+  pairs: AnswerPairData[]
+  choices: MatchingChoiceData[]
+  correctMatches: PairMatchData[]
+  matches: PairMatchData[]
+}) {
+  const correctIdOf = (leftId: number) =>
+    correctMatches.find((m) => m.left_id === leftId)?.right_id
+  const correctCount = pairs.filter((pair) =>
+    matches.some((m) => m.left_id === pair.id && m.right_id === correctIdOf(pair.id))
+  ).length
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-text-muted">
+        {correctCount} of {pairs.length} pairs right
+      </p>
+      {pairs.map((pair) => {
+        const matchedId = matches.find((m) => m.left_id === pair.id)?.right_id
+        const matched = choices.find((c) => c.id === matchedId)
+        const correct = choices.find((c) => c.id === correctIdOf(pair.id))
+        const isRight = matched !== undefined && matched === correct
+
+        return (
+          <div
+            key={pair.id}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg ${
+              isRight ? `bg-state-correct/10 text-state-correct` : `bg-state-wrong/10 text-state-wrong`
+            }`}
+          >
+            {isRight ? <Check className="w-4 h-4 flex-shrink-0" /> : <X className="w-4 h-4 flex-shrink-0" />}
+            <span className="flex-1">
+              <span className="font-semibold">{pair.left_text}</span>
+              {` → `}
+              {matched?.text ?? `(no match)`}
+            </span>
+            {!isRight && (
+              <span className="flex items-center gap-1 text-state-correct">
+                <Check className="w-4 h-4" />
+                {correct?.text}
+              </span>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+// A hotspot question's picture. Tapping it (when `onTap` is given) picks a
+// spot; at the reveal it also shows the correct regions and a heat map of
+// everyone's taps, without saying whose they were.
+function HotspotPicture({
+  src,
+  tap,
+  onTap,
+  regions,
+  heatTaps,
+}: {
+  src: string
+  tap: HotspotPoint | null
+  onTap?: (tap: HotspotPoint) => void
+  regions: HotspotRect[]
+  heatTaps: HotspotPoint[]
+}) {
+  return (
+    <div
+      className={`relative rounded-xl overflow-hidden select-none ${onTap ? `cursor-crosshair` : ``}`}
+      onClick={(e) =>
+        onTap?.(getPointOnElement(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect()))
+      }
+    >
+      <img src={src} alt="Question" draggable={false} className="w-full h-auto" />
+      {heatTaps.map((point, idx) => (
+        <span
+          key={idx}
+          className="absolute w-10 h-10 -ml-5 -mt-5 rounded-full bg-orange-500/30 blur-sm pointer-events-none"
+          style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+        />
+      ))}
+      {regions.map((region, idx) => (
+        <span
+          key={idx}
+          className="absolute border-2 border-state-correct bg-state-correct/20 rounded pointer-events-none"
+          style={{
+            left: `${region.x * 100}%`,
+            top: `${region.y * 100}%`,
+            width: `${region.width * 100}%`,
+            height: `${region.height * 100}%`,
+          }}
+        />
+      ))}
+      {tap && (
+        <span
+          className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-buzzy-purple shadow pointer-events-none"
+          style={{ left: `${tap.x * 100}%`, top: `${tap.y * 100}%` }}
+        />
+      )}
+    </div>
+  )
+}
@@ -164,6 +164,20 @@ describe(`Electric API Routes`, () => {
 
       expect([200, 400, 401, 404]).toContain(response.status)
     }))
+
+    it(`should refuse a player's responses without their secret`, skipIfNoServer(async () => {
+      const response = await fetch(`${BASE_URL}/api/responses?offset=-1&player_id=someone-else`)
+
+      expect(response.status).toBe(401)
+    }))
+
+    it(`should refuse a player's responses with the wrong secret`, skipIfNoServer(async () => {
+      const response = await fetch(`${BASE_URL}/api/responses?offset=-1&player_id=someone-else`, {
+        headers: { "x-player-secret": `guess` },
+      })
+
+      expect(response.status).toBe(401)
+    }))
   })
 
   describe(`/api/used-questions`, () => {
@@ -178,6 +192,12 @@ describe(`Electric API Routes`, () => {
 
       expect([200, 400, 401, 404]).toContain(response.status)
     }))
+
+    it(`should refuse to sync answer keys to anyone but the admin`, skipIfNoServer(async () => {
+      const response = await fetch(`${BASE_URL}/api/used-questions?offset=-1&session_id=1`)
+
+      expect(response.status).toBe(401)
+    }))
   })
 
   describe(`/api/users`, () => {
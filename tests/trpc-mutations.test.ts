@@ -150,6 +150,29 @@ describe(`tRPC Players`, () => {
     // Should fail validation (min 3 chars) or session not found
     expect(result).toBeDefined()
   }))
+
+  it(`should refuse to act as a player without their secret`, skipIfNoServer(async () => {
+    const joined = await trpcMutate(`players.join`, {
+      sessionId: 1,
+      displayName: `TestPlayer${Date.now()}`,
+    })
+    if (joined.error) return // Session 1 isn't open to join
+
+    const { player } = joined.result?.data as { player: { id: string } }
+    const rejoined = await trpcMutate(`players.rejoin`, {
+      sessionId: 1,
+      playerId: player.id,
+      playerSecret: `guess`,
+    })
+    const buzzed = await trpcMutate(`game.buzz`, {
+      sessionId: 1,
+      questionId: 1,
+      playerId: player.id,
+    })
+
+    expect(rejoined.error).toBeDefined()
+    expect(buzzed.error).toBeDefined()
+  }))
 })
 
 describe(`tRPC Game Actions`, () => {